@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { practiceDoc } from '../sources/testing.js';
+import { ChecklistGenerator } from './ChecklistGenerator.js';
+
+const practices = [
+  practiceDoc({
+    id: 'name-booleans',
+    title: 'Name booleans as questions',
+    description: 'Prefix booleans with is, has or can. It reads as a question.',
+    category: 'naming',
+    severity: 'info',
+  }),
+  practiceDoc({
+    id: 'validate-input',
+    title: 'Validate all user input',
+    description: 'Never trust user input.\n\nValidate it against a schema.',
+    category: 'security',
+    severity: 'error',
+    lintRules: ['@typescript-eslint/no-explicit-any'],
+  }),
+  practiceDoc({
+    id: 'escape-output',
+    title: 'Escape output',
+    description: 'Escape values rendered into HTML',
+    category: 'security',
+    severity: 'warning',
+  }),
+];
+
+describe('ChecklistGenerator', () => {
+  const generator = new ChecklistGenerator(practices);
+
+  it('groups items by category with the most severe first', () => {
+    const checklist = generator.build('Review');
+
+    expect(checklist.itemCount).toBe(3);
+    expect(checklist.sections.map(s => [s.category, s.items.map(i => i.practiceId)])).toEqual([
+      ['security', ['validate-input', 'escape-output']],
+      ['naming', ['name-booleans']],
+    ]);
+    expect(checklist.sections[0].items.map(i => i.summary)).toEqual([
+      'Never trust user input.',
+      'Escape values rendered into HTML',
+    ]);
+  });
+
+  it('renders a markdown task list with practice IDs and lint rules', () => {
+    const markdown = generator.render(generator.build('Review'), 'markdown');
+
+    expect(markdown).toContain([
+      '## Security',
+      '',
+      '- [ ] **Validate all user input** (error) — `validate-input` · lint: `@typescript-eslint/no-explicit-any`',
+      '  Never trust user input.',
+      '- [ ] **Escape output** (warning) — `escape-output`',
+    ].join('\n'));
+    expect(markdown.startsWith('# Review\n')).toBe(true);
+  });
+
+  it('renders a pull request template with errors marked required', () => {
+    const template = generator.render(generator.build('Checklist'), 'github');
+
+    expect(template).toContain(
+      '- [ ] Validate all user input **(required)** <!-- validate-input, lint: @typescript-eslint/no-explicit-any -->'
+    );
+    expect(template).toContain('- [ ] Name booleans as questions <!-- name-booleans -->');
+    expect(template).toContain('## Exceptions');
+  });
+
+  it('keeps IDs and lint rules from closing the HTML comment', () => {
+    const tricky = new ChecklistGenerator([practiceDoc({
+      id: 'no-html-comments-->',
+      title: 'No stray --> markers',
+      severity: 'error',
+      lintRules: ['local/no---comment'],
+    })]);
+    const template = tricky.render(tricky.build('Checklist'), 'github');
+
+    expect(template).toContain(
+      '- [ ] No stray --> markers **(required)** <!-- no-html-comments- ->, lint: local/no- - -comment -->'
+    );
+  });
+
+    it('renders JSON that parses back to the checklist', () => {
+    const checklist = generator.build('Review');
+
+    expect(JSON.parse(generator.render(checklist, 'json'))).toEqual(checklist);
+  });
+});
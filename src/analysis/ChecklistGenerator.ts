@@ -0,0 +1,159 @@
+import type { Document } from '@xorng/template-knowledge';
+import {
+  SEVERITY_RANK,
+  type Checklist,
+  type ChecklistFormat,
+  type ChecklistItem,
+  type ChecklistSection,
+  type PracticeCategory,
+  type PracticeSeverity,
+} from '../types/index.js';
+import { parsePracticeContent } from './practiceContent.js';
+
+const CATEGORY_TITLES: Record<PracticeCategory, string> = {
+  naming: 'Naming',
+  formatting: 'Formatting',
+  architecture: 'Architecture',
+  testing: 'Testing',
+  security: 'Security',
+  performance: 'Performance',
+  documentation: 'Documentation',
+  'error-handling': 'Error Handling',
+  logging: 'Logging',
+  'dependency-management': 'Dependency Management',
+  general: 'General',
+};
+
+/**
+ * Turns practices into checklists for audits and pull request templates.
+ *
+ * Items are grouped by category and ordered by severity; sections holding
+ * the most severe items come first. Each item carries its practice ID and
+ * lint rules so reviewers can look up or enforce it.
+ */
+export class ChecklistGenerator {
+  private practices: Document[];
+
+  constructor(practices: Document[]) {
+    this.practices = practices;
+  }
+
+  /**
+   * Group the practices into a checklist
+   */
+  build(title: string): Checklist {
+    const sections = new Map<PracticeCategory, ChecklistItem[]>();
+
+    for (const doc of this.practices) {
+      const category = (doc.metadata.category as PracticeCategory) || 'general';
+      const description = parsePracticeContent(doc.content).description;
+      const items = sections.get(category) || [];
+      items.push({
+        practiceId: doc.metadata.practiceId as string,
+        documentId: doc.id,
+        title: doc.title || (doc.metadata.practiceId as string),
+        severity: (doc.metadata.severity as PracticeSeverity) || 'suggestion',
+        summary: firstSentence(description),
+        lintRules: (doc.metadata.lintRules as string[]) || [],
+      });
+      sections.set(category, items);
+    }
+
+    const ordered: ChecklistSection[] = [...sections.entries()]
+      .map(([category, items]) => ({
+        category,
+        items: items.sort((a, b) =>
+          SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || a.title.localeCompare(b.title)
+        ),
+      }))
+      .sort((a, b) =>
+        SEVERITY_RANK[b.items[0].severity] - SEVERITY_RANK[a.items[0].severity] ||
+        b.items.length - a.items.length ||
+        a.category.localeCompare(b.category)
+      );
+
+    return {
+      title,
+      sections: ordered,
+      itemCount: this.practices.length,
+    };
+  }
+
+  /**
+   * Render a checklist as a markdown task list, JSON, or a GitHub pull
+   * request template
+   */
+  render(checklist: Checklist, format: ChecklistFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(checklist, null, 2);
+      case 'github':
+        return this.renderGitHub(checklist);
+      case 'markdown':
+        return this.renderMarkdown(checklist);
+    }
+  }
+
+  private renderMarkdown(checklist: Checklist): string {
+    const lines = [`# ${checklist.title}`, ''];
+
+    for (const section of checklist.sections) {
+      lines.push(`## ${CATEGORY_TITLES[section.category] || section.category}`, '');
+      for (const item of section.items) {
+        lines.push(`- [ ] **${item.title}** (${item.severity}) — \`${item.practiceId}\`${lintSuffix(item)}`);
+        if (item.summary) lines.push(`  ${item.summary}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Save as `.github/pull_request_template.md`; item details are kept in
+   * HTML comments so opened pull requests stay short
+   */
+  private renderGitHub(checklist: Checklist): string {
+    const lines = [
+      '## Description',
+      '',
+      '<!-- What does this change and why? -->',
+      '',
+      `## ${checklist.title}`,
+      '',
+      '<!-- Tick each item that holds, or explain below why it does not apply. -->',
+      '',
+    ];
+
+    for (const section of checklist.sections) {
+      lines.push(`### ${CATEGORY_TITLES[section.category] || section.category}`, '');
+      for (const item of section.items) {
+        const marker = item.severity === 'error' ? ' **(required)**' : '';
+        lines.push(`- [ ] ${item.title}${marker} <!-- ${commentText(item.practiceId + lintSuffix(item, ', lint: ', ''))} -->`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## Exceptions', '', '<!-- Items left unticked and why -->', '');
+    return lines.join('\n');
+  }
+}
+
+function lintSuffix(item: ChecklistItem, prefix = ' · lint: ', quote = '`'): string {
+  if (item.lintRules.length === 0) return '';
+  return prefix + item.lintRules.map(rule => `${quote}${rule}${quote}`).join(', ');
+}
+
+/**
+ * Text safe inside an HTML comment: `--` (as in `-->`) would end it early
+ */
+function commentText(text: string): string {
+  return text.replace(/-(?=-)/g, '- ');
+}
+
+function firstSentence(text: string): string | undefined {
+  const line = text.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+  if (!line) return undefined;
+  const match = /^(.+?[.!?])(\s|$)/.exec(line);
+  return match ? match[1] : line;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { practiceDoc } from '../sources/testing.js';
+import { CodeReviewer } from './CodeReviewer.js';
+
+const practices = [
+  practiceDoc({
+    id: 'no-any',
+    title: 'Avoid any',
+    severity: 'warning',
+    language: 'typescript',
+    lintRules: ['@typescript-eslint/no-explicit-any'],
+  }),
+  practiceDoc({
+    id: 'parameterized-queries',
+    title: 'Use parameterized queries',
+    category: 'security',
+    severity: 'error',
+    tags: ['sql-injection'],
+    badExample: 'db.query("SELECT * FROM users WHERE id = " + userId);',
+    goodExample: 'db.query("SELECT * FROM users WHERE id = $1", [userId]);',
+  }),
+  practiceDoc({
+    id: 'react-keys',
+    title: 'Give list items a key',
+    language: 'typescript',
+    framework: 'react',
+    lintRules: ['no-explicit-any'],
+  }),
+];
+
+describe('CodeReviewer', () => {
+  it('reports practice and document IDs with the lines that look like violations', () => {
+    const findings = new CodeReviewer(practices).review('const a = 1;\nfunction f(input: any) {}\n', {
+      language: 'typescript',
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      practiceId: 'no-any',
+      documentId: 'org:guide.yaml#no-any',
+      severity: 'warning',
+      lines: [{ start: 2, end: 2 }],
+      lintRules: ['@typescript-eslint/no-explicit-any'],
+    });
+  });
+
+  it('ranks language-agnostic practices matched by tag and bad example first', () => {
+    const code = 'const rows = await db.query("SELECT * FROM users WHERE id = " + userId);\nlet x: any;';
+    const findings = new CodeReviewer(practices).review(code, { language: 'typescript' });
+
+    expect(findings.map(f => f.practiceId)).toEqual(['parameterized-queries', 'no-any']);
+    expect(findings[0].reasons).toEqual([
+      'Matches the sql-injection heuristic',
+      expect.stringMatching(/^Resembles the practice's bad example/),
+    ]);
+    expect(findings[0].goodExample).toContain('$1');
+  });
+
+  it('skips practices for other languages and frameworks', () => {
+    const reviewer = new CodeReviewer(practices);
+
+    expect(reviewer.review('let x: any;', { language: 'python' })).toEqual([]);
+    expect(reviewer.review('let x: any;', { language: 'typescript', framework: 'react' }).map(f => f.practiceId).sort())
+      .toEqual(['no-any', 'react-keys']);
+  });
+
+  it('reviews only the added lines of a diff, numbered as in the new file', () => {
+    const diff = [
+      'diff --git a/src/user.ts b/src/user.ts',
+      '--- a/src/user.ts',
+      '+++ b/src/user.ts',
+      '@@ -10,2 +10,3 @@',
+      ' export function load(id: string) {',
+      '-  return cache.get(id) as any;',
+      '+  const value: any = cache.get(id);',
+      '+  return value;',
+    ].join('\n');
+
+    const findings = new CodeReviewer(practices).review(diff);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ practiceId: 'no-any', file: 'src/user.ts', lines: [{ start: 11, end: 11 }] });
+  });
+});
@@ -0,0 +1,220 @@
+import * as path from 'path';
+import type { Document } from '@xorng/template-knowledge';
+import type { PracticeSeverity, ReviewFinding } from '../types/index.js';
+import { isUnifiedDiff, parseUnifiedDiff, snippetToFile, type CodeFile, type CodeLine } from './diff.js';
+import { TAG_DETECTORS, detectorForLintRule } from './detectors.js';
+import { parsePracticeContent } from './practiceContent.js';
+
+/**
+ * Options for a code review
+ */
+export interface ReviewOptions {
+  language?: string;
+  framework?: string;
+  filename?: string;
+  minConfidence?: number;
+  limit?: number;
+}
+
+/**
+ * Evidence that a practice is violated on some lines
+ */
+interface Signal {
+  lines: number[];
+  weight: number;
+  reason: string;
+}
+
+const SEVERITY_WEIGHTS: Record<PracticeSeverity, number> = {
+  error: 1,
+  warning: 0.85,
+  suggestion: 0.7,
+  info: 0.5,
+};
+
+const LINT_SIGNAL_WEIGHT = 0.6;
+const TAG_SIGNAL_WEIGHT = 0.45;
+const MIN_EXAMPLE_SIMILARITY = 0.35;
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.cs': 'csharp',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.swift': 'swift',
+  '.kt': 'kotlin',
+};
+
+/**
+ * Checks a code snippet or unified diff against applicable practices.
+ *
+ * Practices are matched by language/framework metadata, then scored using
+ * heuristics for their lint rules and tags and the similarity of the code to
+ * their bad (and good) examples.
+ */
+export class CodeReviewer {
+  private practices: Document[];
+
+  constructor(practices: Document[]) {
+    this.practices = practices.filter(doc => doc.type === 'practice');
+  }
+
+  review(input: string, options: ReviewOptions = {}): ReviewFinding[] {
+    const files = isUnifiedDiff(input)
+      ? parseUnifiedDiff(input)
+      : [snippetToFile(input, options.filename)];
+
+    const findings: ReviewFinding[] = [];
+    for (const file of files) {
+      const language = options.language || this.languageForFile(file.file);
+      for (const practice of this.applicablePractices(language, options.framework)) {
+        const finding = this.checkPractice(practice, file);
+        if (finding && finding.confidence >= (options.minConfidence ?? 0.3)) {
+          findings.push(finding);
+        }
+      }
+    }
+
+    return findings
+      .sort((a, b) => this.rank(b) - this.rank(a))
+      .slice(0, options.limit || 20);
+  }
+
+  /**
+   * Practices for the language (or language-agnostic) and framework
+   */
+  private applicablePractices(language?: string, framework?: string): Document[] {
+    return this.practices.filter(doc => {
+      const docLanguage = doc.metadata.language as string | undefined;
+      if (language && docLanguage && docLanguage !== 'general' && docLanguage !== language) return false;
+      if (doc.metadata.framework && doc.metadata.framework !== framework) return false;
+      return true;
+    });
+  }
+
+  private checkPractice(practice: Document, file: CodeFile): ReviewFinding | null {
+    const signals: Signal[] = [];
+    const lintRules = (practice.metadata.lintRules as string[]) || [];
+    const tags = (practice.metadata.tags as string[]) || [];
+
+    for (const rule of lintRules) {
+      const detector = detectorForLintRule(rule);
+      const lines = detector ? this.matchLines(file.lines, detector) : [];
+      if (lines.length > 0) {
+        signals.push({ lines, weight: LINT_SIGNAL_WEIGHT, reason: `Looks like a ${rule} violation` });
+      }
+    }
+
+    for (const tag of tags) {
+      const detector = TAG_DETECTORS[tag];
+      const lines = detector ? this.matchLines(file.lines, detector) : [];
+      if (lines.length > 0) {
+        signals.push({ lines, weight: TAG_SIGNAL_WEIGHT, reason: `Matches the ${tag} heuristic` });
+      }
+    }
+
+    const { goodExample, badExample } = parsePracticeContent(practice.content);
+    if (badExample) {
+      const bad = this.bestWindow(file.lines, badExample);
+      const good = goodExample ? this.bestWindow(file.lines, goodExample) : null;
+      if (bad && bad.similarity >= MIN_EXAMPLE_SIMILARITY && bad.similarity > (good?.similarity ?? 0)) {
+        signals.push({
+          lines: bad.lines,
+          weight: bad.similarity,
+          reason: `Resembles the practice's bad example (${Math.round(bad.similarity * 100)}% similar)`,
+        });
+      }
+    }
+
+    if (signals.length === 0) return null;
+
+    // Independent signals: probability that at least one is right
+    const confidence = 1 - signals.reduce((p, s) => p * (1 - s.weight), 1);
+    const lines = [...new Set(signals.flatMap(s => s.lines))].sort((a, b) => a - b);
+
+    return {
+      practiceId: practice.metadata.practiceId as string,
+      documentId: practice.id,
+      title: practice.title || (practice.metadata.practiceId as string),
+      severity: (practice.metadata.severity as PracticeSeverity) || 'suggestion',
+      file: file.file,
+      lines: this.toRanges(lines),
+      confidence: Math.round(confidence * 100) / 100,
+      reasons: signals.map(s => s.reason),
+      lintRules,
+      goodExample,
+    };
+  }
+
+  private rank(finding: ReviewFinding): number {
+    return finding.confidence * SEVERITY_WEIGHTS[finding.severity];
+  }
+
+  private matchLines(lines: CodeLine[], detector: RegExp): number[] {
+    return lines.filter(l => detector.test(l.text)).map(l => l.line);
+  }
+
+  /**
+   * Window of code lines most similar to an example (Jaccard over tokens)
+   */
+  private bestWindow(lines: CodeLine[], example: string): { similarity: number; lines: number[] } | null {
+    const exampleLines = example.split('\n').filter(l => this.tokenize(l).length > 0);
+    const exampleTokens = new Set(this.tokenize(example));
+    const codeLines = lines.filter(l => this.tokenize(l.text).length > 0);
+    if (exampleTokens.size < 3 || codeLines.length === 0) return null;
+
+    const size = Math.min(exampleLines.length, codeLines.length);
+    let best: { similarity: number; lines: number[] } | null = null;
+
+    for (let start = 0; start + size <= codeLines.length; start++) {
+      const window = codeLines.slice(start, start + size);
+      const tokens = new Set(window.flatMap(l => this.tokenize(l.text)));
+      if (tokens.size < 3) continue;
+
+      let shared = 0;
+      for (const token of tokens) {
+        if (exampleTokens.has(token)) shared++;
+      }
+      const similarity = shared / (tokens.size + exampleTokens.size - shared);
+
+      if (!best || similarity > best.similarity) {
+        best = { similarity, lines: window.map(l => l.line) };
+      }
+    }
+
+    return best;
+  }
+
+  private tokenize(text: string): string[] {
+    const code = text.replace(/\/\/.*$/gm, '').toLowerCase();
+    return code.match(/[a-z_$][\w$]*|\d+|[^\s\w]{1,3}/g) || [];
+  }
+
+  private toRanges(lines: number[]): Array<{ start: number; end: number }> {
+    const ranges: Array<{ start: number; end: number }> = [];
+    for (const line of lines) {
+      const last = ranges[ranges.length - 1];
+      if (last && line === last.end + 1) {
+        last.end = line;
+      } else {
+        ranges.push({ start: line, end: line });
+      }
+    }
+    return ranges;
+  }
+
+  private languageForFile(file?: string): string | undefined {
+    return file ? EXTENSION_LANGUAGES[path.extname(file).toLowerCase()] : undefined;
+  }
+}
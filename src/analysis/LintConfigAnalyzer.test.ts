@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { practiceDoc } from '../sources/testing.js';
+import { LintConfigAnalyzer } from './LintConfigAnalyzer.js';
+
+const practices = [
+  practiceDoc({ id: 'no-any', severity: 'error', lintRules: ['@typescript-eslint/no-explicit-any'] }),
+  practiceDoc({ id: 'return-types', severity: 'warning', lintRules: ['@typescript-eslint/explicit-function-return-type'] }),
+  practiceDoc({ id: 'no-eval', severity: 'error', lintRules: ['no-eval'] }),
+  practiceDoc({ id: 'validate-input', severity: 'error', lintRules: [] }),
+];
+
+describe('LintConfigAnalyzer', () => {
+  it('reports enforced and unenforced practices by practice and document ID', () => {
+    const report = new LintConfigAnalyzer(practices).analyze({
+      rules: {
+        '@typescript-eslint/no-explicit-any': ['error'],
+        'no-eval': 'off',
+        'no-console': 1,
+      },
+    });
+
+    expect(report.format).toBe('eslintrc');
+    expect(report.enforced).toEqual([{
+      practiceId: 'no-any',
+      documentId: 'org:guide.yaml#no-any',
+      title: 'no-any',
+      severity: 'error',
+      rules: [{ rule: '@typescript-eslint/no-explicit-any', level: 'error', partial: false }],
+    }]);
+    expect(report.unenforcedErrors).toEqual([
+      { practiceId: 'no-eval', documentId: 'org:guide.yaml#no-eval', title: 'no-eval', lintRules: ['no-eval'], reason: 'rules-disabled' },
+      { practiceId: 'validate-input', documentId: 'org:guide.yaml#validate-input', title: 'validate-input', lintRules: [], reason: 'no-lint-rules' },
+    ]);
+    expect(report.undocumentedRules.map(r => r.rule)).toEqual(['no-console']);
+  });
+
+  it('lets file-scoped overrides enable, but not weaken, global settings', () => {
+    const { rules, unresolvedExtends } = new LintConfigAnalyzer(practices).resolve({
+      extends: ['eslint:recommended'],
+      rules: { 'no-eval': 'error', 'no-console': 'off' },
+      overrides: [{
+        files: ['*.ts'],
+        extends: 'plugin:@typescript-eslint/recommended',
+        rules: { 'no-eval': 'warn', 'no-console': 'warn' },
+      }],
+    });
+
+    expect(rules.get('no-eval')).toEqual({ rule: 'no-eval', level: 'error', partial: false });
+    expect(rules.get('no-console')).toEqual({ rule: 'no-console', level: 'warn', partial: true });
+    expect(unresolvedExtends).toEqual(['eslint:recommended', 'plugin:@typescript-eslint/recommended']);
+  });
+
+  it('reads flat config arrays', () => {
+    const report = new LintConfigAnalyzer(practices).analyze([
+      { rules: { '@typescript-eslint/explicit-function-return-type': 2 } },
+      [{ files: ['**/*.js'], rules: { 'no-eval': 'error' } }],
+    ]);
+
+    expect(report.format).toBe('flat');
+    expect(report.enforced.map(p => p.practiceId)).toEqual(['return-types', 'no-eval']);
+    expect(report.enforced[1].rules[0].partial).toBe(true);
+    expect(report.unenforcedErrors.map(p => p.practiceId)).toEqual(['no-any', 'validate-input']);
+  });
+});
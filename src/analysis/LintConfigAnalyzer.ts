@@ -0,0 +1,161 @@
+import type { Document } from '@xorng/template-knowledge';
+import type {
+  LintConfigReport,
+  LintRuleLevel,
+  PracticeSeverity,
+  ResolvedLintRule,
+} from '../types/index.js';
+import { LintRuleIndex, normalizeRuleId } from './lintRules.js';
+
+/**
+ * Rules resolved from an ESLint configuration
+ */
+export interface ResolvedLintConfig {
+  format: 'eslintrc' | 'flat';
+  rules: Map<string, ResolvedLintRule>;
+  unresolvedExtends: string[];
+}
+
+type RuleEntries = Record<string, unknown>;
+
+/**
+ * Compares an ESLint configuration with the loaded practices.
+ *
+ * Accepts legacy `.eslintrc` objects (including `overrides`), flat config
+ * arrays, and JSON printed from either (`eslint --print-config`). Shared
+ * configs named in `extends` cannot be resolved offline and are reported.
+ */
+export class LintConfigAnalyzer {
+  private practices: Document[];
+
+  constructor(practices: Document[]) {
+    this.practices = practices.filter(doc => doc.type === 'practice');
+  }
+
+  analyze(config: unknown): LintConfigReport {
+    const resolved = this.resolve(config);
+    const enabled = [...resolved.rules.values()].filter(r => r.level !== 'off');
+    const index = new LintRuleIndex(this.practices);
+
+    const enforced: LintConfigReport['enforced'] = [];
+    const unenforcedErrors: LintConfigReport['unenforcedErrors'] = [];
+
+    for (const doc of this.practices) {
+      const lintRules = (doc.metadata.lintRules as string[]) || [];
+      const rules = lintRules
+        .map(rule => resolved.rules.get(normalizeRuleId(rule)))
+        .filter((r): r is ResolvedLintRule => !!r && r.level !== 'off');
+
+      const summary = {
+        practiceId: doc.metadata.practiceId as string,
+        documentId: doc.id,
+        title: doc.title || (doc.metadata.practiceId as string),
+      };
+
+      if (rules.length > 0) {
+        enforced.push({
+          ...summary,
+          severity: doc.metadata.severity as PracticeSeverity,
+          rules,
+        });
+      } else if (doc.metadata.severity === 'error') {
+        unenforcedErrors.push({
+          ...summary,
+          lintRules,
+          reason: lintRules.length > 0 ? 'rules-disabled' : 'no-lint-rules',
+        });
+      }
+    }
+
+    return {
+      format: resolved.format,
+      enabledRules: enabled,
+      enforced,
+      unenforcedErrors,
+      undocumentedRules: enabled.filter(r => !index.has(r.rule)),
+      unresolvedExtends: resolved.unresolvedExtends,
+    };
+  }
+
+  /**
+   * Resolve which rules are on, and at what level
+   */
+  resolve(config: unknown): ResolvedLintConfig {
+    const rules = new Map<string, ResolvedLintRule>();
+    const unresolvedExtends: string[] = [];
+
+    const apply = (entries: unknown, partial: boolean): void => {
+      if (!entries || typeof entries !== 'object') return;
+
+      for (const [rule, value] of Object.entries(entries as RuleEntries)) {
+        const level = this.toLevel(value);
+        if (!level) continue;
+
+        const key = normalizeRuleId(rule);
+        const existing = rules.get(key);
+
+        // File-scoped settings refine, but don't replace, a global setting
+        if (partial && existing && !existing.partial) {
+          if (existing.level === 'off' && level !== 'off') {
+            rules.set(key, { rule, level, partial: true });
+          }
+          continue;
+        }
+
+        rules.set(key, { rule, level, partial });
+      }
+    };
+
+    if (Array.isArray(config)) {
+      for (const entry of config.flat(Infinity) as unknown[]) {
+        if (!entry || typeof entry !== 'object') continue;
+        const item = entry as { files?: unknown; rules?: unknown };
+        apply(item.rules, Array.isArray(item.files) && item.files.length > 0);
+      }
+      return { format: 'flat', rules, unresolvedExtends };
+    }
+
+    if (config && typeof config === 'object') {
+      const rc = config as { extends?: unknown; rules?: unknown; overrides?: unknown };
+      unresolvedExtends.push(...this.toList(rc.extends));
+      apply(rc.rules, false);
+
+      if (Array.isArray(rc.overrides)) {
+        for (const override of rc.overrides as Array<{ extends?: unknown; rules?: unknown }>) {
+          unresolvedExtends.push(...this.toList(override?.extends));
+          apply(override?.rules, true);
+        }
+      }
+    }
+
+    return { format: 'eslintrc', rules, unresolvedExtends: [...new Set(unresolvedExtends)] };
+  }
+
+  /**
+   * Normalise `0 | 1 | 2 | 'off' | 'warn' | 'error'`, optionally in an array
+   */
+  private toLevel(value: unknown): LintRuleLevel | null {
+    const raw = Array.isArray(value) ? value[0] : value;
+    switch (raw) {
+      case 0:
+      case '0':
+      case 'off':
+        return 'off';
+      case 1:
+      case '1':
+      case 'warn':
+        return 'warn';
+      case 2:
+      case '2':
+      case 'error':
+        return 'error';
+      default:
+        return null;
+    }
+  }
+
+  private toList(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { practiceDoc } from '../sources/testing.js';
+import { LintResultsExplainer } from './LintResultsExplainer.js';
+
+const practices = [
+  practiceDoc({
+    id: 'no-any',
+    title: 'Avoid any',
+    description: 'Use unknown or a precise type instead of any.',
+    severity: 'error',
+    rationale: 'any switches off type checking.',
+    goodExample: 'function parse(input: unknown): User {}',
+    lintRules: ['@typescript-eslint/no-explicit-any'],
+  }),
+];
+
+const eslintOutput = [
+  {
+    filePath: 'src/a.ts',
+    messages: [
+      { ruleId: '@typescript-eslint/no-explicit-any', severity: 2, message: 'Unexpected any.', line: 3, column: 10 },
+      { ruleId: 'no-console', severity: 1, message: 'Unexpected console statement.', line: 8 },
+      { ruleId: null, severity: 2, message: 'Parsing error' },
+    ],
+  },
+  {
+    filePath: 'src/b.ts',
+    messages: [{ ruleId: '@typescript-eslint/no-explicit-any', severity: 2, message: 'Unexpected any.', line: 1 }],
+  },
+];
+
+const sarifLog = {
+  version: '2.1.0',
+  runs: [{
+    tool: { driver: { name: 'ESLint', rules: [{ id: '@typescript-eslint/no-explicit-any' }] } },
+    results: [{
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'Unexpected any.' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/a.ts' }, region: { startLine: 3 } } }],
+    }],
+  }],
+};
+
+describe('LintResultsExplainer', () => {
+  it('groups ESLint findings by rule and explains them with practices', () => {
+    const report = new LintResultsExplainer(practices).explain(JSON.stringify(eslintOutput));
+
+    expect(report.format).toBe('eslint');
+    expect(report.totalFindings).toBe(3);
+    expect(report.rules).toEqual([
+      {
+        ruleId: '@typescript-eslint/no-explicit-any',
+        count: 2,
+        files: ['src/a.ts', 'src/b.ts'],
+        practiceIds: ['no-any'],
+        documentIds: ['org:guide.yaml#no-any'],
+      },
+      { ruleId: 'no-console', count: 1, files: ['src/a.ts'], practiceIds: [], documentIds: [] },
+    ]);
+    expect(report.unmatchedRules).toEqual(['no-console']);
+    expect(report.files[0].findings[0].practices).toEqual([{
+      practiceId: 'no-any',
+      documentId: 'org:guide.yaml#no-any',
+      title: 'Avoid any',
+      severity: 'error',
+      rationale: 'any switches off type checking.',
+      goodExample: 'function parse(input: unknown): User {}',
+    }]);
+  });
+
+  it('reads SARIF results that reference rules by index', () => {
+    const report = new LintResultsExplainer(practices).explain(sarifLog);
+
+    expect(report.format).toBe('sarif');
+    expect(report.files).toEqual([{
+      file: 'src/a.ts',
+      findings: [expect.objectContaining({ ruleId: '@typescript-eslint/no-explicit-any', level: 'error', line: 3 })],
+    }]);
+  });
+
+  it('fills SARIF rule help from practices without changing the input', () => {
+    const log = new LintResultsExplainer(practices).enrichSarif(sarifLog);
+    const rule = log.runs[0].tool.driver.rules![0];
+
+    expect(rule.shortDescription).toEqual({ text: 'Avoid any' });
+    expect(rule.help?.text).toContain('Avoid any (no-any)');
+    expect(rule.help?.markdown).toContain('**Why:** any switches off type checking.');
+    expect(rule.properties).toEqual({
+      practiceIds: ['no-any'],
+      documentIds: ['org:guide.yaml#no-any'],
+      'problem.severity': 'error',
+    });
+    expect(sarifLog.runs[0].tool.driver.rules[0]).toEqual({ id: '@typescript-eslint/no-explicit-any' });
+  });
+
+  it('converts ESLint output to SARIF with a descriptor per reported rule', () => {
+    const log = new LintResultsExplainer(practices).enrichSarif(eslintOutput);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].results).toHaveLength(3);
+    expect(log.runs[0].tool.driver.rules!.map(rule => rule.id)).toEqual([
+      '@typescript-eslint/no-explicit-any',
+      'no-console',
+    ]);
+  });
+
+  it('rejects input that is neither ESLint output nor SARIF', () => {
+    const explainer = new LintResultsExplainer(practices);
+
+    for (const input of [{ results: [] }, 42, [1, 2]]) {
+      expect(() => explainer.explain(input)).toThrow(/Unrecognised lint results/);
+      expect(() => explainer.enrichSarif(input)).toThrow(/Unrecognised lint results/);
+    }
+  });
+});
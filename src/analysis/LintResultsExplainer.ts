@@ -0,0 +1,300 @@
+import type { Document } from '@xorng/template-knowledge';
+import type {
+  LintFileExplanation,
+  LintFinding,
+  LintResultsReport,
+  PracticeSeverity,
+} from '../types/index.js';
+import { LintRuleIndex } from './lintRules.js';
+import { parsePracticeContent } from './practiceContent.js';
+
+/**
+ * Minimal SARIF 2.1 shapes used when reading and enriching logs
+ */
+interface SarifRule {
+  id: string;
+  shortDescription?: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string; markdown?: string };
+  properties?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string; index?: number };
+  level?: string;
+  message?: { text?: string };
+  locations?: Array<{
+    physicalLocation?: {
+      artifactLocation?: { uri?: string };
+      region?: { startLine?: number; startColumn?: number; endLine?: number };
+    };
+  }>;
+  [key: string]: unknown;
+}
+
+interface SarifRun {
+  tool: { driver: { name: string; rules?: SarifRule[]; [key: string]: unknown } };
+  results?: SarifResult[];
+  [key: string]: unknown;
+}
+
+export interface SarifLog {
+  version: string;
+  $schema?: string;
+  runs: SarifRun[];
+  [key: string]: unknown;
+}
+
+interface EslintFileResult {
+  filePath: string;
+  messages: Array<{
+    ruleId: string | null;
+    severity: number;
+    message: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+  }>;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Explains ESLint JSON formatter output and SARIF 2.1 logs using practices.
+ *
+ * Findings are grouped by rule and joined against the practices whose
+ * `lintRules` list the rule exactly.
+ */
+export class LintResultsExplainer {
+  private index: LintRuleIndex;
+
+  constructor(practices: Document[]) {
+    this.index = new LintRuleIndex(practices);
+  }
+
+  /**
+   * Group findings by rule and explain each file's findings
+   */
+  explain(input: unknown): LintResultsReport {
+    const { format, findings } = this.parse(input);
+
+    const byRule = new Map<string, LintFinding[]>();
+    const byFile = new Map<string, LintFileExplanation>();
+
+    for (const finding of findings) {
+      const list = byRule.get(finding.ruleId) || [];
+      list.push(finding);
+      byRule.set(finding.ruleId, list);
+
+      const file = byFile.get(finding.file) || { file: finding.file, findings: [] };
+      file.findings.push({
+        ...finding,
+        practices: this.index.practicesFor(finding.ruleId).map(doc => this.explainPractice(doc)),
+      });
+      byFile.set(finding.file, file);
+    }
+
+    const rules = [...byRule.entries()]
+      .map(([ruleId, list]) => ({
+        ruleId,
+        count: list.length,
+        files: [...new Set(list.map(f => f.file))],
+        practiceIds: this.index.practicesFor(ruleId).map(doc => doc.metadata.practiceId as string),
+        documentIds: this.index.practicesFor(ruleId).map(doc => doc.id),
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    return {
+      format,
+      totalFindings: findings.length,
+      rules,
+      unmatchedRules: rules.filter(r => r.practiceIds.length === 0).map(r => r.ruleId),
+      files: [...byFile.values()],
+    };
+  }
+
+  /**
+   * Return a SARIF log whose rule `help` text comes from the matching practices.
+   * ESLint output is converted to SARIF first.
+   */
+  enrichSarif(input: unknown): SarifLog {
+    const data = this.toJson(input);
+    const log: SarifLog = this.isSarif(data)
+      ? structuredClone(data)
+      : this.eslintToSarif(this.eslintResults(data));
+
+    for (const run of log.runs) {
+      const rules = run.tool.driver.rules || [];
+      const known = new Set(rules.map(r => r.id));
+
+      // Make sure every reported rule has a descriptor to carry the help text
+      for (const result of run.results || []) {
+        const ruleId = this.sarifRuleId(result, run);
+        if (ruleId && !known.has(ruleId)) {
+          rules.push({ id: ruleId });
+          known.add(ruleId);
+        }
+      }
+
+      for (const rule of rules) {
+        const practices = this.index.practicesFor(rule.id);
+        if (practices.length === 0) continue;
+
+        const primary = practices[0];
+        const { description } = parsePracticeContent(primary.content);
+        rule.shortDescription ??= { text: primary.title || rule.id };
+        rule.fullDescription ??= { text: description };
+        rule.help = {
+          text: practices.map(doc => this.helpText(doc)).join('\n\n'),
+          markdown: practices.map(doc => this.helpMarkdown(doc)).join('\n\n---\n\n'),
+        };
+        rule.properties = {
+          ...rule.properties,
+          practiceIds: practices.map(doc => doc.metadata.practiceId as string),
+          documentIds: practices.map(doc => doc.id),
+          'problem.severity': this.sarifLevel(primary.metadata.severity as PracticeSeverity),
+        };
+      }
+
+      run.tool.driver.rules = rules;
+    }
+
+    return log;
+  }
+
+  /**
+   * Normalise ESLint or SARIF input into findings
+   */
+  parse(input: unknown): { format: 'eslint' | 'sarif'; findings: LintFinding[] } {
+    const data = this.toJson(input);
+
+    if (this.isSarif(data)) {
+      const findings: LintFinding[] = [];
+      for (const run of data.runs) {
+        for (const result of run.results || []) {
+          const ruleId = this.sarifRuleId(result, run);
+          if (!ruleId) continue;
+
+          const location = result.locations?.[0]?.physicalLocation;
+          findings.push({
+            ruleId,
+            level: result.level === 'error' || result.level === 'note' ? result.level : 'warning',
+            message: result.message?.text || '',
+            file: location?.artifactLocation?.uri || '(unknown)',
+            line: location?.region?.startLine,
+            column: location?.region?.startColumn,
+            endLine: location?.region?.endLine,
+          });
+        }
+      }
+      return { format: 'sarif', findings };
+    }
+
+    const findings: LintFinding[] = [];
+    for (const file of this.eslintResults(data)) {
+      for (const message of file.messages || []) {
+        // Messages without a rule are parse errors
+        if (!message.ruleId) continue;
+        findings.push({
+          ruleId: message.ruleId,
+          level: message.severity === 2 ? 'error' : 'warning',
+          message: message.message,
+          file: file.filePath,
+          line: message.line,
+          column: message.column,
+          endLine: message.endLine,
+        });
+      }
+    }
+    return { format: 'eslint', findings };
+  }
+
+  /**
+   * ESLint JSON formatter output: an array of file results
+   */
+  private eslintResults(data: unknown): EslintFileResult[] {
+    if (!Array.isArray(data) || !data.every(file => file && typeof file === 'object' && 'filePath' in file)) {
+      throw new Error('Unrecognised lint results: expected ESLint JSON output or a SARIF 2.1 log');
+    }
+    return data as EslintFileResult[];
+  }
+
+  private explainPractice(doc: Document): LintFileExplanation['findings'][number]['practices'][number] {
+    const { rationale, goodExample } = parsePracticeContent(doc.content);
+    return {
+      practiceId: doc.metadata.practiceId as string,
+      documentId: doc.id,
+      title: doc.title || (doc.metadata.practiceId as string),
+      severity: doc.metadata.severity as PracticeSeverity,
+      rationale,
+      goodExample,
+    };
+  }
+
+  private helpText(doc: Document): string {
+    const { description, rationale, goodExample } = parsePracticeContent(doc.content);
+    const parts = [`${doc.title} (${doc.metadata.practiceId})`, description];
+    if (rationale) parts.push(`Why: ${rationale}`);
+    if (goodExample) parts.push(`Example:\n${goodExample}`);
+    return parts.join('\n\n');
+  }
+
+  private helpMarkdown(doc: Document): string {
+    const { description, rationale, goodExample } = parsePracticeContent(doc.content);
+    const parts = [`**${doc.title}** (\`${doc.metadata.practiceId}\`)`, description];
+    if (rationale) parts.push(`**Why:** ${rationale}`);
+    if (goodExample) parts.push('**Do this instead:**', '```', goodExample, '```');
+    return parts.join('\n\n');
+  }
+
+  private eslintToSarif(results: EslintFileResult[]): SarifLog {
+    const sarifResults: SarifResult[] = [];
+    for (const file of results) {
+      for (const message of file.messages || []) {
+        if (!message.ruleId) continue;
+        sarifResults.push({
+          ruleId: message.ruleId,
+          level: message.severity === 2 ? 'error' : 'warning',
+          message: { text: message.message },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: file.filePath },
+              region: { startLine: message.line, startColumn: message.column, endLine: message.endLine },
+            },
+          }],
+        });
+      }
+    }
+
+    return {
+      version: '2.1.0',
+      $schema: SARIF_SCHEMA,
+      runs: [{ tool: { driver: { name: 'ESLint', rules: [] } }, results: sarifResults }],
+    };
+  }
+
+  private sarifRuleId(result: SarifResult, run: SarifRun): string | undefined {
+    const index = result.ruleIndex ?? result.rule?.index;
+    return result.ruleId
+      || result.rule?.id
+      || (index !== undefined ? run.tool.driver.rules?.[index]?.id : undefined);
+  }
+
+  private sarifLevel(severity: PracticeSeverity): string {
+    if (severity === 'error') return 'error';
+    if (severity === 'warning') return 'warning';
+    return 'recommendation';
+  }
+
+  private isSarif(data: unknown): data is SarifLog {
+    return !!data && typeof data === 'object' && !Array.isArray(data)
+      && Array.isArray((data as { runs?: unknown }).runs);
+  }
+
+  private toJson(input: unknown): unknown {
+    return typeof input === 'string' ? JSON.parse(input) : input;
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { practiceDoc } from '../sources/testing.js';
+import { PracticeOverlapAnalyzer } from './PracticeOverlapAnalyzer.js';
+
+const practices = [
+  practiceDoc({
+    id: 'commit-lockfiles',
+    category: 'dependency-management',
+    title: 'Commit dependency lockfiles',
+    description: 'Commit the package lockfile so installs are reproducible across machines.',
+    severity: 'error',
+    tags: ['supply-chain', 'lockfile'],
+    goodExample: 'npm ci',
+  }, { source: 'security' }),
+  practiceDoc({
+    id: 'use-lockfiles',
+    category: 'dependency-management',
+    title: 'Use dependency lockfiles',
+    description: 'Keep the lockfile committed so every install is reproducible.',
+    severity: 'warning',
+    tags: ['lockfile'],
+  }, { source: 'supply-chain' }),
+  practiceDoc({
+    id: 'no-eval',
+    title: 'Never evaluate strings as code',
+    description: 'eval runs attacker-controlled input.',
+    category: 'security',
+    severity: 'error',
+    lintRules: ['no-eval'],
+  }, { source: 'security' }),
+  practiceDoc({
+    id: 'avoid-dynamic-code',
+    title: 'Avoid dynamic code in workflow scripts',
+    description: 'Scripts in workflows should not build code from event payloads.',
+    category: 'security',
+    severity: 'suggestion',
+    lintRules: ['No-Eval'],
+  }, { source: 'github' }),
+  practiceDoc({
+    id: 'pin-actions',
+    title: 'Pin actions to a commit SHA',
+    description: 'Tags can be moved; reference third-party actions by full commit SHA.',
+    category: 'security',
+    severity: 'error',
+  }, { source: 'security' }),
+];
+
+describe('PracticeOverlapAnalyzer', () => {
+  it('finds near-duplicates across sources and flags their severity conflict', () => {
+    const report = new PracticeOverlapAnalyzer(practices).analyze({ minSimilarity: 0.4 });
+
+    expect(report.totalPractices).toBe(5);
+    expect(report.duplicates.map(d => d.practices.map(p => p.practiceId))).toEqual([
+      ['commit-lockfiles', 'use-lockfiles'],
+    ]);
+    expect(report.duplicates[0]).toMatchObject({
+      sharedTags: ['lockfile'],
+      sharedLintRules: [],
+      severityConflict: true,
+    });
+    expect(report.duplicates[0].reasons).toContain('Shared tags: lockfile');
+    expect(report.severityConflicts).toContainEqual({
+      kind: 'duplicate',
+      topic: 'Commit dependency lockfiles / Use dependency lockfiles',
+      practices: report.duplicates[0].practices,
+    });
+  });
+
+  it('reports lint rules enforced with different severities', () => {
+    const report = new PracticeOverlapAnalyzer(practices).analyze({ minSimilarity: 0.9 });
+
+    expect(report.severityConflicts).toEqual([{
+      kind: 'lint-rule',
+      topic: 'no-eval',
+      practices: [
+        expect.objectContaining({ practiceId: 'no-eval', severity: 'error' }),
+        expect.objectContaining({ practiceId: 'avoid-dynamic-code', severity: 'suggestion' }),
+      ],
+    }]);
+  });
+
+  it('suggests merging into the most complete practice at the strictest severity', () => {
+    const { suggestedMerges } = new PracticeOverlapAnalyzer(practices).analyze({ minSimilarity: 0.4 });
+
+    expect(suggestedMerges).toEqual([{
+      keep: expect.objectContaining({ practiceId: 'commit-lockfiles' }),
+      merge: [expect.objectContaining({ practiceId: 'use-lockfiles' })],
+      severity: 'error',
+      lintRules: [],
+      tags: ['supply-chain', 'lockfile'],
+      aliases: ['use-lockfiles'],
+    }]);
+  });
+
+  it('skips pairs from the same source unless asked', () => {
+    const sameSource = [practices[0], { ...practices[1], id: 'security:other.yaml#use-lockfiles', metadata: { ...practices[1].metadata, source: 'security' } }];
+
+    expect(new PracticeOverlapAnalyzer(sameSource).analyze({ minSimilarity: 0.4 }).duplicates).toEqual([]);
+    expect(new PracticeOverlapAnalyzer(sameSource).analyze({ minSimilarity: 0.4, includeSameSource: true }).duplicates)
+      .toHaveLength(1);
+  });
+});
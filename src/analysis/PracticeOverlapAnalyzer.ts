@@ -0,0 +1,284 @@
+import type { Document } from '@xorng/template-knowledge';
+import {
+  SEVERITY_RANK,
+  type PracticeOverlapReport,
+  type PracticeSeverity,
+  type PracticeSummary,
+} from '../types/index.js';
+import { LintRuleIndex, normalizeRuleId } from './lintRules.js';
+import { parsePracticeContent } from './practiceContent.js';
+
+/**
+ * Options for an overlap analysis
+ */
+export interface OverlapOptions {
+  /** Pairs scoring below this are not reported (0-1) */
+  minSimilarity?: number;
+  /** Also compare practices from the same source */
+  includeSameSource?: boolean;
+}
+
+const DEFAULT_MIN_SIMILARITY = 0.25;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'are', 'use', 'using',
+  'all', 'any', 'not', 'into', 'your', 'you', 'can', 'should', 'must', 'when',
+  'have', 'has', 'will', 'only', 'before', 'after', 'them', 'their', 'they',
+  'each', 'more', 'than', 'also', 'which', 'such', 'other', 'its', 'may',
+]);
+
+/**
+ * Tokens of a practice used for similarity
+ */
+interface Profile {
+  doc: Document;
+  summary: PracticeSummary;
+  title: Set<string>;
+  /** TF-IDF weights of title, description and rationale stems */
+  text: Map<string, number>;
+  lintRules: Set<string>;
+  tags: Set<string>;
+}
+
+/**
+ * Finds near-duplicate practices and conflicting severities across sources.
+ *
+ * Pairs are scored by title similarity (Jaccard over word stems), description
+ * similarity (TF-IDF cosine), shared lint rules and shared tags. Practices
+ * enforcing the same lint rule with different severities are reported as
+ * conflicts, and clusters of duplicates become merge suggestions that keep the
+ * most complete practice.
+ */
+export class PracticeOverlapAnalyzer {
+  private practices: Document[];
+
+  constructor(practices: Document[]) {
+    this.practices = practices.filter(doc => doc.type === 'practice');
+  }
+
+  analyze(options: OverlapOptions = {}): PracticeOverlapReport {
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    const terms = this.practices.map(doc => this.terms(doc));
+    const documentFrequency = new Map<string, number>();
+    for (const { text } of terms) {
+      for (const stem of new Set(text)) documentFrequency.set(stem, (documentFrequency.get(stem) || 0) + 1);
+    }
+    const profiles = this.practices.map((doc, i) => this.profile(doc, terms[i], documentFrequency));
+
+    const duplicates: PracticeOverlapReport['duplicates'] = [];
+    for (let i = 0; i < profiles.length; i++) {
+      for (let j = i + 1; j < profiles.length; j++) {
+        const a = profiles[i];
+        const b = profiles[j];
+        if (!options.includeSameSource && a.summary.source === b.summary.source) continue;
+
+        const duplicate = this.compare(a, b);
+        if (duplicate.similarity >= minSimilarity) duplicates.push(duplicate);
+      }
+    }
+    duplicates.sort((a, b) => b.similarity - a.similarity);
+
+    return {
+      totalPractices: profiles.length,
+      duplicates,
+      severityConflicts: [
+        ...this.lintRuleConflicts(profiles),
+        ...duplicates
+          .filter(d => d.severityConflict)
+          .map(d => ({
+            kind: 'duplicate' as const,
+            topic: d.practices.map(p => p.title).join(' / '),
+            practices: d.practices,
+          })),
+      ],
+      suggestedMerges: this.suggestMerges(profiles, duplicates),
+    };
+  }
+
+  private compare(a: Profile, b: Profile): PracticeOverlapReport['duplicates'][number] {
+    const titleSimilarity = jaccard(a.title, b.title);
+    const textSimilarity = cosine(a.text, b.text);
+    const sharedLintRules = [...a.lintRules].filter(r => b.lintRules.has(r));
+    const sharedTags = [...a.tags].filter(t => b.tags.has(t));
+
+    const text = (titleSimilarity + textSimilarity) / 2;
+    const tags = jaccard(a.tags, b.tags);
+    let similarity: number;
+    if (a.lintRules.size > 0 && b.lintRules.size > 0) {
+      const lint = sharedLintRules.length / Math.min(a.lintRules.size, b.lintRules.size);
+      similarity = 0.6 * text + 0.3 * lint + 0.1 * tags;
+    } else {
+      similarity = 0.85 * text + 0.15 * tags;
+    }
+
+    const reasons: string[] = [];
+    if (titleSimilarity >= 0.3) reasons.push(`Similar titles (${percent(titleSimilarity)})`);
+    if (textSimilarity >= 0.3) reasons.push(`Similar descriptions (${percent(textSimilarity)})`);
+    if (sharedLintRules.length > 0) reasons.push(`Shared lint rules: ${sharedLintRules.join(', ')}`);
+    if (sharedTags.length > 0) reasons.push(`Shared tags: ${sharedTags.join(', ')}`);
+
+    return {
+      practices: [a.summary, b.summary],
+      similarity: Math.round(similarity * 100) / 100,
+      reasons,
+      sharedLintRules,
+      sharedTags,
+      severityConflict: a.summary.severity !== b.summary.severity,
+    };
+  }
+
+  /**
+   * Lint rules listed by practices of different severities
+   */
+  private lintRuleConflicts(profiles: Profile[]): PracticeOverlapReport['severityConflicts'] {
+    const index = new LintRuleIndex(profiles.map(p => p.doc));
+    const byDocument = new Map(profiles.map(p => [p.doc.id, p.summary]));
+    const conflicts: PracticeOverlapReport['severityConflicts'] = [];
+    const seen = new Set<string>();
+
+    for (const profile of profiles) {
+      for (const rule of profile.lintRules) {
+        if (seen.has(rule)) continue;
+        seen.add(rule);
+
+        const practices = index.practicesFor(rule).map(doc => byDocument.get(doc.id)!);
+        if (new Set(practices.map(p => p.severity)).size > 1) {
+          conflicts.push({ kind: 'lint-rule', topic: rule, practices });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * One merge per cluster of duplicates, keeping the most complete practice
+   */
+  private suggestMerges(
+    profiles: Profile[],
+    duplicates: PracticeOverlapReport['duplicates']
+  ): PracticeOverlapReport['suggestedMerges'] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const next = parent.get(id);
+      if (!next || next === id) return id;
+      const root = find(next);
+      parent.set(id, root);
+      return root;
+    };
+    for (const { practices: [a, b] } of duplicates) {
+      if (!parent.has(a.documentId)) parent.set(a.documentId, a.documentId);
+      if (!parent.has(b.documentId)) parent.set(b.documentId, b.documentId);
+      parent.set(find(a.documentId), find(b.documentId));
+    }
+
+    const clusters = new Map<string, Profile[]>();
+    for (const profile of profiles) {
+      if (!parent.has(profile.doc.id)) continue;
+      const root = find(profile.doc.id);
+      clusters.set(root, [...(clusters.get(root) || []), profile]);
+    }
+
+    return [...clusters.values()]
+      .filter(cluster => cluster.length > 1)
+      .map(cluster => {
+        const [keep, ...merge] = [...cluster].sort((a, b) => this.completeness(b) - this.completeness(a));
+        const severity = cluster
+          .map(p => p.summary.severity)
+          .reduce((a, b) => (SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a));
+
+        return {
+          keep: keep.summary,
+          merge: merge.map(p => p.summary),
+          severity,
+          lintRules: unique(cluster.flatMap(p => (p.doc.metadata.lintRules as string[]) || [])),
+          tags: unique(cluster.flatMap(p => (p.doc.metadata.tags as string[]) || [])),
+          aliases: unique(merge.map(p => p.summary.practiceId)).filter(id => id !== keep.summary.practiceId),
+        };
+      });
+  }
+
+  /**
+   * How much guidance a practice carries; the fullest one is kept on merge
+   */
+  private completeness(profile: Profile): number {
+    const meta = profile.doc.metadata;
+    return (meta.hasGoodExample ? 2 : 0)
+      + (meta.hasBadExample ? 2 : 0)
+      + profile.lintRules.size
+      + SEVERITY_RANK[profile.summary.severity]
+      + profile.text.size / 100;
+  }
+
+  private terms(doc: Document): { title: string[]; text: string[] } {
+    const title = doc.title || (doc.metadata.practiceId as string);
+    const { description, rationale } = parsePracticeContent(doc.content);
+    return { title: stems(title), text: stems(`${title} ${description} ${rationale || ''}`) };
+  }
+
+  private profile(
+    doc: Document,
+    terms: { title: string[]; text: string[] },
+    documentFrequency: Map<string, number>
+  ): Profile {
+    const title = doc.title || (doc.metadata.practiceId as string);
+    const text = new Map<string, number>();
+    for (const stem of terms.text) text.set(stem, (text.get(stem) || 0) + 1);
+    for (const [stem, count] of text) {
+      text.set(stem, count * Math.log(1 + this.practices.length / documentFrequency.get(stem)!));
+    }
+
+    return {
+      doc,
+      summary: {
+        practiceId: doc.metadata.practiceId as string,
+        documentId: doc.id,
+        title,
+        source: doc.metadata.source as string,
+        severity: (doc.metadata.severity as PracticeSeverity) || 'suggestion',
+      },
+      title: new Set(terms.title),
+      text,
+      lintRules: new Set(((doc.metadata.lintRules as string[]) || []).map(normalizeRuleId)),
+      tags: new Set(((doc.metadata.tags as string[]) || []).map(t => t.toLowerCase())),
+    };
+  }
+}
+
+/**
+ * Lower-cased words without stop words, with plural and verb endings trimmed
+ */
+function stems(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9-]+/g) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => word.replace(/ies$/, 'y').replace(/(ing|ed|es|s)$/, '') || word);
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    dot += weight * (b.get(term) || 0);
+  }
+  for (const weight of b.values()) normB += weight * weight;
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)];
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
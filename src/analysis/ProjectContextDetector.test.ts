@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ProjectContext } from '../types/index.js';
+import { practiceDoc } from '../sources/testing.js';
+import { ProjectContextDetector, practiceApplicability } from './ProjectContextDetector.js';
+
+describe('ProjectContextDetector', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'project-context-'));
+    const write = async (file: string, content: string) => {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), content, 'utf-8');
+    };
+
+    await write('package.json', JSON.stringify({
+      dependencies: { react: '^18.0.0', next: '^14.0.0' },
+      devDependencies: { typescript: '^5.0.0', vitest: '^1.0.0' },
+    }));
+    await write('package-lock.json', '{}');
+    await write('pyproject.toml', '[tool.poetry.dependencies]\npython = "^3.11"\nfastapi = "^0.110"\nflask-cors = "^4"\n');
+    await write('Dockerfile', 'FROM node:20\n');
+    await write('.github/workflows/ci.yml', 'on: push\n');
+    await write('.github/dependabot.yml', 'version: 2\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('reads languages, frameworks and tooling from manifests', async () => {
+    const context = await new ProjectContextDetector().detect(root);
+
+    expect(context.root).toBe(root);
+    expect(context.languages).toEqual(['javascript', 'typescript', 'python']);
+    expect(context.frameworks).toEqual(['react', 'nextjs', 'fastapi']);
+    expect(context.tooling).toEqual(['npm', 'vitest', 'docker', 'github', 'github-actions', 'dependabot']);
+    expect(context.evidence).toContainEqual({ file: 'pyproject.toml', detected: ['python', 'fastapi'] });
+    expect(context.evidence).toContainEqual({ file: 'package-lock.json', detected: ['npm'] });
+  });
+
+  it('does not match dependency names that only share a prefix', async () => {
+    const context = await new ProjectContextDetector().detect(root);
+
+    expect(context.frameworks).not.toContain('flask');
+  });
+
+  it('rejects paths that are not directories', async () => {
+    await expect(new ProjectContextDetector().detect(path.join(root, 'package.json'))).rejects.toThrow(/Not a directory/);
+  });
+});
+
+describe('practiceApplicability', () => {
+  const context: ProjectContext = {
+    root: '/project',
+    languages: ['typescript'],
+    frameworks: ['nextjs'],
+    tooling: ['github', 'github-actions'],
+    evidence: [],
+  };
+
+  it('explains why a practice applies', () => {
+    expect(practiceApplicability(practiceDoc({ id: 'a', language: 'typescript', framework: 'Next.js' }), context))
+      .toEqual(['language: typescript', 'framework: nextjs']);
+    expect(practiceApplicability(practiceDoc({ id: 'b', appliesTo: ['docker', 'github'], tags: ['github-actions'] }), context))
+      .toEqual(['uses github', 'uses github-actions']);
+    expect(practiceApplicability(practiceDoc({ id: 'c', language: 'general' }), context)).toEqual(['language-agnostic']);
+  });
+
+  it('leaves out practices for other languages, frameworks or tooling', () => {
+    expect(practiceApplicability(practiceDoc({ id: 'a', language: 'python' }), context)).toBeNull();
+    expect(practiceApplicability(practiceDoc({ id: 'b', framework: 'django' }), context)).toBeNull();
+    expect(practiceApplicability(practiceDoc({ id: 'c', appliesTo: ['docker'] }), context)).toBeNull();
+    expect(practiceApplicability(practiceDoc({ id: 'd', tags: ['containers'] }), context)).toBeNull();
+  });
+});
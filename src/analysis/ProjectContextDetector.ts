@@ -0,0 +1,236 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Document } from '@xorng/template-knowledge';
+import type { ProjectContext } from '../types/index.js';
+
+/**
+ * npm packages that identify a framework, or tooling when prefixed with `tool:`
+ */
+const NPM_MARKERS: Record<string, string> = {
+  react: 'react',
+  next: 'nextjs',
+  vue: 'vue',
+  nuxt: 'nuxt',
+  '@angular/core': 'angular',
+  svelte: 'svelte',
+  express: 'express',
+  '@nestjs/core': 'nestjs',
+  fastify: 'fastify',
+  koa: 'koa',
+  electron: 'electron',
+  'react-native': 'react-native',
+  eslint: 'tool:eslint',
+  prettier: 'tool:prettier',
+  jest: 'tool:jest',
+  vitest: 'tool:vitest',
+  mocha: 'tool:mocha',
+};
+
+const PYTHON_MARKERS: Record<string, string> = {
+  django: 'django',
+  flask: 'flask',
+  fastapi: 'fastapi',
+  pytest: 'tool:pytest',
+  ruff: 'tool:ruff',
+  poetry: 'tool:poetry',
+};
+
+const GO_MARKERS: Record<string, string> = {
+  'github.com/gin-gonic/gin': 'gin',
+  'github.com/labstack/echo': 'echo',
+  'github.com/gofiber/fiber': 'fiber',
+};
+
+const RUST_MARKERS: Record<string, string> = {
+  'actix-web': 'actix-web',
+  axum: 'axum',
+  rocket: 'rocket',
+};
+
+const LOCKFILES: Record<string, string> = {
+  'package-lock.json': 'npm',
+  'yarn.lock': 'yarn',
+  'pnpm-lock.yaml': 'pnpm',
+  'poetry.lock': 'poetry',
+  'Cargo.lock': 'cargo',
+  'go.sum': 'go-modules',
+};
+
+/**
+ * Practice tags that only make sense when the project uses the tooling
+ */
+const TOOLING_TAGS: Record<string, string> = {
+  docker: 'docker',
+  containers: 'docker',
+  'github-actions': 'github-actions',
+};
+
+/**
+ * Infers a project's languages, frameworks and tooling from its manifests.
+ *
+ * Reads package.json, tsconfig.json, pyproject.toml / requirements.txt,
+ * go.mod, Cargo.toml, Dockerfiles and the `.github` directory at the project
+ * root. Manifests are matched by dependency names, not executed or resolved.
+ */
+export class ProjectContextDetector {
+  private root = '';
+  private context: ProjectContext = ProjectContextDetector.emptyContext('');
+
+  async detect(root: string): Promise<ProjectContext> {
+    this.root = path.resolve(root);
+    this.context = ProjectContextDetector.emptyContext(this.root);
+
+    const stat = await fs.stat(this.root).catch(() => undefined);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Not a directory: ${root}`);
+    }
+
+    await this.detectNode();
+    await this.detectPython();
+    await this.detectManifest('go.mod', 'go', GO_MARKERS);
+    await this.detectManifest('Cargo.toml', 'rust', RUST_MARKERS);
+    await this.detectDocker();
+    await this.detectGitHub();
+
+    for (const [file, tool] of Object.entries(LOCKFILES)) {
+      if (await this.exists(file)) this.record(file, [`tool:${tool}`]);
+    }
+
+    return this.context;
+  }
+
+  private async detectNode(): Promise<void> {
+    const content = await this.read('package.json');
+    if (content !== undefined) {
+      const found = ['lang:javascript', 'tool:npm'];
+      try {
+        const pkg = JSON.parse(content) as Record<string, Record<string, string> | undefined>;
+        const dependencies = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies };
+        if ('typescript' in dependencies) found.push('lang:typescript');
+        for (const [name, marker] of Object.entries(NPM_MARKERS)) {
+          if (name in dependencies) found.push(marker);
+        }
+      } catch {
+        // Unparseable package.json still marks a JavaScript project
+      }
+      this.record('package.json', found);
+    }
+
+    if (await this.exists('tsconfig.json')) {
+      this.record('tsconfig.json', ['lang:typescript']);
+    }
+  }
+
+  private async detectPython(): Promise<void> {
+    for (const file of ['pyproject.toml', 'requirements.txt', 'setup.py', 'Pipfile']) {
+      await this.detectManifest(file, 'python', PYTHON_MARKERS);
+    }
+  }
+
+  /**
+   * A manifest marks its language; dependency names in it mark frameworks
+   */
+  private async detectManifest(file: string, language: string, markers: Record<string, string>): Promise<void> {
+    const content = await this.read(file);
+    if (content === undefined) return;
+
+    const found = [`lang:${language}`];
+    for (const [name, marker] of Object.entries(markers)) {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      if (new RegExp(`(^|[\\s"'\\[=])${escaped}([\\s"'\\]=<>~!@,;/]|$)`, 'im').test(content)) {
+        found.push(marker);
+      }
+    }
+    this.record(file, found);
+  }
+
+  private async detectDocker(): Promise<void> {
+    for (const file of ['Dockerfile', 'docker-compose.yml', 'docker-compose.yaml', 'compose.yaml', 'compose.yml']) {
+      if (await this.exists(file)) this.record(file, ['tool:docker']);
+    }
+  }
+
+  private async detectGitHub(): Promise<void> {
+    if (!(await this.exists('.github'))) return;
+    this.record('.github', ['tool:github']);
+
+    const workflows = await fs.readdir(path.join(this.root, '.github', 'workflows')).catch(() => []);
+    if (workflows.some(name => /\.ya?ml$/.test(name))) {
+      this.record('.github/workflows', ['tool:github-actions']);
+    }
+    for (const file of ['.github/dependabot.yml', '.github/dependabot.yaml']) {
+      if (await this.exists(file)) this.record(file, ['tool:dependabot']);
+    }
+  }
+
+  /**
+   * Add `lang:`, `tool:` or framework markers found in a file
+   */
+  private record(file: string, markers: string[]): void {
+    const detected: string[] = [];
+    for (const marker of markers) {
+      const [list, value] = marker.startsWith('lang:')
+        ? [this.context.languages, marker.slice(5)]
+        : marker.startsWith('tool:')
+          ? [this.context.tooling, marker.slice(5)]
+          : [this.context.frameworks, marker];
+      if (!list.includes(value)) list.push(value);
+      detected.push(value);
+    }
+    this.context.evidence.push({ file, detected });
+  }
+
+  private async read(file: string): Promise<string | undefined> {
+    return fs.readFile(path.join(this.root, file), 'utf-8').catch(() => undefined);
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    return fs.access(path.join(this.root, file)).then(() => true, () => false);
+  }
+
+  private static emptyContext(root: string): ProjectContext {
+    return { root, languages: [], frameworks: [], tooling: [], evidence: [] };
+  }
+}
+
+/**
+ * Why a practice applies to a project, or null if it does not
+ */
+export function practiceApplicability(doc: Document, context: ProjectContext): string[] | null {
+  const reasons: string[] = [];
+  const language = (doc.metadata.language as string) || 'general';
+  const framework = doc.metadata.framework as string | undefined;
+
+  if (language !== 'general') {
+    if (!context.languages.includes(language)) return null;
+    reasons.push(`language: ${language}`);
+  }
+
+  if (framework) {
+    const wanted = normalizeName(framework);
+    const match = context.frameworks.find(f => normalizeName(f) === wanted);
+    if (!match) return null;
+    reasons.push(`framework: ${match}`);
+  }
+
+  const markers = [...context.tooling, ...context.frameworks, ...context.languages];
+  const appliesTo = (doc.metadata.appliesTo as string[]) || [];
+  if (appliesTo.length > 0) {
+    const match = appliesTo.find(marker => markers.includes(marker));
+    if (!match) return null;
+    reasons.push(`uses ${match}`);
+  }
+
+  for (const tag of (doc.metadata.tags as string[]) || []) {
+    const tool = TOOLING_TAGS[tag];
+    if (!tool) continue;
+    if (!context.tooling.includes(tool)) return null;
+    if (!reasons.includes(`uses ${tool}`)) reasons.push(`uses ${tool}`);
+  }
+
+  return reasons.length > 0 ? reasons : ['language-agnostic'];
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,57 @@
+/**
+ * Line-level heuristics used by the code reviewer.
+ *
+ * These are intentionally cheap regular expressions: they point the reviewer
+ * at likely violations of a practice, they are not a replacement for running
+ * the linter itself.
+ */
+
+/**
+ * Detectors keyed by lint rule name (without plugin prefix)
+ */
+export const LINT_RULE_DETECTORS: Record<string, RegExp> = {
+  'no-explicit-any': /(:\s*any\b|<any>|\bas\s+any\b)/,
+  'no-eval': /\beval\s*\(/,
+  'no-implied-eval': /\bset(?:Timeout|Interval)\s*\(\s*['"`]/,
+  'no-new-func': /\bnew\s+Function\s*\(/,
+  'no-console': /\bconsole\.(?:log|debug|info|trace)\s*\(/,
+  'no-var': /^\s*var\s+\w/,
+  'eqeqeq': /[^=!<>]==[^=]|!=[^=]/,
+  'no-throw-literal': /\bthrow\s+['"`]/,
+  'no-non-null-assertion': /\w!\.(?!=)/,
+  'explicit-function-return-type': /\bfunction\s*\w*\s*\([^)]*\)\s*\{/,
+  'explicit-module-boundary-types': /\bexport\s+(?:default\s+)?(?:async\s+)?function\s*\w*\s*\([^)]*\)\s*\{/,
+  'no-empty': /\bcatch\s*(?:\([^)]*\))?\s*\{\s*\}/,
+  'detect-non-literal-regexp': /\bnew\s+RegExp\s*\(\s*[^'"`/]/,
+  'detect-child-process': /\b(?:exec|execSync)\s*\(\s*[`'"][^`'"]*\$\{/,
+};
+
+/**
+ * Detectors keyed by practice tag
+ */
+export const TAG_DETECTORS: Record<string, RegExp> = {
+  'sql-injection': /(?:\b(?:select|insert|update|delete)\b[^;]*['"`]\s*\+|`[^`]*\b(?:select|insert|update|delete)\b[^`]*\$\{)/i,
+  'injection': /(?:\beval\s*\(|\bexec(?:Sync)?\s*\(\s*[`'"][^`'"]*\$\{)/,
+  'input-validation': /\b(?:create|insert|update|query|exec)\w*\(\s*(?:req|request)\.(?:body|query|params)\b/,
+  'xss': /(?:\.innerHTML\s*=|dangerouslySetInnerHTML|document\.write\s*\()/,
+  'output-encoding': /\.innerHTML\s*=/,
+  'secrets': /\b(?:api[_-]?key|secret|password|passwd|token)\w*\s*[:=]\s*['"][^'"\s]{8,}['"]/i,
+  'credentials': /\b(?:api[_-]?key|secret|password|passwd|token)\w*\s*[:=]\s*['"][^'"\s]{8,}['"]/i,
+  'passwords': /\b(?:md5|sha1)\b|createHash\(\s*['"](?:md5|sha1|sha256)['"]\s*\)/i,
+  'hashing': /createHash\(\s*['"](?:md5|sha1)['"]\s*\)/i,
+  'https': /['"`]http:\/\/(?!localhost|127\.0\.0\.1)/,
+  'tls': /rejectUnauthorized\s*:\s*false|NODE_TLS_REJECT_UNAUTHORIZED/,
+  'actions': /^\s*-?\s*uses:\s*[\w.-]+\/[\w.-]+@(?![0-9a-f]{40}\b)/,
+  'permissions': /^\s*permissions:\s*write-all/,
+  'pull-requests': /^\s*pull_request_target\s*:/,
+  'docker': /^\s*FROM\s+[^\s@]+(?::latest)?\s*(?:AS\s+\w+)?\s*$/i,
+  'containers': /^\s*FROM\s+[^\s@]+(?::latest)?\s*(?:AS\s+\w+)?\s*$/i,
+};
+
+/**
+ * Find the detector for a lint rule, ignoring any plugin prefix
+ */
+export function detectorForLintRule(rule: string): RegExp | undefined {
+  const name = rule.split('/').pop() || rule;
+  return LINT_RULE_DETECTORS[name];
+}
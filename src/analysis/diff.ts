@@ -0,0 +1,74 @@
+/**
+ * A line of code under review, numbered as in the (new) file
+ */
+export interface CodeLine {
+  line: number;
+  text: string;
+}
+
+/**
+ * Lines of one file under review
+ */
+export interface CodeFile {
+  file?: string;
+  lines: CodeLine[];
+}
+
+/**
+ * Whether the input looks like a unified diff rather than a plain snippet
+ */
+export function isUnifiedDiff(input: string): boolean {
+  return /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m.test(input) || /^diff --git /m.test(input);
+}
+
+/**
+ * Extract the added lines of a unified diff, numbered as in the new file
+ */
+export function parseUnifiedDiff(diff: string): CodeFile[] {
+  const files: CodeFile[] = [];
+  let current: CodeFile | null = null;
+  let newLine = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const name = line.slice(4).trim().replace(/^b\//, '');
+      current = { file: name === '/dev/null' ? undefined : name, lines: [] };
+      files.push(current);
+      continue;
+    }
+    if (line.startsWith('--- ') || line.startsWith('diff --git ') || line.startsWith('index ')) {
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      if (!current) {
+        current = { lines: [] };
+        files.push(current);
+      }
+      newLine = Number(hunk[1]);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith('+')) {
+      current.lines.push({ line: newLine, text: line.slice(1) });
+      newLine++;
+    } else if (line.startsWith(' ')) {
+      newLine++;
+    }
+    // Removed lines ('-') and "\ No newline" markers don't advance the new file
+  }
+
+  return files.filter(f => f.lines.length > 0);
+}
+
+/**
+ * Treat a plain snippet as a single file starting at line 1
+ */
+export function snippetToFile(code: string, file?: string): CodeFile {
+  return {
+    file,
+    lines: code.split('\n').map((text, index) => ({ line: index + 1, text })),
+  };
+}
@@ -0,0 +1,10 @@
+export { ChecklistGenerator } from './ChecklistGenerator.js';
+export { CodeReviewer, type ReviewOptions } from './CodeReviewer.js';
+export { parsePracticeContent, practiceFromDocument, type PracticeContent } from './practiceContent.js';
+export { isUnifiedDiff, parseUnifiedDiff, type CodeFile, type CodeLine } from './diff.js';
+export { LINT_RULE_DETECTORS, TAG_DETECTORS, detectorForLintRule } from './detectors.js';
+export { LintConfigAnalyzer, type ResolvedLintConfig } from './LintConfigAnalyzer.js';
+export { LintRuleIndex, normalizeRuleId } from './lintRules.js';
+export { LintResultsExplainer, type SarifLog } from './LintResultsExplainer.js';
+export { PracticeOverlapAnalyzer, type OverlapOptions } from './PracticeOverlapAnalyzer.js';
+export { ProjectContextDetector, practiceApplicability } from './ProjectContextDetector.js';
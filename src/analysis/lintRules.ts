@@ -0,0 +1,39 @@
+import type { Document } from '@xorng/template-knowledge';
+
+/**
+ * Normalise a lint rule ID for exact comparison
+ */
+export function normalizeRuleId(rule: string): string {
+  return rule.trim().toLowerCase();
+}
+
+/**
+ * Index of practice documents by the exact lint rules they list
+ */
+export class LintRuleIndex {
+  private byRule: Map<string, Document[]> = new Map();
+
+  constructor(documents: Document[]) {
+    for (const doc of documents) {
+      if (doc.type !== 'practice') continue;
+
+      for (const rule of (doc.metadata.lintRules as string[]) || []) {
+        const key = normalizeRuleId(rule);
+        const list = this.byRule.get(key) || [];
+        if (!list.includes(doc)) list.push(doc);
+        this.byRule.set(key, list);
+      }
+    }
+  }
+
+  /**
+   * Practices listing exactly this rule
+   */
+  practicesFor(rule: string): Document[] {
+    return this.byRule.get(normalizeRuleId(rule)) || [];
+  }
+
+  has(rule: string): boolean {
+    return this.byRule.has(normalizeRuleId(rule));
+  }
+}
@@ -0,0 +1,164 @@
+import type { Document } from '@xorng/template-knowledge';
+import type { Practice, PracticeCategory, PracticeSeverity, PracticeStatus } from '../types/index.js';
+
+/**
+ * Fields recovered from a practice document's formatted content
+ */
+export interface PracticeContent {
+  description: string;
+  rationale?: string;
+  goodExample?: string;
+  badExample?: string;
+  exceptions?: string[];
+  references?: string[];
+}
+
+/**
+ * Section headings written by `formatPracticeContent`; other `##` lines are
+ * part of the text they appear in
+ */
+const SECTION_HEADINGS = [
+  'rationale', 'good example', 'bad example', 'exceptions', 'related lint rules', 'mappings', 'references',
+];
+
+/**
+ * Field lines written under the title by `formatPracticeContent`
+ */
+const HEADER_FIELD = /^\*\*(Category|Severity|Language):\*\* /;
+
+/**
+ * Split formatted practice content back into its fields.
+ *
+ * Practice documents are rendered by `formatPracticeContent` with
+ * `## Rationale`, `## Good Example`, `## Bad Example`, `## Exceptions` and
+ * `## References` sections. Headings inside code fences are ignored.
+ */
+export function parsePracticeContent(content: string): PracticeContent {
+  const sections = splitSections(content);
+  const preamble = (sections.get('') || '').split('\n');
+
+  // Drop the title and the field lines under it, keeping the text as written
+  let start = Math.max(0, preamble.findIndex(line => line.trim()));
+  if (preamble[start]?.startsWith('# ')) start++;
+  while (start < preamble.length && (!preamble[start].trim() || HEADER_FIELD.test(preamble[start]))) start++;
+
+  const result: PracticeContent = { description: preamble.slice(start).join('\n').trim() };
+
+  for (const [heading, body] of sections) {
+    if (heading.startsWith('rationale')) {
+      result.rationale = body.trim();
+    } else if (heading.startsWith('good example')) {
+      result.goodExample = stripFence(body);
+    } else if (heading.startsWith('bad example')) {
+      result.badExample = stripFence(body);
+    } else if (heading.startsWith('exceptions')) {
+      result.exceptions = listItems(body);
+    } else if (heading.startsWith('references')) {
+      result.references = listItems(body);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rebuild the practice a document was made from.
+ *
+ * Sources keep the declared practice in `metadata.practice`; the metadata
+ * fields layering and source defaults change are applied on top. Documents
+ * without it are rebuilt from their metadata and formatted content.
+ */
+export function practiceFromDocument(doc: Document): Practice {
+  const meta = doc.metadata;
+  const list = (key: string): string[] | undefined => {
+    const value = meta[key] as string[] | undefined;
+    return value && value.length > 0 ? value : undefined;
+  };
+
+  const declared = meta.practice as Practice | undefined;
+  if (declared) {
+    const exceptions = meta.exceptions as string[] | undefined;
+    return {
+      ...declared,
+      severity: (meta.severity as PracticeSeverity) || declared.severity,
+      language: (meta.language as string) || declared.language,
+      framework: (meta.framework as string | undefined) || declared.framework,
+      appliesTo: list('appliesTo') || declared.appliesTo,
+      exceptions: exceptions ? list('exceptions') : declared.exceptions,
+    };
+  }
+
+  const content = parsePracticeContent(doc.content);
+  const status = meta.status as PracticeStatus | undefined;
+
+  return {
+    id: meta.practiceId as string,
+    title: doc.title || (meta.practiceId as string),
+    description: content.description || doc.title || '',
+    category: (meta.category as PracticeCategory) || 'general',
+    severity: (meta.severity as PracticeSeverity) || 'suggestion',
+    language: (meta.language as string) || 'general',
+    framework: meta.framework as string | undefined,
+    goodExample: content.goodExample,
+    badExample: content.badExample,
+    rationale: content.rationale,
+    exceptions: content.exceptions,
+    relatedPractices: list('relatedPractices'),
+    relatedPatterns: list('relatedPatterns'),
+    supersedes: list('supersedes'),
+    conflictsWith: list('conflictsWith'),
+    lintRules: list('lintRules'),
+    references: content.references,
+    tags: list('tags'),
+    aliases: list('aliases'),
+    appliesTo: list('appliesTo'),
+    status: status && status !== 'active' ? status : undefined,
+    deprecatedIn: meta.deprecatedIn as string | undefined,
+    replacedBy: meta.replacedBy as string | undefined,
+    effectiveDate: meta.effectiveDate as string | undefined,
+    mappings: meta.mappings && Object.keys(meta.mappings).length > 0
+      ? meta.mappings as Record<string, string[]>
+      : undefined,
+  };
+}
+
+/**
+ * Map of lower-cased section heading to section body; the preamble is keyed ''
+ */
+function splitSections(content: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  let heading = '';
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inFence = !inFence;
+    }
+    const title = line.slice(3).trim().toLowerCase();
+    if (!inFence && line.startsWith('## ') && SECTION_HEADINGS.some(known => title.startsWith(known))) {
+      sections.set(heading, lines.join('\n'));
+      heading = title;
+      lines = [];
+      continue;
+    }
+    lines.push(line);
+  }
+  sections.set(heading, lines.join('\n'));
+
+  return sections;
+}
+
+function stripFence(body: string): string | undefined {
+  const match = body.match(/```[^\n]*\n([\s\S]*?)\n?```/);
+  const code = (match ? match[1] : body).trim();
+  return code || undefined;
+}
+
+function listItems(body: string): string[] {
+  return body
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('- '))
+    .map(line => line.slice(2).trim());
+}
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { ControlFrameworkCatalog } from './ControlFrameworkCatalog.js';
+
+const warnings: string[] = [];
+const logger = {
+  info() {},
+  warn(_context: unknown, message: string) {
+    warnings.push(message);
+  },
+  error() {},
+  debug() {},
+} as unknown as SourceContext['logger'];
+
+describe('ControlFrameworkCatalog', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'control-frameworks-'));
+    await fs.mkdir(path.join(root, 'catalogs/internal'), { recursive: true });
+    await fs.writeFile(path.join(root, 'catalogs/owasp.yaml'), [
+      'id: OWASP-Top10',
+      'name: OWASP Top 10',
+      'version: "2021"',
+      'controls:',
+      '  - id: A03:2021',
+      '    title: Injection',
+    ].join('\n'), 'utf-8');
+    await fs.writeFile(path.join(root, 'catalogs/internal/soc2.json'), JSON.stringify({
+      id: 'soc2',
+      name: 'SOC 2',
+      controls: [{ id: 'CC6.1', title: 'Logical access security' }],
+    }), 'utf-8');
+    await fs.writeFile(path.join(root, 'catalogs/owasp.yml'), 'id: owasp-top10\nname: Copy\ncontrols: []\n', 'utf-8');
+    await fs.writeFile(path.join(root, 'catalogs/invalid.yaml'), 'id: broken\n', 'utf-8');
+    await fs.writeFile(path.join(root, 'slsa.yaml'), 'id: slsa\nname: SLSA\ncontrols: []\n', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('loads catalog files and directories, skipping invalid and duplicate frameworks', async () => {
+    const catalog = new ControlFrameworkCatalog();
+    await catalog.load([path.join(root, 'catalogs'), path.join(root, 'slsa.yaml'), path.join(root, 'missing')], logger);
+
+    expect(catalog.list().map(f => f.id)).toEqual(['soc2', 'OWASP-Top10', 'slsa']);
+    expect(catalog.get('owasp-top10')?.name).toBe('OWASP Top 10');
+    expect(catalog.get(' SOC2 ')?.controls).toHaveLength(1);
+    expect(warnings).toEqual(expect.arrayContaining([
+      'Invalid control framework catalog',
+      'Duplicate control framework, keeping the first',
+      'Control framework path not found',
+    ]));
+  });
+
+  it('replaces the catalog on reload', async () => {
+    const catalog = new ControlFrameworkCatalog();
+    await catalog.load([path.join(root, 'catalogs')], logger);
+    await catalog.load([path.join(root, 'slsa.yaml')], logger);
+
+    expect(catalog.list().map(f => f.id)).toEqual(['slsa']);
+    expect(catalog.get('soc2')).toBeUndefined();
+  });
+});
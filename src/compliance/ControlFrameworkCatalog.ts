@@ -0,0 +1,77 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { glob } from 'glob';
+import * as yaml from 'js-yaml';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { ControlFrameworkSchema, type ControlFramework } from '../types/index.js';
+import { normalizeFrameworkId } from './controls.js';
+
+/**
+ * Control frameworks (OWASP Top 10, SOC 2, ISO 27001, SLSA, ...) loaded from
+ * local YAML or JSON catalog files, one framework per file. Directories are
+ * searched for `*.yaml`, `*.yml` and `*.json` files.
+ */
+export class ControlFrameworkCatalog {
+  private frameworks: Map<string, ControlFramework> = new Map();
+
+  /**
+   * Replace the catalog with the frameworks found at the given paths
+   */
+  async load(paths: string[], logger: SourceContext['logger']): Promise<void> {
+    const frameworks = new Map<string, ControlFramework>();
+
+    for (const file of await this.findFiles(paths, logger)) {
+      try {
+        const content = await fs.readFile(file, 'utf-8');
+        const data = file.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+        const result = ControlFrameworkSchema.safeParse(data);
+        if (!result.success) {
+          logger.warn({ file, issues: result.error.issues }, 'Invalid control framework catalog');
+          continue;
+        }
+
+        const id = normalizeFrameworkId(result.data.id);
+        if (frameworks.has(id)) {
+          logger.warn({ file, framework: result.data.id }, 'Duplicate control framework, keeping the first');
+          continue;
+        }
+        frameworks.set(id, result.data);
+      } catch (error) {
+        logger.warn({ file, error }, 'Failed to load control framework catalog');
+      }
+    }
+
+    this.frameworks = frameworks;
+  }
+
+  get(framework: string): ControlFramework | undefined {
+    return this.frameworks.get(normalizeFrameworkId(framework));
+  }
+
+  list(): ControlFramework[] {
+    return [...this.frameworks.values()];
+  }
+
+  private async findFiles(paths: string[], logger: SourceContext['logger']): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of paths) {
+      try {
+        if ((await fs.stat(entry)).isFile()) {
+          files.push(path.resolve(entry));
+          continue;
+        }
+      } catch {
+        logger.warn({ path: entry }, 'Control framework path not found');
+        continue;
+      }
+
+      const found = await glob(['**/*.yaml', '**/*.yml', '**/*.json'], {
+        cwd: entry,
+        absolute: true,
+        ignore: ['**/node_modules/**'],
+      });
+      files.push(...found.sort());
+    }
+    return files;
+  }
+}
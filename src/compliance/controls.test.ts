@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { ControlFramework } from '../types/index.js';
+import { practiceDoc } from '../sources/testing.js';
+import { buildCoverageReport, isControlMatch, mappedControls, normalizeControlId } from './controls.js';
+
+const SOC2: ControlFramework = {
+  id: 'SOC2',
+  name: 'SOC 2',
+  version: '2017',
+  controls: [
+    { id: 'CC6', title: 'Logical and Physical Access Controls' },
+    { id: 'CC6.1', title: 'Logical access security' },
+    { id: 'CC7.2', title: 'System monitoring' },
+    { id: 'CC8.1', title: 'Change management' },
+  ],
+};
+
+describe('controls', () => {
+  it('normalises control IDs and reads mappings case-insensitively', () => {
+    const doc = practiceDoc(
+      { id: 'parameterize-queries', mappings: { CWE: ['89', 'cwe-20'], 'owasp-top10': ['a03:2021'] } },
+      { path: 'security.yaml' }
+    );
+
+    expect(normalizeControlId('cwe', '89')).toBe('CWE-89');
+    expect(normalizeControlId('soc2', ' cc6.1 ')).toBe('CC6.1');
+    expect(mappedControls(doc, 'cwe')).toEqual(['CWE-89', 'CWE-20']);
+    expect(mappedControls(doc, 'OWASP-Top10')).toEqual(['A03:2021']);
+    expect(mappedControls(doc, 'soc2')).toEqual([]);
+  });
+
+  it('matches nested controls only on a separator', () => {
+    expect(isControlMatch('CC6.1', 'CC6')).toBe(true);
+    expect(isControlMatch('A.8.28', 'A.8')).toBe(true);
+    expect(isControlMatch('CC61', 'CC6')).toBe(false);
+    expect(isControlMatch('CC6.1', 'CC6', false)).toBe(false);
+  });
+
+  it('reports covered, uncovered and unknown controls', () => {
+    const report = buildCoverageReport(SOC2, [
+      practiceDoc({ id: 'least-privilege', mappings: { soc2: ['CC6.1'] } }, { path: 'security.yaml' }),
+      practiceDoc({ id: 'audit-logging', mappings: { soc2: ['cc7.2', 'CC9.9'] } }, { path: 'security.yaml' }),
+      practiceDoc({ id: 'pin-dependencies', mappings: { slsa: ['BUILD-L2'] } }, { path: 'security.yaml' }),
+    ]);
+
+    expect(report).toEqual({
+      framework: 'SOC2',
+      name: 'SOC 2',
+      version: '2017',
+      controlCount: 4,
+      coveredCount: 3,
+      coverage: 0.75,
+      controls: [
+        { id: 'CC6', title: 'Logical and Physical Access Controls', practiceIds: ['least-privilege'] },
+        { id: 'CC6.1', title: 'Logical access security', practiceIds: ['least-privilege'] },
+        { id: 'CC7.2', title: 'System monitoring', practiceIds: ['audit-logging'] },
+      ],
+      uncovered: [{ id: 'CC8.1', title: 'Change management' }],
+      unknownControls: [{ control: 'CC9.9', practiceIds: ['audit-logging'] }],
+    });
+  });
+
+  it('reports no coverage for an empty framework', () => {
+    expect(buildCoverageReport({ id: 'empty', name: 'Empty', controls: [] }, []).coverage).toBe(0);
+  });
+});
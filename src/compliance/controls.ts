@@ -0,0 +1,80 @@
+import type { Document } from '@xorng/template-knowledge';
+import type { Control, ControlCoverage, ControlFramework, CoverageReport } from '../types/index.js';
+
+/**
+ * Normalise a framework ID for comparison: `OWASP-Top10` -> `owasp-top10`
+ */
+export function normalizeFrameworkId(framework: string): string {
+  return framework.trim().toLowerCase();
+}
+
+/**
+ * Normalise a control ID for comparison; bare CWE numbers get their prefix
+ */
+export function normalizeControlId(framework: string, control: string): string {
+  const id = control.trim().toUpperCase();
+  return normalizeFrameworkId(framework) === 'cwe' && /^\d+$/.test(id) ? `CWE-${id}` : id;
+}
+
+/**
+ * Controls a practice document maps to in a framework, normalised
+ */
+export function mappedControls(doc: Document, framework: string): string[] {
+  const mappings = (doc.metadata.mappings || {}) as Record<string, string[]>;
+  const key = normalizeFrameworkId(framework);
+  return Object.entries(mappings)
+    .filter(([name]) => normalizeFrameworkId(name) === key)
+    .flatMap(([, ids]) => ids.map(id => normalizeControlId(framework, id)));
+}
+
+/**
+ * Whether a mapped control is the control or, with `includeChildren`, one
+ * nested under it (`CC6` covers `CC6.1`, `A.8` covers `A.8.28`)
+ */
+export function isControlMatch(mapped: string, control: string, includeChildren = true): boolean {
+  if (mapped === control) return true;
+  return includeChildren && mapped.startsWith(control) && /^[.:-]/.test(mapped.slice(control.length));
+}
+
+/**
+ * Which controls of a framework the practices cover. A control is covered
+ * when a practice maps to it or to a control nested under it.
+ */
+export function buildCoverageReport(framework: ControlFramework, practices: Document[]): CoverageReport {
+  const mapped = practices.map(doc => ({
+    id: doc.metadata.practiceId as string,
+    controls: mappedControls(doc, framework.id),
+  }));
+
+  const controls: ControlCoverage[] = framework.controls.map(control => {
+    const id = normalizeControlId(framework.id, control.id);
+    return {
+      id: control.id,
+      title: control.title,
+      practiceIds: mapped.filter(p => p.controls.some(c => isControlMatch(c, id))).map(p => p.id),
+    };
+  });
+  const uncovered: Control[] = framework.controls.filter((_, i) => controls[i].practiceIds.length === 0);
+
+  const known = new Set(framework.controls.map(control => normalizeControlId(framework.id, control.id)));
+  const unknown = new Map<string, string[]>();
+  for (const practice of mapped) {
+    for (const control of practice.controls) {
+      if (known.has(control)) continue;
+      unknown.set(control, [...(unknown.get(control) || []), practice.id]);
+    }
+  }
+
+  const coveredCount = controls.length - uncovered.length;
+  return {
+    framework: framework.id,
+    name: framework.name,
+    version: framework.version,
+    controlCount: controls.length,
+    coveredCount,
+    coverage: controls.length === 0 ? 0 : Math.round((coveredCount / controls.length) * 1000) / 1000,
+    controls: controls.filter(control => control.practiceIds.length > 0),
+    uncovered,
+    unknownControls: [...unknown].map(([control, practiceIds]) => ({ control, practiceIds })),
+  };
+}
@@ -0,0 +1,8 @@
+export { ControlFrameworkCatalog } from './ControlFrameworkCatalog.js';
+export {
+  buildCoverageReport,
+  isControlMatch,
+  mappedControls,
+  normalizeControlId,
+  normalizeFrameworkId,
+} from './controls.js';
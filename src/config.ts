@@ -0,0 +1,51 @@
+import type { Logger } from 'pino';
+import type { ProviderConfig } from './types/index.js';
+
+// Default configuration
+export const defaultConfig: ProviderConfig = {
+  sources: [
+    {
+      name: 'local-practices',
+      type: 'local',
+      path: process.env.PRACTICES_PATH || './practices',
+      format: 'markdown',
+      watch: process.env.PRACTICES_WATCH === 'true',
+    },
+  ],
+  chunkSize: 1000,
+  chunkOverlap: 200,
+  maxResults: 10,
+  minScore: 0.3,
+  syncOnStart: true,
+};
+
+// Load configuration
+export async function loadConfig(logger: Logger): Promise<ProviderConfig> {
+  const configPath = process.env.XORNG_PRACTICES_CONFIG;
+  
+  if (configPath) {
+    try {
+      // Dynamic import for JSON/JS config (ES module compatible)
+      const fs = await import('fs/promises');
+      const configContent = await fs.readFile(configPath, 'utf-8');
+      const config = JSON.parse(configContent);
+      logger.info({ configPath }, 'Loaded configuration from file');
+      return { ...defaultConfig, ...config };
+    } catch (error) {
+      logger.warn({ configPath, error }, 'Failed to load config, using defaults');
+    }
+  }
+
+  // Check for additional sources
+  const additionalSources = process.env.XORNG_PRACTICES_SOURCES;
+  if (additionalSources) {
+    try {
+      const sources = JSON.parse(additionalSources);
+      return { ...defaultConfig, sources: [...defaultConfig.sources, ...sources] };
+    } catch (error) {
+      logger.warn('Failed to parse XORNG_PRACTICES_SOURCES');
+    }
+  }
+
+  return defaultConfig;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import * as yaml from 'js-yaml';
+import { StyleGuideSchema } from '../types/index.js';
+import { GuideConverter } from './GuideConverter.js';
+
+const GUIDE = `name: Service Standards
+version: "2.1"
+language: typescript
+framework: express
+description: Rules for HTTP services.
+practices:
+  - id: validate-input
+    title: Validate request bodies
+    description: Parse every request body with a schema before use.
+    category: security
+    severity: error
+    language: typescript
+    framework: express
+    goodExample: |-
+      const body = schema.parse(req.body);
+    badExample: |-
+      const body = req.body as Order;
+    rationale: Unvalidated input reaches the database.
+    exceptions:
+      - Health checks without a body
+    references:
+      - https://owasp.org/www-project-top-ten/
+    lintRules: ['@typescript-eslint/no-unsafe-assignment']
+    tags: [input]
+    mappings:
+      cwe: [CWE-20]
+  - id: document-fences
+    title: Show markdown in docs
+    description: Examples may contain fences.
+    category: documentation
+    severity: suggestion
+    language: general
+    framework: express
+    goodExample: |-
+      \`\`\`ts
+      const a = 1;
+      \`\`\`
+    status: deprecated
+    deprecatedIn: "2.0"
+    replacedBy: validate-input
+    aliases: [fence-docs]
+`;
+
+const MARKDOWN = `---
+title: Team Guide
+language: python
+owner: platform
+severity: warning
+---
+
+# Team Guide
+
+How the platform team writes Python.
+
+## Use type hints
+
+<!-- practice: { id: type-hints, category: general } -->
+
+Annotate public functions.
+
+## Never use eval
+
+Avoid eval on user input.
+
+### Bad
+
+\`\`\`python
+eval(request.args["q"])
+\`\`\`
+`;
+
+describe('GuideConverter', () => {
+  const converter = new GuideConverter();
+
+  it('round-trips a structured guide through markdown without inference', () => {
+    const original = StyleGuideSchema.parse(yaml.load(GUIDE));
+
+    const markdown = converter.yamlToMarkdown(GUIDE);
+    const back = converter.markdownToYaml(markdown.content);
+
+    expect(markdown.practiceCount).toBe(2);
+    expect(back.inferred).toEqual([]);
+    expect(back.warnings).toEqual([]);
+    expect(StyleGuideSchema.parse(yaml.load(back.content))).toEqual(original);
+  });
+
+  it('round-trips a markdown guide through YAML', () => {
+    const structured = converter.markdownToYaml(MARKDOWN);
+    const markdown = converter.yamlToMarkdown(structured.content);
+    const again = converter.markdownToYaml(markdown.content);
+
+    expect(yaml.load(again.content)).toEqual(yaml.load(structured.content));
+    expect(again.inferred).toEqual([]);
+  });
+
+  it('reports and marks metadata the markdown parser inferred', () => {
+    const result = converter.markdownToYaml(MARKDOWN);
+    const guide = StyleGuideSchema.parse(yaml.load(result.content));
+
+    expect(guide).toMatchObject({
+      name: 'Team Guide',
+      language: 'python',
+      description: 'How the platform team writes Python.',
+      metadata: { owner: 'platform' },
+    });
+    expect(guide.practices.map(p => [p.id, p.severity])).toEqual([
+      ['type-hints', 'warning'],
+      ['never-use-eval', 'warning'],
+    ]);
+    expect(result.inferred.map(report => report.practiceId)).toEqual(['never-use-eval']);
+    expect(result.content).toMatch(/# inferred: [^\n]*category[^\n]*\n\s*- id: never-use-eval/);
+  });
+
+  it('warns that overrides cannot be written to markdown', () => {
+    const withOverrides = `${GUIDE}overrides:\n  - id: validate-input\n    severity: warning\n`;
+
+    expect(converter.yamlToMarkdown(withOverrides).warnings).toEqual([
+      { message: '1 overrides are not supported in markdown guides; move them to a YAML overrides file' },
+    ]);
+  });
+});
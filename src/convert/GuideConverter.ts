@@ -0,0 +1,246 @@
+import * as yaml from 'js-yaml';
+import {
+  StyleGuideSchema,
+  type GuideConversion,
+  type Practice,
+  type PracticeAnnotation,
+  type StyleGuide,
+} from '../types/index.js';
+import { MarkdownPracticeParser, type MarkdownParserOptions } from '../sources/MarkdownPracticeParser.js';
+
+/**
+ * Frontmatter keys that map onto style guide fields; others are kept in the
+ * guide's `metadata`
+ */
+const GUIDE_FRONTMATTER = ['title', 'name', 'language', 'framework', 'version', 'description'];
+
+/**
+ * Frontmatter keys the markdown parser applies to every practice
+ */
+const PRACTICE_FRONTMATTER = ['category', 'severity', 'tags', 'appliesTo'];
+
+/**
+ * Practice fields written to the `<!-- practice: ... -->` comment, in order
+ */
+const ANNOTATION_FIELDS: Array<keyof PracticeAnnotation> = [
+  'id', 'category', 'severity', 'language', 'framework', 'status', 'deprecatedIn',
+  'replacedBy', 'effectiveDate', 'tags', 'lintRules', 'aliases', 'appliesTo',
+  'relatedPractices', 'relatedPatterns', 'supersedes', 'conflictsWith', 'mappings',
+];
+
+/**
+ * Converts style guides between markdown and the structured YAML format.
+ *
+ * Markdown is parsed the way `MarkdownPracticeSource` parses it; metadata the
+ * parser had to infer is reported (and marked with comments in the YAML) so
+ * authors can confirm it. YAML guides are rendered in the canonical markdown
+ * layout: a metadata comment under each practice heading, then Good, Bad,
+ * Rationale, Exceptions and References subsections, which the parser reads
+ * back without inference.
+ */
+export class GuideConverter {
+  private parser: MarkdownPracticeParser;
+  private headingDepth: number;
+
+  constructor(options: MarkdownParserOptions = {}) {
+    this.parser = new MarkdownPracticeParser(options);
+    this.headingDepth = options.headingDepth ?? 2;
+  }
+
+  /**
+   * Convert a markdown guide to StyleGuideSchema YAML
+   */
+  markdownToYaml(content: string, fallbackName = 'Style Guide'): GuideConversion {
+    const { body, frontmatter, practices } = this.parser.parse(content);
+    const warnings: GuideConversion['warnings'] = [];
+    const inferred: GuideConversion['inferred'] = [];
+
+    for (const parsed of practices) {
+      for (const issue of parsed.issues) {
+        warnings.push({ practiceId: parsed.practice.id, line: issue.line, message: issue.message });
+      }
+      if (parsed.inferred.length > 0) {
+        inferred.push({
+          practiceId: parsed.practice.id,
+          title: parsed.practice.title,
+          line: parsed.lines.start,
+          fields: Object.fromEntries(parsed.inferred.map(field => [field, parsed.practice[field]])),
+        });
+      }
+    }
+
+    const { title, intro } = this.splitIntro(body);
+    const metadata = Object.fromEntries(
+      Object.entries(frontmatter).filter(([key]) => !GUIDE_FRONTMATTER.includes(key) && !PRACTICE_FRONTMATTER.includes(key))
+    );
+
+    const guide = StyleGuideSchema.parse(withoutEmpty({
+      name: String(frontmatter.title ?? frontmatter.name ?? title ?? fallbackName),
+      version: frontmatter.version !== undefined ? String(frontmatter.version) : undefined,
+      language: String(frontmatter.language ?? 'general'),
+      framework: frontmatter.framework,
+      description: frontmatter.description ?? (intro || undefined),
+      // Each practice states its language; the schema would default it to general
+      practices: practices.map(p => orderPractice(p.practice)),
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    }));
+
+    let output = yaml.dump(guide, { lineWidth: 100, noRefs: true });
+    output = this.markInferred(output, inferred);
+
+    return { format: 'yaml', content: output, practiceCount: guide.practices.length, inferred, warnings };
+  }
+
+  /**
+   * Render a structured guide (YAML or JSON text) as canonical markdown
+   */
+  yamlToMarkdown(content: string): GuideConversion {
+    const guide = StyleGuideSchema.parse(yaml.load(content));
+    const warnings: GuideConversion['warnings'] = [];
+
+    if (guide.overrides?.length) {
+      warnings.push({
+        message: `${guide.overrides.length} overrides are not supported in markdown guides; move them to a YAML overrides file`,
+      });
+    }
+
+    const frontmatter = withoutEmpty({
+      title: guide.name,
+      language: guide.language,
+      framework: guide.framework,
+      version: guide.version,
+      appliesTo: guide.appliesTo,
+      ...guide.metadata,
+    });
+    const heading = '#'.repeat(this.headingDepth);
+    const parts = [
+      '---',
+      yaml.dump(frontmatter, { lineWidth: 100 }).trimEnd(),
+      '---',
+      '',
+      `# ${guide.name}`,
+    ];
+    if (guide.description) {
+      parts.push('', guide.description.trim());
+    }
+
+    for (const practice of guide.practices) {
+      parts.push('', `${heading} ${practice.title}`, '', this.annotation(practice, guide), '', practice.description.trim());
+      parts.push(...this.subsections(practice, guide.language, `${heading}#`));
+    }
+
+    return {
+      format: 'markdown',
+      content: `${parts.join('\n')}\n`,
+      practiceCount: guide.practices.length,
+      inferred: [],
+      warnings,
+    };
+  }
+
+  /**
+   * Metadata comment declaring every field, so nothing is inferred on the way back
+   */
+  private annotation(practice: Practice, guide: StyleGuide): string {
+    const fields: Record<string, unknown> = {};
+    for (const field of ANNOTATION_FIELDS) {
+      const value = practice[field];
+      if (value === undefined) continue;
+      if (field === 'language' && value === guide.language) continue;
+      if (field === 'framework' && value === guide.framework) continue;
+      if (field === 'appliesTo' && guide.appliesTo && sameList(value as string[], guide.appliesTo)) continue;
+      fields[field] = value;
+    }
+    // Declared (even empty) tags stop the parser from adding code languages
+    fields.tags ??= [];
+
+    return `<!-- practice: ${yaml.dump(fields, { flowLevel: 0, lineWidth: -1 }).trim()} -->`;
+  }
+
+  private subsections(practice: Practice, guideLanguage: string, heading: string): string[] {
+    const language = practice.language !== 'general' ? practice.language : guideLanguage !== 'general' ? guideLanguage : '';
+    const parts: string[] = [];
+
+    if (practice.goodExample) {
+      parts.push('', `${heading} Good`, '', fence(practice.goodExample, language));
+    }
+    if (practice.badExample) {
+      parts.push('', `${heading} Bad`, '', fence(practice.badExample, language));
+    }
+    if (practice.rationale) {
+      parts.push('', `${heading} Rationale`, '', practice.rationale.trim());
+    }
+    if (practice.exceptions?.length) {
+      parts.push('', `${heading} Exceptions`, '', ...practice.exceptions.map(e => `- ${e}`));
+    }
+    if (practice.references?.length) {
+      parts.push('', `${heading} References`, '', ...practice.references.map(r => `- ${r}`));
+    }
+
+    return parts;
+  }
+
+  /**
+   * The H1 title and the text between it and the first practice
+   */
+  private splitIntro(body: string): { title?: string; intro: string } {
+    const lines: string[] = [];
+    let title: string | undefined;
+    let inFence = false;
+
+    for (const line of body.split('\n')) {
+      if (line.trimStart().startsWith('```')) inFence = !inFence;
+      if (!inFence) {
+        const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+        if (heading && heading[1].length >= this.headingDepth) break;
+        if (heading && heading[1].length === 1 && title === undefined) {
+          title = heading[2].trim();
+          continue;
+        }
+      }
+      lines.push(line);
+    }
+
+    return { title, intro: lines.join('\n').trim() };
+  }
+
+  /**
+   * Put a `# inferred: ...` comment above each practice with inferred fields
+   */
+  private markInferred(output: string, inferred: GuideConversion['inferred']): string {
+    const byId = new Map(inferred.map(report => [report.practiceId, Object.keys(report.fields)]));
+    return output
+      .split('\n')
+      .flatMap(line => {
+        const match = /^(\s*)- id: (.*)$/.exec(line);
+        if (!match) return [line];
+        const fields = byId.get(String(yaml.load(match[2])));
+        return fields ? [`${match[1]}# inferred: ${fields.join(', ')}`, line] : [line];
+      })
+      .join('\n');
+  }
+}
+
+/**
+ * Practice with its fields in schema order and unset values dropped
+ */
+function orderPractice(practice: Practice): Practice {
+  const { id, title, description, category, severity, language, ...rest } = practice;
+  return withoutEmpty({ id, title, description, category, severity, language, ...rest }) as Practice;
+}
+
+function withoutEmpty<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && !(Array.isArray(v) && v.length === 0))
+  ) as T;
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+function fence(code: string, language: string): string {
+  // A longer fence keeps examples that contain ``` intact
+  const ticks = code.includes('```') ? '````' : '```';
+  return `${ticks}${language}\n${code.replace(/\n+$/, '')}\n${ticks}`;
+}
@@ -0,0 +1 @@
+export { GuideConverter } from './GuideConverter.js';
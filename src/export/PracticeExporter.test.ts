@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import * as yaml from 'js-yaml';
+import type { Document } from '@xorng/template-knowledge';
+import { StyleGuideSchema, type Practice } from '../types/index.js';
+import { practiceDoc } from '../sources/testing.js';
+import { PracticeExporter } from './PracticeExporter.js';
+
+const validate = practiceDoc({
+  id: 'validate-input',
+  category: 'security',
+  title: 'Validate all input',
+  description: 'Check input against a schema.\n\n**Note:** this includes headers.\n\n## Why it matters\nAttackers control it.',
+  severity: 'error',
+  language: 'typescript',
+  goodExample: 'const body = schema.parse(req.body);',
+  exceptions: ['Internal health checks'],
+  tags: ['input'],
+});
+const sanitize = practiceDoc({
+  id: 'sanitize-input',
+  category: 'security',
+  title: 'Sanitize input',
+  description: 'Strip markup from input.',
+  status: 'deprecated',
+  replacedBy: 'validate-input',
+});
+const escape = practiceDoc({
+  id: 'escape-html',
+  title: 'Escape HTML',
+  description: 'Escape values rendered into pages.',
+  category: 'general',
+  status: 'retired',
+  replacedBy: 'org:guide.yaml#encode-output',
+});
+
+describe('PracticeExporter', () => {
+  it('exports a style guide that parses back to the declared practices', () => {
+    const [file] = new PracticeExporter([sanitize, validate], { title: 'Acme' }).export('yaml');
+    const guide = StyleGuideSchema.parse(yaml.load(file.content));
+
+    expect(file.path).toBe('best-practices.yaml');
+    expect(guide.name).toBe('Acme');
+    expect(guide.practices.map(p => p.id)).toEqual(['validate-input', 'sanitize-input']);
+    expect(guide.practices[0]).toEqual(JSON.parse(JSON.stringify(validate.metadata.practice)));
+  });
+
+  it('keeps description text that looks like fields or headings', () => {
+    const [file] = new PracticeExporter([validate]).export('json');
+    const [practice] = JSON.parse(file.content).practices as Practice[];
+
+    expect(practice.description).toContain('**Note:** this includes headers.');
+    expect(practice.description).toContain('## Why it matters\nAttackers control it.');
+  });
+
+  it('rebuilds documents without a declared practice from their content', () => {
+    const { practice: _practice, ...metadata } = validate.metadata;
+    const [file] = new PracticeExporter([{ ...validate, metadata }]).export('json');
+    const [practice] = JSON.parse(file.content).practices as Practice[];
+
+    expect(practice.description).toBe(
+      'Check input against a schema.\n\n**Note:** this includes headers.\n\n## Why it matters\nAttackers control it.'
+    );
+    expect(practice.goodExample).toBe('const body = schema.parse(req.body);');
+    expect(practice.exceptions).toEqual(['Internal health checks']);
+  });
+
+  it('applies layered severity and exceptions over the declared practice', () => {
+    const overridden: Document = {
+      ...validate,
+      metadata: { ...validate.metadata, severity: 'warning', exceptions: ['Internal health checks', 'Load tests'] },
+    };
+    const [file] = new PracticeExporter([overridden]).export('json');
+    const [practice] = JSON.parse(file.content).practices as Practice[];
+
+    expect(practice.severity).toBe('warning');
+    expect(practice.exceptions).toEqual(['Internal health checks', 'Load tests']);
+  });
+
+  it('links replacements only when they are part of the export', () => {
+    const files = new PracticeExporter([validate, sanitize, escape]).export('html');
+    const pageOf = (id: string) => files.find(f => f.path === `practices/${id}.html`)!.content;
+
+    expect(pageOf('sanitize-input')).toContain('<p>Replaced by <a href="validate-input.html"><code>validate-input</code></a></p>');
+    expect(pageOf('escape-html')).toContain('<p>Replaced by <code>org:guide.yaml#encode-output</code></p>');
+    expect(files.map(f => f.path)).toEqual(expect.arrayContaining([
+      'style.css', 'index.html', 'categories/general.html', 'categories/security.html', 'languages/typescript.html',
+    ]));
+  });
+
+  it('writes one CSV row per practice with quoted fields', () => {
+    const [file] = new PracticeExporter([validate, sanitize]).export('csv');
+    const rows = file.content.trimEnd().split('\r\n');
+
+    expect(rows[0]).toBe('id,title,category,severity,language,framework,status,tags,lintRules,mappings,description,source,documentId');
+    expect(rows[1].startsWith('validate-input,Validate all input,security,error,typescript,,active,input,,,"Check input')).toBe(true);
+    expect(rows).toHaveLength(3);
+  });
+});
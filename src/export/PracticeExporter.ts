@@ -0,0 +1,335 @@
+import * as yaml from 'js-yaml';
+import type { Document } from '@xorng/template-knowledge';
+import {
+  SEVERITY_RANK,
+  StyleGuideSchema,
+  type ExportFormat,
+  type ExportedFile,
+  type Practice,
+  type PracticeSeverity,
+  type StyleGuide,
+} from '../types/index.js';
+import { practiceFromDocument } from '../analysis/index.js';
+import { formatPracticeContent, formatStyleGuideOverview } from '../sources/formatting.js';
+
+/**
+ * Options for an export
+ */
+export interface ExportOptions {
+  title?: string;
+  description?: string;
+}
+
+const CSV_COLUMNS = [
+  'id', 'title', 'category', 'severity', 'language', 'framework', 'status',
+  'tags', 'lintRules', 'mappings', 'description', 'source', 'documentId',
+] as const;
+
+const STYLESHEET = `body { font-family: system-ui, sans-serif; max-width: 52rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2328; }
+a { color: #0969da; }
+nav { margin-bottom: 1.5rem; font-size: 0.9rem; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+.severity { display: inline-block; padding: 0 0.4rem; border-radius: 4px; font-size: 0.8rem; color: #fff; }
+.severity-error { background: #cf222e; }
+.severity-warning { background: #9a6700; }
+.severity-suggestion { background: #0969da; }
+.severity-info { background: #57606a; }
+.bad { border-left: 4px solid #cf222e; }
+.good { border-left: 4px solid #1a7f37; }
+`;
+
+/**
+ * Renders effective practices to documentation formats.
+ *
+ * JSON and YAML exports are a single style guide that parses with
+ * `StyleGuideSchema`, so they can be loaded back as a structured source.
+ * Markdown is one handbook; HTML is a static site with category and language
+ * indexes and a page per practice; CSV has one row per practice.
+ */
+export class PracticeExporter {
+  private documents: Document[];
+  private practices: Practice[];
+  private title: string;
+  private description?: string;
+
+  constructor(documents: Document[], options: ExportOptions = {}) {
+    this.documents = [...documents].sort((a, b) =>
+      String(a.metadata.category).localeCompare(String(b.metadata.category)) ||
+      SEVERITY_RANK[(b.metadata.severity as PracticeSeverity) || 'suggestion'] -
+        SEVERITY_RANK[(a.metadata.severity as PracticeSeverity) || 'suggestion'] ||
+      (a.title || '').localeCompare(b.title || '')
+    );
+    this.practices = this.documents.map(practiceFromDocument);
+    this.title = options.title || 'Best Practices';
+    this.description = options.description;
+  }
+
+  /**
+   * Files making up the export
+   */
+  export(format: ExportFormat): ExportedFile[] {
+    switch (format) {
+      case 'json':
+        return [{ path: 'best-practices.json', content: `${JSON.stringify(this.toStyleGuide(), null, 2)}\n` }];
+      case 'yaml':
+        return [{ path: 'best-practices.yaml', content: yaml.dump(this.toStyleGuide(), { lineWidth: 100, noRefs: true }) }];
+      case 'markdown':
+        return [{ path: 'handbook.md', content: this.toMarkdown() }];
+      case 'csv':
+        return [{ path: 'practices.csv', content: this.toCsv() }];
+      case 'html':
+        return this.toHtml();
+    }
+  }
+
+  /**
+   * The practices as one style guide; each practice keeps its own language
+   */
+  toStyleGuide(): StyleGuide {
+    // Drop unset fields so the output only holds what was declared
+    const practices = this.practices.map(p => JSON.parse(JSON.stringify(p)) as Practice);
+    return StyleGuideSchema.parse({
+      name: this.title,
+      language: 'general',
+      description: this.description,
+      practices,
+    });
+  }
+
+  private toMarkdown(): string {
+    const overview = formatStyleGuideOverview({
+      name: this.title,
+      language: 'general',
+      description: this.description,
+      practices: this.practices,
+    });
+    const parts = [overview.trimEnd()];
+
+    let category = '';
+    for (const practice of this.practices) {
+      if (practice.category !== category) {
+        category = practice.category;
+        parts.push('', '---', '', `## ${category}`);
+      }
+      parts.push('', demoteHeadings(formatPracticeContent(practice), 2));
+    }
+
+    return `${parts.join('\n')}\n`;
+  }
+
+  private toCsv(): string {
+    const rows = this.practices.map((practice, i) => {
+      const doc = this.documents[i];
+      const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+        id: practice.id,
+        title: practice.title,
+        category: practice.category,
+        severity: practice.severity,
+        language: practice.language,
+        framework: practice.framework || '',
+        status: practice.status || 'active',
+        tags: (practice.tags || []).join('; '),
+        lintRules: (practice.lintRules || []).join('; '),
+        mappings: Object.entries(practice.mappings || {}).map(([framework, ids]) => `${framework}: ${ids.join(', ')}`).join('; '),
+        description: practice.description,
+        source: (doc.metadata.source as string) || '',
+        documentId: doc.id,
+      };
+      return CSV_COLUMNS.map(column => csvField(values[column])).join(',');
+    });
+
+    return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+  }
+
+  private toHtml(): ExportedFile[] {
+    const byCategory = groupBy(this.practices, p => p.category);
+    const byLanguage = groupBy(this.practices, p => p.language);
+    const files: ExportedFile[] = [{ path: 'style.css', content: STYLESHEET }];
+
+    const indexList = (dir: string, groups: Map<string, Practice[]>) =>
+      `<ul>\n${[...groups].map(([name, list]) =>
+        `<li><a href="${dir}/${fileName(name)}.html">${escapeHtml(name)}</a> (${list.length})</li>`
+      ).join('\n')}\n</ul>`;
+
+    files.push({
+      path: 'index.html',
+      content: page(this.title, 0, [
+        `<h1>${escapeHtml(this.title)}</h1>`,
+        this.description ? paragraphs(this.description) : '',
+        `<p>${this.practices.length} practices</p>`,
+        '<h2>Categories</h2>',
+        indexList('categories', byCategory),
+        '<h2>Languages</h2>',
+        indexList('languages', byLanguage),
+      ].join('\n'), this.title),
+    });
+
+    for (const [dir, groups] of [['categories', byCategory], ['languages', byLanguage]] as const) {
+      for (const [name, list] of groups) {
+        files.push({
+          path: `${dir}/${fileName(name)}.html`,
+          content: page(name, 1, `<h1>${escapeHtml(name)}</h1>\n${this.practiceList(list)}`, this.title),
+        });
+      }
+    }
+
+    for (const practice of this.practices) {
+      files.push({
+        path: `practices/${fileName(practice.id)}.html`,
+        content: page(practice.title, 1, this.practicePage(practice), this.title),
+      });
+    }
+
+    return files;
+  }
+
+  private practiceList(practices: Practice[]): string {
+    return `<ul>\n${practices.map(p =>
+      `<li>${severityBadge(p.severity)} <a href="../practices/${fileName(p.id)}.html">${escapeHtml(p.title)}</a>` +
+      ` <small>${escapeHtml([p.category, p.language, p.framework].filter(Boolean).join(' · '))}</small></li>`
+    ).join('\n')}\n</ul>`;
+  }
+
+  private practicePage(practice: Practice): string {
+    const parts = [
+      `<h1>${escapeHtml(practice.title)}</h1>`,
+      `<p>${severityBadge(practice.severity)} <code>${escapeHtml(practice.id)}</code> · ` +
+        `<a href="../categories/${fileName(practice.category)}.html">${escapeHtml(practice.category)}</a> · ` +
+        `<a href="../languages/${fileName(practice.language)}.html">${escapeHtml(practice.language)}</a>` +
+        (practice.status && practice.status !== 'active' ? ` · ${escapeHtml(practice.status)}` : '') +
+        '</p>',
+      paragraphs(practice.description),
+    ];
+
+    if (practice.replacedBy) {
+      const replacement = this.exportedPractice(practice.replacedBy);
+      const label = `<code>${escapeHtml(practice.replacedBy)}</code>`;
+      parts.push(replacement
+        ? `<p>Replaced by <a href="${fileName(replacement.id)}.html">${label}</a></p>`
+        : `<p>Replaced by ${label}</p>`);
+    }
+    if (practice.rationale) {
+      parts.push('<h2>Rationale</h2>', paragraphs(practice.rationale));
+    }
+    if (practice.goodExample) {
+      parts.push('<h2>Good Example</h2>', `<pre class="good"><code>${escapeHtml(practice.goodExample)}</code></pre>`);
+    }
+    if (practice.badExample) {
+      parts.push('<h2>Bad Example</h2>', `<pre class="bad"><code>${escapeHtml(practice.badExample)}</code></pre>`);
+    }
+    if (practice.exceptions?.length) {
+      parts.push('<h2>Exceptions</h2>', listHtml(practice.exceptions));
+    }
+    if (practice.lintRules?.length) {
+      parts.push('<h2>Lint Rules</h2>', listHtml(practice.lintRules.map(rule => `\`${rule}\``)));
+    }
+    if (practice.mappings && Object.keys(practice.mappings).length > 0) {
+      parts.push('<h2>Mappings</h2>', listHtml(Object.entries(practice.mappings).map(([framework, ids]) => `${framework}: ${ids.join(', ')}`)));
+    }
+    if (practice.references?.length) {
+      parts.push('<h2>References</h2>', `<ul>\n${practice.references.map(ref =>
+        /^https?:\/\//.test(ref)
+          ? `<li><a href="${escapeHtml(ref)}">${escapeHtml(ref)}</a></li>`
+          : `<li>${inline(ref)}</li>`
+      ).join('\n')}\n</ul>`);
+    }
+    if (practice.tags?.length) {
+      parts.push(`<p>Tags: ${practice.tags.map(tag => `<code>${escapeHtml(tag)}</code>`).join(' ')}</p>`);
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Exported practice a reference names by ID, document ID or former ID
+   */
+  private exportedPractice(ref: string): Practice | undefined {
+    const id = ref.slice(ref.lastIndexOf('#') + 1);
+    return this.practices.find(p => p.id === id)
+      || this.practices.find(p => p.aliases?.includes(id));
+  }
+}
+
+function page(title: string, depth: number, body: string, siteTitle: string): string {
+  const root = '../'.repeat(depth);
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title === siteTitle ? title : `${title} · ${siteTitle}`)}</title>`,
+    `<link rel="stylesheet" href="${root}style.css">`,
+    '</head>',
+    '<body>',
+    `<nav><a href="${root}index.html">${escapeHtml(siteTitle)}</a></nav>`,
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function severityBadge(severity: PracticeSeverity): string {
+  return `<span class="severity severity-${severity}">${severity}</span>`;
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => `<p>${inline(block)}</p>`)
+    .join('\n');
+}
+
+function listHtml(items: string[]): string {
+  return `<ul>\n${items.map(item => `<li>${inline(item)}</li>`).join('\n')}\n</ul>`;
+}
+
+/**
+ * Escaped text with `code` spans
+ */
+function inline(text: string): string {
+  return escapeHtml(text).replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function fileName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Push markdown headings outside code fences down by `levels`
+ */
+function demoteHeadings(markdown: string, levels: number): string {
+  let inFence = false;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (line.trimStart().startsWith('```')) inFence = !inFence;
+      return !inFence && /^#{1,6} /.test(line) ? `${'#'.repeat(levels)}${line}` : line;
+    })
+    .join('\n');
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const list = groups.get(key(item)) || [];
+    list.push(item);
+    groups.set(key(item), list);
+  }
+  return new Map([...groups].sort(([a], [b]) => a.localeCompare(b)));
+}
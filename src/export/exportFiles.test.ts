@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveExportDir, writeExportedFiles } from './exportFiles.js';
+
+describe('export files', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'practice-export-')));
+    await fs.mkdir(path.join(root, 'exports'));
+    await fs.symlink(os.tmpdir(), path.join(root, 'exports', 'escape'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('resolves output directories inside the export root only', async () => {
+    const exportRoot = path.join(root, 'exports');
+
+    await expect(resolveExportDir(exportRoot, 'site')).resolves.toBe(path.join(exportRoot, 'site'));
+    await expect(resolveExportDir(exportRoot, '../elsewhere')).rejects.toThrow(/inside the export root/);
+    await expect(resolveExportDir(exportRoot, '/etc')).rejects.toThrow(/inside the export root/);
+    await expect(resolveExportDir(exportRoot, 'escape/site')).rejects.toThrow(/inside the export root/);
+  });
+
+  it('replaces files it wrote and refuses to overwrite others', async () => {
+    const dir = path.join(root, 'site');
+    const files = [{ path: 'index.html', content: 'one' }, { path: 'practices/a.html', content: 'a' }];
+
+    expect(await writeExportedFiles(dir, files)).toEqual([path.join(dir, 'index.html'), path.join(dir, 'practices/a.html')]);
+    await writeExportedFiles(dir, [{ path: 'index.html', content: 'two' }]);
+    expect(await fs.readFile(path.join(dir, 'index.html'), 'utf-8')).toBe('two');
+
+    await fs.writeFile(path.join(dir, 'notes.md'), 'mine', 'utf-8');
+    await expect(writeExportedFiles(dir, [{ path: 'index.html', content: 'three' }, { path: 'notes.md', content: 'x' }]))
+      .rejects.toThrow(/Refusing to overwrite .*notes\.md/);
+    expect(await fs.readFile(path.join(dir, 'notes.md'), 'utf-8')).toBe('mine');
+    expect(await fs.readFile(path.join(dir, 'index.html'), 'utf-8')).toBe('two');
+  });
+});
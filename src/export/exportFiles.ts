@@ -0,0 +1,88 @@
+import type { Stats } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ExportedFile } from '../types/index.js';
+
+/**
+ * Lists the files earlier exports wrote to a directory
+ */
+const EXPORT_MANIFEST = '.practices-export.json';
+
+/**
+ * Resolve `outputDir` under `root`, refusing paths that leave it, also
+ * through symlinked directories
+ */
+export async function resolveExportDir(root: string, outputDir: string): Promise<string> {
+  const rootDir = await fs.realpath(path.resolve(root));
+  const target = await realpathOfExisting(path.resolve(rootDir, outputDir));
+  const relative = path.relative(rootDir, target);
+
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`outputDir must be inside the export root ${rootDir}: ${outputDir}`);
+  }
+  return target;
+}
+
+/**
+ * Write exported files under `outputDir`.
+ *
+ * Only files an earlier export wrote there may be replaced: they are listed
+ * in a manifest kept in `outputDir`. Nothing is written when any other file
+ * is in the way.
+ *
+ * @returns Absolute paths of the files written
+ */
+export async function writeExportedFiles(outputDir: string, files: ExportedFile[]): Promise<string[]> {
+  const manifestPath = path.join(outputDir, EXPORT_MANIFEST);
+  const owned = new Set(await readManifest(manifestPath));
+
+  const targets = files.map(file => ({ file, target: path.join(outputDir, file.path) }));
+  for (const { file, target } of targets) {
+    const existing = await lstat(target);
+    if (existing && (!owned.has(file.path) || !existing.isFile())) {
+      throw new Error(`Refusing to overwrite ${target}: it was not written by an earlier export`);
+    }
+  }
+
+  for (const { file, target } of targets) {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content, 'utf-8');
+    owned.add(file.path);
+  }
+  await fs.writeFile(manifestPath, `${JSON.stringify({ files: [...owned].sort() }, null, 2)}\n`, 'utf-8');
+
+  return targets.map(({ target }) => target);
+}
+
+async function readManifest(manifestPath: string): Promise<string[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as { files?: unknown };
+    return Array.isArray(data.files) ? data.files.filter((f): f is string => typeof f === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+async function lstat(filePath: string): Promise<Stats | undefined> {
+  try {
+    return await fs.lstat(filePath);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Real path of the deepest existing ancestor, joined with the rest
+ */
+async function realpathOfExisting(filePath: string): Promise<string> {
+  let current = filePath;
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), path.relative(current, filePath));
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return filePath;
+      current = parent;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { PracticeExporter, type ExportOptions } from './PracticeExporter.js';
+export { resolveExportDir, writeExportedFiles } from './exportFiles.js';
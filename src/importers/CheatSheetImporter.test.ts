@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { CheatSheetImporter } from './CheatSheetImporter.js';
+
+const context = {
+  logger: { info() {}, warn() {}, error() {}, debug() {} },
+} as unknown as SourceContext;
+
+const SHEET = `# Session Management Cheat Sheet
+
+## Introduction
+
+Sessions tie requests to a user.
+
+## Regenerate IDs after login
+
+Issue a new session ID when privileges change, see [session fixation](https://owasp.org/www-community/attacks/Session_fixation).
+
+### Bad
+
+\`\`\`js
+req.session.user = user;
+\`\`\`
+
+## Set cookie flags
+<!-- practice: { id: cookie-flags, category: security, severity: error } -->
+
+Mark session cookies Secure and HttpOnly.
+
+## References
+
+- [OWASP](https://owasp.org)
+`;
+
+describe('CheatSheetImporter', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'cheatsheets-'));
+    await fs.mkdir(path.join(root, 'cheatsheets'));
+    await fs.writeFile(path.join(root, 'cheatsheets/Session_Management_Cheat_Sheet.md'), SHEET, 'utf-8');
+    await fs.writeFile(path.join(root, 'README.md'), '# Cheat sheets\n\n## About\n\nIndex.\n', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('imports a practice per recommendation section', async () => {
+    const importer = new CheatSheetImporter({ name: 'owasp', type: 'local', path: root, format: 'markdown', importer: 'cheatsheet' });
+    const [imported, ...rest] = await importer.import(root, context);
+    const url = 'https://cheatsheetseries.owasp.org/cheatsheets/Session_Management_Cheat_Sheet.html';
+
+    expect(rest).toEqual([]);
+    expect(imported.path).toBe('cheatsheets/Session_Management_Cheat_Sheet.md');
+    expect(imported.guide).toMatchObject({
+      name: 'Session Management Cheat Sheet',
+      description: 'Sessions tie requests to a user.',
+      metadata: { importer: 'cheatsheet', url },
+    });
+    expect(imported.guide.practices.map(p => [p.id, p.category, p.severity])).toEqual([
+      ['session-management-regenerate-ids-after-login', 'security', 'suggestion'],
+      ['cookie-flags', 'security', 'error'],
+    ]);
+    expect(imported.guide.practices[0]).toMatchObject({
+      badExample: 'req.session.user = user;',
+      references: ['https://owasp.org/www-community/attacks/Session_fixation', url],
+      tags: ['cheatsheet', 'session-management', 'js'],
+    });
+    expect(imported.attribution['cookie-flags']).toEqual({
+      importer: 'cheatsheet',
+      origin: 'Session Management Cheat Sheet › Set cookie flags',
+      url,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { glob } from 'glob';
+import type { SourceContext } from '@xorng/template-knowledge';
+import {
+  StyleGuideSchema,
+  type ImportedGuide,
+  type Practice,
+  type PracticeAttribution,
+  type SourceConfig,
+} from '../types/index.js';
+import { MarkdownPracticeParser } from '../sources/MarkdownPracticeParser.js';
+import { markdownLinks, slugify, splitSections, type PracticeImporter } from './common.js';
+
+/**
+ * Sections that frame a cheat sheet rather than recommend anything
+ */
+const SKIPPED_SECTIONS = /^(?:introduction|overview|background|contents|table of contents|references?|further reading|related (?:articles|cheat ?sheets)|authors?(?: and primary editors)?|other cheat ?sheets)$/i;
+
+/**
+ * Imports OWASP-style cheat sheets: one markdown file per topic, titled by
+ * its H1, with a recommendation per section.
+ *
+ * Sections are parsed like markdown guides (the configured heading depth,
+ * H2 by default), so metadata comments and Good/Bad subsections work as
+ * usual. Inferred categories default to security and inferred IDs are
+ * prefixed with the sheet name. Links in a section become its references,
+ * along with the sheet's page on cheatsheetseries.owasp.org for files named
+ * like the OWASP series (`*_Cheat_Sheet.md`) or a `url` in the frontmatter.
+ */
+export class CheatSheetImporter implements PracticeImporter {
+  private config: SourceConfig;
+  private parser: MarkdownPracticeParser;
+
+  constructor(config: SourceConfig) {
+    this.config = config;
+    this.parser = new MarkdownPracticeParser({ headingDepth: config.headingDepth });
+  }
+
+  async import(root: string, context: SourceContext): Promise<ImportedGuide[]> {
+    const files = (await glob('**/*.md', {
+      cwd: root,
+      ignore: ['**/node_modules/**', '**/README.md', '**/CONTRIBUTING.md', '**/CHANGELOG.md'],
+    })).sort();
+    const guides: ImportedGuide[] = [];
+
+    for (const relativePath of files) {
+      try {
+        const guide = this.importSheet(relativePath, await fs.readFile(path.join(root, relativePath), 'utf-8'));
+        if (guide) guides.push(guide);
+      } catch (error) {
+        context.logger.warn({ file: relativePath, error }, 'Failed to import cheat sheet');
+      }
+    }
+
+    return guides;
+  }
+
+  private importSheet(relativePath: string, content: string): ImportedGuide | undefined {
+    const { body, frontmatter, practices: parsed } = this.parser.parse(content);
+    const fileName = path.basename(relativePath, '.md');
+    const outline = splitSections(body);
+    const title = String(frontmatter.title || outline.title || fileName.replace(/_/g, ' '));
+    const sheet = title.replace(/\s*cheat\s*sheet\s*$/i, '').trim() || title;
+    const url = frontmatter.url
+      ? String(frontmatter.url)
+      : /_Cheat_Sheet$/.test(fileName) ? `https://cheatsheetseries.owasp.org/cheatsheets/${fileName}.html` : undefined;
+
+    const practices: Practice[] = [];
+    const attribution: Record<string, PracticeAttribution> = {};
+    for (const { practice, inferred } of parsed) {
+      if (SKIPPED_SECTIONS.test(practice.title.trim())) continue;
+
+      const id = inferred.includes('id') ? slugify(`${sheet}-${practice.id}`) : practice.id;
+      practices.push({
+        ...practice,
+        id,
+        category: inferred.includes('category') ? 'security' : practice.category,
+        language: practice.language !== 'general' ? practice.language : this.config.language || 'general',
+        framework: practice.framework || this.config.framework,
+        references: [...new Set([
+          ...(practice.references || []),
+          ...markdownLinks(practice.description),
+          ...(url ? [url] : []),
+        ])],
+        tags: [...new Set(['cheatsheet', slugify(sheet), ...(practice.tags || [])])],
+      });
+      attribution[id] = { importer: 'cheatsheet', origin: `${title} › ${practice.title}`, url };
+    }
+    if (practices.length === 0) return undefined;
+
+    return {
+      path: relativePath,
+      guide: StyleGuideSchema.parse({
+        name: title,
+        language: this.config.language || 'general',
+        framework: this.config.framework,
+        description: outline.intro || outline.sections.find(s => /^introduction$/i.test(s.heading))?.body || undefined,
+        practices,
+        metadata: { importer: 'cheatsheet', url },
+      }),
+      attribution,
+    };
+  }
+}
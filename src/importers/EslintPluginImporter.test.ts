@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { EslintPluginImporter, parseRuleMeta, rulePrefix } from './EslintPluginImporter.js';
+
+const context = {
+  logger: { info() {}, warn() {}, error() {}, debug() {} },
+} as unknown as SourceContext;
+
+const NO_EVAL = `'use strict';
+// meta: { type: 'layout' } in a comment is ignored
+globalThis.__eslintRuleLoaded = true;
+
+module.exports = {
+  meta: {
+    type: 'problem',
+    /* deprecated: true, */
+    docs: {
+      description: 'Disallow eval() on request data.',
+      category: 'Security',
+      recommended: 'error',
+      url: \`https://example.com/rules/no-eval\`,
+    },
+    schema: [{ type: 'object', properties: { allow: { type: 'array' } } }],
+    messages: { unexpected: "Don't call eval, it's unsafe" },
+  },
+  create(context) {
+    return {};
+  },
+};
+`;
+
+const OLD_STYLE = `export default {
+  meta: {
+    type: "suggestion",
+    deprecated: true,
+    replacedBy: ["no-eval", { rule: "other" }],
+    fixable: "code",
+    docs: { description: \`Prefer \${name} rules\` },
+  },
+  create: () => ({}),
+};
+`;
+
+const NO_EVAL_DOCS = `# Disallow eval on request data (no-eval)
+
+Calling eval on request data runs attacker code.
+
+## Rule Details
+
+This rule reports eval calls.
+
+Examples of **incorrect** code for this rule:
+
+\`\`\`js
+eval(req.body.code);
+\`\`\`
+
+Examples of **correct** code for this rule:
+
+\`\`\`js
+JSON.parse(req.body.code);
+\`\`\`
+
+## When Not To Use It
+
+Build scripts that never see request data.
+
+## Further Reading
+
+- [MDN eval](https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/eval)
+`;
+
+describe('parseRuleMeta', () => {
+  it('reads literal meta values without running the rule', () => {
+    expect(parseRuleMeta(NO_EVAL)).toEqual({
+      type: 'problem',
+      docs: {
+        description: 'Disallow eval() on request data.',
+        category: 'Security',
+        recommended: true,
+        url: 'https://example.com/rules/no-eval',
+      },
+    });
+    expect((globalThis as Record<string, unknown>).__eslintRuleLoaded).toBeUndefined();
+  });
+
+  it('reads deprecation and skips interpolated strings', () => {
+    expect(parseRuleMeta(OLD_STYLE)).toEqual({
+      type: 'suggestion',
+      deprecated: true,
+      replacedBy: ['no-eval'],
+      fixable: 'code',
+      docs: {},
+    });
+    expect(parseRuleMeta('module.exports = { create() {} };')).toBeUndefined();
+  });
+});
+
+describe('rulePrefix', () => {
+  it('derives the rule prefix from the package name', () => {
+    expect(rulePrefix('eslint-plugin-react')).toBe('react');
+    expect(rulePrefix('@scope/eslint-plugin')).toBe('@scope');
+    expect(rulePrefix('@scope/eslint-plugin-foo')).toBe('@scope/foo');
+  });
+});
+
+describe('EslintPluginImporter', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'eslint-plugin-'));
+    await fs.mkdir(path.join(root, 'lib/rules/prefer-json'), { recursive: true });
+    await fs.mkdir(path.join(root, 'docs/rules'), { recursive: true });
+    await fs.writeFile(path.join(root, 'package.json'), JSON.stringify({
+      name: 'eslint-plugin-demo',
+      version: '1.2.0',
+      main: 'lib/index.js',
+    }), 'utf-8');
+    await fs.writeFile(path.join(root, 'lib/index.js'), 'throw new Error("plugin code ran");\n', 'utf-8');
+    await fs.writeFile(path.join(root, 'lib/rules/no-eval.js'), NO_EVAL, 'utf-8');
+    await fs.writeFile(path.join(root, 'lib/rules/prefer-json/index.js'), OLD_STYLE, 'utf-8');
+    await fs.writeFile(path.join(root, 'lib/rules/no-eval.test.js'), 'throw new Error("test ran");\n', 'utf-8');
+    await fs.writeFile(path.join(root, 'docs/rules/no-eval.md'), NO_EVAL_DOCS, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('imports rules from their source and docs', async () => {
+    const importer = new EslintPluginImporter({ name: 'demo', type: 'local', path: root, format: 'yaml', importer: 'eslint-plugin' });
+    const [imported] = await importer.import(root, context);
+    const [noEval, preferJson] = imported.guide.practices;
+
+    expect(imported.path).toBe('package.json');
+    expect(imported.guide).toMatchObject({ name: 'eslint-plugin-demo rules', version: '1.2.0', language: 'javascript' });
+    expect(imported.guide.practices.map(p => p.id)).toEqual(['eslint-demo-no-eval', 'eslint-demo-prefer-json']);
+    expect(noEval).toMatchObject({
+      title: 'Disallow eval() on request data',
+      category: 'security',
+      severity: 'error',
+      lintRules: ['demo/no-eval'],
+      badExample: 'eval(req.body.code);',
+      goodExample: 'JSON.parse(req.body.code);',
+      rationale: 'This rule reports eval calls.',
+      exceptions: ['Build scripts that never see request data.'],
+      references: [
+        'https://example.com/rules/no-eval',
+        'https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/eval',
+      ],
+      tags: ['eslint', 'problem', 'recommended'],
+    });
+    expect(preferJson).toMatchObject({
+      severity: 'suggestion',
+      status: 'deprecated',
+      replacedBy: 'eslint-demo-no-eval',
+      tags: ['eslint', 'suggestion', 'fixable'],
+    });
+    expect(imported.attribution['eslint-demo-no-eval']).toEqual({
+      importer: 'eslint-plugin',
+      origin: 'demo/no-eval',
+      url: 'https://example.com/rules/no-eval',
+    });
+    expect((globalThis as Record<string, unknown>).__eslintRuleLoaded).toBeUndefined();
+  });
+});
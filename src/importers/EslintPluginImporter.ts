@@ -0,0 +1,343 @@
+import * as path from 'path';
+import { glob } from 'glob';
+import type { SourceContext } from '@xorng/template-knowledge';
+import {
+  StyleGuideSchema,
+  type ImportedGuide,
+  type Practice,
+  type PracticeAttribution,
+  type PracticeCategory,
+  type PracticeSeverity,
+  type SourceConfig,
+} from '../types/index.js';
+import {
+  humanize,
+  labelledExamples,
+  markdownLinks,
+  proseParagraphs,
+  readOptional,
+  slugify,
+  splitSections,
+  type PracticeImporter,
+} from './common.js';
+
+/**
+ * The parts of an ESLint rule's `meta` used for practices
+ */
+interface RuleMeta {
+  type?: string;
+  deprecated?: boolean;
+  replacedBy?: unknown[];
+  fixable?: string;
+  hasSuggestions?: boolean;
+  docs?: {
+    description?: string;
+    category?: string;
+    recommended?: unknown;
+    url?: string;
+  };
+}
+
+const TYPE_SEVERITY: Record<string, PracticeSeverity> = {
+  problem: 'warning',
+  suggestion: 'suggestion',
+  layout: 'info',
+};
+
+const TYPE_CATEGORY: Record<string, PracticeCategory> = {
+  problem: 'general',
+  suggestion: 'general',
+  layout: 'formatting',
+};
+
+/**
+ * Categories of older ESLint rule docs (`meta.docs.category`)
+ */
+const DOCS_CATEGORY: Record<string, PracticeCategory> = {
+  'possible errors': 'error-handling',
+  'stylistic issues': 'formatting',
+  'variables': 'naming',
+  'security': 'security',
+  'performance': 'performance',
+};
+
+const DOCS_DIRS = ['docs/rules', 'docs'];
+
+const RULE_DIRS = ['lib/rules', 'src/rules', 'rules'];
+
+const RULE_FILES = ['*.{js,cjs,mjs,ts}', '*/index.{js,cjs,mjs,ts}'];
+
+/**
+ * Imports the rules of a local ESLint plugin.
+ *
+ * Rule metadata (`meta.type`, `meta.docs`, deprecation) is read from the
+ * rule modules in `lib/rules`, `src/rules` or `rules` without running them:
+ * plugins may come from git, so their code is never loaded. Only literal
+ * values are understood. The rule docs in `docs/rules/<rule>.md` supply the
+ * rationale, correct/incorrect examples and "When Not To Use It" exceptions;
+ * without rule modules every doc page stands for a rule. Recommended problem
+ * rules become errors, other problems warnings, suggestions suggestions and
+ * layout rules info.
+ */
+export class EslintPluginImporter implements PracticeImporter {
+  private config: SourceConfig;
+
+  constructor(config: SourceConfig) {
+    this.config = config;
+  }
+
+  async import(root: string, context: SourceContext): Promise<ImportedGuide[]> {
+    const manifest = await readOptional(path.join(root, 'package.json'));
+    const pkg = manifest ? JSON.parse(manifest) as { name?: string; version?: string; description?: string } : {};
+    const pluginName = pkg.name || path.basename(path.resolve(root));
+    const prefix = this.config.rulePrefix ?? rulePrefix(pluginName);
+
+    const { dir: rulesDir, rules } = await this.readRules(root);
+    const docsDir = await this.findDocsDir(root);
+    const docFiles = docsDir ? await glob('*.md', { cwd: path.join(root, docsDir) }) : [];
+    // Without rule modules, every doc page stands for a rule
+    const names = (Object.keys(rules).length > 0
+      ? Object.keys(rules)
+      : docFiles.map(file => path.basename(file, '.md')).filter(name => name.toLowerCase() !== 'readme')
+    ).sort();
+
+    if (names.length === 0) {
+      context.logger.warn({ path: root }, 'No ESLint rules found');
+      return [];
+    }
+
+    const practiceId = (name: string) => slugify(`eslint-${prefix}-${name}`);
+    const ruleId = (name: string) => prefix ? `${prefix}/${name}` : name;
+    const practices: Practice[] = [];
+    const attribution: Record<string, PracticeAttribution> = {};
+
+    for (const name of names) {
+      const meta = rules[name]?.meta || {};
+      const docs = docsDir ? await readOptional(path.join(root, docsDir, `${name}.md`)) : undefined;
+      const practice = this.toPractice(name, meta, docs, practiceId, ruleId);
+      practices.push(practice);
+      attribution[practice.id] = { importer: 'eslint-plugin', origin: ruleId(name), url: meta.docs?.url };
+    }
+
+    const guide = StyleGuideSchema.parse({
+      name: `${pluginName} rules`,
+      version: pkg.version,
+      language: this.config.language || 'javascript',
+      framework: this.config.framework,
+      description: pkg.description,
+      practices,
+      metadata: { importer: 'eslint-plugin', plugin: pluginName },
+    });
+
+    return [{ path: manifest ? 'package.json' : (rulesDir || docsDir)!, guide, attribution }];
+  }
+
+  private toPractice(
+    name: string,
+    meta: RuleMeta,
+    docs: string | undefined,
+    practiceId: (name: string) => string,
+    ruleId: (name: string) => string
+  ): Practice {
+    const { intro, sections } = splitSections(docs || '');
+    const section = (pattern: RegExp) => sections.find(s => pattern.test(s.heading))?.body;
+    const details = section(/^rule details$/i);
+    const introParagraphs = proseParagraphs(intro);
+    const summary = capitalize(
+      meta.docs?.description?.replace(/\.$/, '')
+      || introParagraphs.find(p => p.length <= 100)?.replace(/\.$/, '')
+      || humanize(name)
+    );
+    const examples = labelledExamples(docs || '');
+    const whenNot = proseParagraphs(section(/^when not to use/i) || '');
+    const furtherReading = markdownLinks(section(/^(further reading|resources|references)$/i) || '');
+
+    // Newer plugins may describe replacements as objects; only rule names are followed
+    const replacement = meta.replacedBy?.find((rule): rule is string => typeof rule === 'string');
+    const type = meta.type || 'suggestion';
+    const recommended = !!meta.docs?.recommended;
+    const docsCategory = DOCS_CATEGORY[(meta.docs?.category || '').toLowerCase()];
+    const tags = ['eslint', type];
+    if (meta.fixable) tags.push('fixable');
+    if (meta.hasSuggestions) tags.push('has-suggestions');
+    if (recommended) tags.push('recommended');
+
+    return {
+      id: practiceId(name),
+      title: summary,
+      description: [`${summary}.`, ...introParagraphs.filter(p => p.replace(/\.$/, '') !== summary)].join('\n\n'),
+      category: docsCategory || TYPE_CATEGORY[type] || 'general',
+      severity: type === 'problem' && recommended ? 'error' : TYPE_SEVERITY[type] || 'suggestion',
+      language: this.config.language || 'javascript',
+      framework: this.config.framework,
+      goodExample: examples.good,
+      badExample: examples.bad,
+      rationale: details ? proseParagraphs(details).filter(p => !/:$/.test(p)).join('\n\n') || undefined : undefined,
+      exceptions: whenNot.length > 0 ? whenNot : undefined,
+      lintRules: [ruleId(name)],
+      references: [...new Set([meta.docs?.url, ...furtherReading].filter((ref): ref is string => !!ref))],
+      tags,
+      status: meta.deprecated ? 'deprecated' : undefined,
+      replacedBy: meta.deprecated && replacement ? practiceId(replacement) : undefined,
+    };
+  }
+
+  /**
+   * `meta` of each rule module in the first rules directory that has any
+   */
+  private async readRules(root: string): Promise<{ dir?: string; rules: Record<string, { meta?: RuleMeta }> }> {
+    for (const dir of RULE_DIRS) {
+      const files = (await glob(RULE_FILES, { cwd: path.join(root, dir) }))
+        .filter(file => !/\.d\.ts$|\.(test|spec)\.\w+$/.test(file) && !/^index\.\w+$/.test(file))
+        .sort();
+      if (files.length === 0) continue;
+
+      const rules: Record<string, { meta?: RuleMeta }> = {};
+      for (const file of files) {
+        const source = await readOptional(path.join(root, dir, file));
+        const name = path.basename(file).startsWith('index.') ? path.dirname(file) : path.basename(file, path.extname(file));
+        rules[name] = { meta: source !== undefined ? parseRuleMeta(source) : undefined };
+      }
+      return { dir, rules };
+    }
+    return { rules: {} };
+  }
+
+  private async findDocsDir(root: string): Promise<string | undefined> {
+    for (const dir of DOCS_DIRS) {
+      if ((await glob('*.md', { cwd: path.join(root, dir) })).length > 0) return dir;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Rule prefix of a plugin package: eslint-plugin-react -> react,
+ * @scope/eslint-plugin -> @scope, @scope/eslint-plugin-foo -> @scope/foo
+ */
+export function rulePrefix(packageName: string): string {
+  const scoped = /^(@[^/]+)\/eslint-plugin(?:-(.+))?$/.exec(packageName);
+  if (scoped) return scoped[2] ? `${scoped[1]}/${scoped[2]}` : scoped[1];
+  return packageName.replace(/^eslint-plugin-/, '');
+}
+
+/**
+ * The literal parts of the `meta` object in a rule module's source
+ */
+export function parseRuleMeta(source: string): RuleMeta | undefined {
+  const code = stripComments(source);
+  const start = /\bmeta\s*:\s*\{/.exec(code);
+  if (!start) return undefined;
+
+  const meta = objectEntries(code, start.index + start[0].length - 1);
+  const docs = meta.get('docs')?.startsWith('{') ? objectEntries(meta.get('docs')!, 0) : new Map<string, string>();
+  const replacedBy = meta.get('replacedBy');
+
+  return {
+    type: stringLiteral(meta.get('type')),
+    deprecated: meta.get('deprecated') === 'true' || undefined,
+    // Replacements described as objects are left out
+    replacedBy: replacedBy?.startsWith('[')
+      ? topLevelItems(replacedBy, 0).map(stringLiteral).filter((rule): rule is string => rule !== undefined)
+      : undefined,
+    fixable: stringLiteral(meta.get('fixable')),
+    hasSuggestions: meta.get('hasSuggestions') === 'true' || undefined,
+    docs: {
+      description: stringLiteral(docs.get('description')),
+      category: stringLiteral(docs.get('category')),
+      // Plugins use booleans, config names or per-config objects
+      recommended: docs.has('recommended') && docs.get('recommended') !== 'false' ? true : undefined,
+      url: stringLiteral(docs.get('url')),
+    },
+  };
+}
+
+/**
+ * Top-level `key: value` source text of the object literal opening at `open`
+ */
+function objectEntries(code: string, open: number): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const item of topLevelItems(code, open)) {
+    const entry = /^(?:(['"])(.*?)\1|([\w$]+))\s*:\s*([\s\S]*)$/.exec(item);
+    if (entry) entries.set(entry[2] ?? entry[3], entry[4]);
+  }
+  return entries;
+}
+
+/**
+ * Source text of the comma-separated items of the object or array literal
+ * opening at `open`
+ */
+function topLevelItems(code: string, open: number): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let itemStart = open + 1;
+
+  for (let i = open; i < code.length; i++) {
+    const char = code[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = skipString(code, i);
+    } else if (char === '{' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '}' || char === ']' || char === ')' || (char === ',' && depth === 1)) {
+      if (depth === 1) {
+        const item = code.slice(itemStart, i).trim();
+        if (item) items.push(item);
+        itemStart = i + 1;
+      }
+      if (char !== ',' && --depth === 0) break;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Index of the quote closing the string that opens at `start`
+ */
+function skipString(code: string, start: number): number {
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') i++;
+    else if (code[i] === code[start]) return i;
+  }
+  return code.length;
+}
+
+/**
+ * Source with comments blanked out, leaving strings alone
+ */
+function stripComments(source: string): string {
+  let out = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      const end = skipString(source, i);
+      out += source.slice(i, end + 1);
+      i = end;
+    } else if (char === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      out += '\n';
+    } else if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 1;
+      out += ' ';
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+/**
+ * Value of a plain string literal; expressions and interpolated templates
+ * give undefined
+ */
+function stringLiteral(value: string | undefined): string | undefined {
+  const match = value && /^(['"`])((?:\\.|(?!\1)[^\\])*)\1$/.exec(value);
+  if (!match || (match[1] === '`' && match[2].includes('${'))) return undefined;
+  return match[2].replace(/\\(.)/g, '$1');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
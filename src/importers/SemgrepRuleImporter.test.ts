@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { SemgrepRuleImporter } from './SemgrepRuleImporter.js';
+
+const context = {
+  logger: { info() {}, warn() {}, error() {}, debug() {} },
+} as unknown as SourceContext;
+
+const RULES = `rules:
+  - id: sql-injection
+    message: Build queries with parameters, not string concatenation.
+    severity: ERROR
+    languages: [py]
+    metadata:
+      cwe:
+        - "CWE-89: Improper Neutralization of Special Elements used in an SQL Command"
+      owasp:
+        - "A3:2021 - Injection"
+      source-rule-url: https://example.com/rules/sql-injection
+  - id: print-debugging
+    message: Remove print statements.
+    severity: INFO
+    languages: [python]
+    fix: ""
+  - message: No id
+`;
+
+const TESTS = `def handler(request):
+    # ruleid: sql-injection
+    cursor.execute("SELECT * FROM users WHERE id = " + request.args["id"])
+
+    # ok: sql-injection
+    cursor.execute("SELECT * FROM users WHERE id = %s", (request.args["id"],))
+`;
+
+describe('SemgrepRuleImporter', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'semgrep-rules-'));
+    await fs.mkdir(path.join(root, 'python/db'), { recursive: true });
+    await fs.writeFile(path.join(root, 'python/db/queries.yaml'), RULES, 'utf-8');
+    await fs.writeFile(path.join(root, 'python/db/queries.py'), TESTS, 'utf-8');
+    await fs.writeFile(path.join(root, 'broken.yml'), 'rules: [', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('imports each rule file as a guide with mappings and test examples', async () => {
+    const importer = new SemgrepRuleImporter({ name: 'semgrep', type: 'local', path: root, format: 'yaml', importer: 'semgrep' });
+    const guides = await importer.import(root, context);
+
+    expect(guides.map(g => g.path)).toEqual(['python/db/queries.yaml']);
+    const [{ guide, attribution }] = guides;
+    expect(guide.language).toBe('python');
+    expect(guide.practices.map(p => p.id)).toEqual(['semgrep-sql-injection', 'semgrep-print-debugging']);
+    expect(guide.practices[0]).toMatchObject({
+      title: 'Sql injection',
+      category: 'security',
+      severity: 'error',
+      lintRules: ['sql-injection', 'python.db.sql-injection'],
+      mappings: { cwe: ['CWE-89'], 'owasp-top10': ['A03:2021'] },
+      badExample: 'cursor.execute("SELECT * FROM users WHERE id = " + request.args["id"])',
+      goodExample: 'cursor.execute("SELECT * FROM users WHERE id = %s", (request.args["id"],))',
+    });
+    expect(guide.practices[0].tags).toEqual(expect.arrayContaining(['semgrep', 'python', 'cwe-89', 'owasp-a3-2021']));
+    expect(guide.practices[1]).toMatchObject({ category: 'general', severity: 'info' });
+    expect(attribution['semgrep-sql-injection']).toEqual({
+      importer: 'semgrep',
+      origin: 'sql-injection',
+      url: 'https://example.com/rules/sql-injection',
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { glob } from 'glob';
+import * as yaml from 'js-yaml';
+import type { SourceContext } from '@xorng/template-knowledge';
+import {
+  PracticeSchema,
+  StyleGuideSchema,
+  type ImportedGuide,
+  type Practice,
+  type PracticeAttribution,
+  type PracticeCategory,
+  type PracticeSeverity,
+  type SourceConfig,
+} from '../types/index.js';
+import { humanize, readOptional, slugify, stringList, type PracticeImporter } from './common.js';
+
+/**
+ * The parts of a Semgrep rule used for practices
+ */
+interface SemgrepRule {
+  id: string;
+  message?: string;
+  severity?: string;
+  languages?: string[];
+  fix?: string;
+  metadata?: Record<string, unknown>;
+}
+
+const SEVERITY: Record<string, PracticeSeverity> = {
+  CRITICAL: 'error',
+  ERROR: 'error',
+  HIGH: 'error',
+  WARNING: 'warning',
+  MEDIUM: 'warning',
+  LOW: 'suggestion',
+  INFO: 'info',
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  golang: 'go',
+  'c#': 'csharp',
+  rb: 'ruby',
+  kt: 'kotlin',
+  generic: 'general',
+  regex: 'general',
+  none: 'general',
+};
+
+const CATEGORIES = new Set<string>(PracticeSchema.shape.category.options);
+
+/**
+ * Imports Semgrep rule files (`rules:` lists in YAML).
+ *
+ * Each rule becomes a practice: the message is its description, Semgrep
+ * severities map onto practice severities, the rule's first language
+ * becomes the practice language and CWE/OWASP metadata becomes `mappings`,
+ * tags and references. The rule ID (and its directory-qualified form, as reported in
+ * Semgrep's SARIF output) is the practice's lint rule. Test files next to a
+ * rule, annotated with `ruleid:` and `ok:` comments, supply bad and good
+ * examples.
+ */
+export class SemgrepRuleImporter implements PracticeImporter {
+  private config: SourceConfig;
+
+  constructor(config: SourceConfig) {
+    this.config = config;
+  }
+
+  async import(root: string, context: SourceContext): Promise<ImportedGuide[]> {
+    const files = (await glob(['**/*.yaml', '**/*.yml'], {
+      cwd: root,
+      ignore: ['**/node_modules/**', '**/.github/**', '**/.pre-commit*'],
+    })).sort();
+    const guides: ImportedGuide[] = [];
+    const seen = new Set<string>();
+
+    for (const relativePath of files) {
+      let data: unknown;
+      try {
+        data = yaml.load(await fs.readFile(path.join(root, relativePath), 'utf-8'));
+      } catch (error) {
+        context.logger.warn({ file: relativePath, error }, 'Failed to parse Semgrep rule file');
+        continue;
+      }
+
+      const rules = (data as { rules?: unknown })?.rules;
+      if (!Array.isArray(rules)) continue;
+
+      const practices: Practice[] = [];
+      const attribution: Record<string, PracticeAttribution> = {};
+      for (const rule of rules as SemgrepRule[]) {
+        if (!rule || typeof rule.id !== 'string') {
+          context.logger.warn({ file: relativePath }, 'Skipping Semgrep rule without an id');
+          continue;
+        }
+
+        const practice = await this.toPractice(rule, root, relativePath, seen);
+        seen.add(practice.id);
+        practices.push(practice);
+        attribution[practice.id] = {
+          importer: 'semgrep',
+          origin: rule.id,
+          url: stringList(rule.metadata?.['source-rule-url'] ?? rule.metadata?.shortlink)[0],
+        };
+      }
+      if (practices.length === 0) continue;
+
+      const languages = new Set(practices.map(p => p.language));
+      guides.push({
+        path: relativePath,
+        guide: StyleGuideSchema.parse({
+          name: `Semgrep rules: ${relativePath}`,
+          language: languages.size === 1 ? [...languages][0] : 'general',
+          framework: this.config.framework,
+          practices,
+          metadata: { importer: 'semgrep' },
+        }),
+        attribution,
+      });
+    }
+
+    return guides;
+  }
+
+  private async toPractice(rule: SemgrepRule, root: string, relativePath: string, seen: Set<string>): Promise<Practice> {
+    const metadata = rule.metadata || {};
+    const cwe = stringList(metadata.cwe);
+    const owasp = stringList(metadata.owasp);
+    const languages = [...new Set(stringList(rule.languages).map(normalizeLanguage))];
+    const category = String(metadata.category || '').toLowerCase();
+
+    // Semgrep qualifies rule IDs with their directory when run on a folder
+    const directory = path.dirname(relativePath);
+    const qualifiedId = directory === '.' ? rule.id : `${directory.split(path.sep).join('.')}.${rule.id}`;
+    let id = slugify(`semgrep-${rule.id}`);
+    if (seen.has(id)) id = slugify(`semgrep-${qualifiedId}`);
+
+    const tags = [
+      'semgrep',
+      ...languages.filter(l => l !== 'general'),
+      ...cwe.map(entry => slugify(entry.split(':')[0])),
+      ...owasp.map(entry => slugify(`owasp-${entry.split(' ')[0]}`)),
+      ...stringList(metadata.technology).map(slugify),
+    ];
+    if (rule.fix) tags.push('autofix');
+
+    const examples = await this.testExamples(root, relativePath, rule.id);
+
+    return {
+      id,
+      title: String(metadata.title || humanize(rule.id.split('.').pop()!)),
+      description: (rule.message || humanize(rule.id)).trim(),
+      category: (CATEGORIES.has(category) ? category : cwe.length > 0 || owasp.length > 0 ? 'security' : 'general') as PracticeCategory,
+      severity: SEVERITY[String(rule.severity || '').toUpperCase()] || 'warning',
+      language: this.config.language || languages.find(l => l !== 'general') || 'general',
+      framework: this.config.framework,
+      badExample: examples.bad,
+      goodExample: examples.good,
+      lintRules: [...new Set([rule.id, qualifiedId])],
+      references: [...new Set([
+        ...stringList(metadata['source-rule-url']),
+        ...stringList(metadata.references),
+        ...cwe,
+        ...owasp,
+      ])],
+      tags: [...new Set(tags)].filter(Boolean),
+      mappings: mappings(cwe, owasp),
+    };
+  }
+
+  /**
+   * Lines following `ruleid: <id>` and `ok: <id>` comments in the rule's test
+   * files (same name, code extension)
+   */
+  private async testExamples(root: string, relativePath: string, ruleId: string): Promise<{ good?: string; bad?: string }> {
+    const base = relativePath.replace(/\.ya?ml$/, '');
+    const candidates = await glob(`${glob.escape(base)}.*`, { cwd: root });
+    const examples: { good?: string; bad?: string } = {};
+
+    for (const file of candidates.filter(f => !/\.(ya?ml|md)$/.test(f))) {
+      const lines = ((await readOptional(path.join(root, file))) || '').split('\n');
+      lines.forEach((line, index) => {
+        const match = /\b(ruleid|ok)\s*:\s*([\w.,\s-]+)/.exec(line);
+        if (!match || !match[2].split(/[,\s]+/).includes(ruleId)) return;
+        const code = lines.slice(index + 1).find(l => l.trim() !== '');
+        if (!code) return;
+        if (match[1] === 'ruleid') examples.bad ??= code.trim();
+        else examples.good ??= code.trim();
+      });
+    }
+
+    return examples;
+  }
+}
+
+/**
+ * `CWE-89: Improper Neutralization...` -> cwe `CWE-89`,
+ * `A03:2021 - Injection` -> owasp-top10 `A03:2021`
+ */
+function mappings(cwe: string[], owasp: string[]): Practice['mappings'] {
+  const result: Record<string, string[]> = {};
+  const cweIds = cwe.map(entry => /CWE-\d+/i.exec(entry)?.[0].toUpperCase()).filter((id): id is string => !!id);
+  const owaspIds = owasp
+    .map(entry => /^A(\d{1,2}):(\d{4})/i.exec(entry))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => `A${match[1].padStart(2, '0')}:${match[2]}`);
+
+  if (cweIds.length > 0) result.cwe = [...new Set(cweIds)];
+  if (owaspIds.length > 0) result['owasp-top10'] = [...new Set(owaspIds)];
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function normalizeLanguage(language: string): string {
+  const lower = language.toLowerCase();
+  return LANGUAGE_ALIASES[lower] || lower;
+}
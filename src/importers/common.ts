@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises';
+import type { SourceContext } from '@xorng/template-knowledge';
+import type { ImportedGuide } from '../types/index.js';
+
+/**
+ * Version of the importers' output; bump when an importer changes the
+ * practices it produces so cached documents are imported again
+ */
+export const IMPORTER_VERSION = 2;
+
+/**
+ * Reads a local copy of an external rule catalog and turns it into practices
+ */
+export interface PracticeImporter {
+  import(root: string, context: SourceContext): Promise<ImportedGuide[]>;
+}
+
+/**
+ * A markdown document split at its H2 headings, outside code fences
+ */
+export interface MarkdownSections {
+  title?: string;
+  intro: string;
+  sections: Array<{ heading: string; body: string }>;
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * "no-unused-vars" -> "No unused vars"
+ */
+export function humanize(id: string): string {
+  const words = id.replace(/[-_.]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Strings from a value that may be a single string or a list
+ */
+export function stringList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(item => String(item).trim()).filter(Boolean);
+}
+
+export async function readOptional(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+export function splitSections(markdown: string): MarkdownSections {
+  let title: string | undefined;
+  const intro: string[] = [];
+  const sections: Array<{ heading: string; lines: string[] }> = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,2})\s+(.*?)\s*#*\s*$/.exec(line);
+
+    if (heading && heading[1] === '#' && title === undefined && sections.length === 0) {
+      title = heading[2];
+    } else if (heading && heading[1] === '##') {
+      sections.push({ heading: heading[2], lines: [] });
+    } else {
+      (sections.length > 0 ? sections[sections.length - 1].lines : intro).push(line);
+    }
+  }
+
+  return {
+    title,
+    intro: intro.join('\n').trim(),
+    sections: sections.map(({ heading, lines }) => ({ heading, body: lines.join('\n').trim() })),
+  };
+}
+
+/**
+ * Paragraphs of prose, without code blocks, HTML comments, admonition
+ * markers or badge lines
+ */
+export function proseParagraphs(markdown: string): string[] {
+  const text = markdown
+    .replace(/^\s*(```|~~~)[\s\S]*?^\s*\1\s*$/gm, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block
+      .split('\n')
+      .filter(line => !/^\s*:::/.test(line) && !/^\s*(?:[💼🔧💡❌⚠️🚫☑️✅]|\[!\[)/u.test(line))
+      .join('\n')
+      .trim())
+    .filter(Boolean);
+}
+
+/**
+ * The first code blocks labelled as incorrect and as correct by the text
+ * before them, e.g. "Examples of **incorrect** code" or `::: correct`
+ */
+export function labelledExamples(markdown: string): { good?: string; bad?: string } {
+  const examples: { good?: string; bad?: string } = {};
+  let label = '';
+  const fence = /^\s*(```|~~~)[^\n]*\n([\s\S]*?)^\s*\1\s*$/gm;
+  let last = 0;
+
+  for (const match of markdown.matchAll(fence)) {
+    const before = markdown.slice(last, match.index).trim();
+    if (before) label = before.split('\n').slice(-3).join(' ');
+    last = match.index! + match[0].length;
+
+    const code = match[2].replace(/\n+$/, '');
+    if (/\b(?:incorrect|bad|wrong|vulnerable|insecure|unsafe|avoid|don'?t)\b/i.test(label)) {
+      examples.bad ??= code;
+    } else if (/\b(?:correct|good|secure|safe|preferred|recommended)\b/i.test(label)) {
+      examples.good ??= code;
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * URLs of markdown links and bare links
+ */
+export function markdownLinks(markdown: string): string[] {
+  const links = [...markdown.matchAll(/\]\((https?:\/\/[^)\s]+)\)|<(https?:\/\/[^>\s]+)>/g)]
+    .map(match => match[1] || match[2]);
+  return [...new Set(links)];
+}
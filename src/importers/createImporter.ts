@@ -0,0 +1,21 @@
+import type { SourceConfig } from '../types/index.js';
+import type { PracticeImporter } from './common.js';
+import { CheatSheetImporter } from './CheatSheetImporter.js';
+import { EslintPluginImporter } from './EslintPluginImporter.js';
+import { SemgrepRuleImporter } from './SemgrepRuleImporter.js';
+
+/**
+ * Importer for a source's configured `importer`
+ */
+export function createImporter(config: SourceConfig): PracticeImporter {
+  switch (config.importer) {
+    case 'eslint-plugin':
+      return new EslintPluginImporter(config);
+    case 'semgrep':
+      return new SemgrepRuleImporter(config);
+    case 'cheatsheet':
+      return new CheatSheetImporter(config);
+    default:
+      throw new Error(`Source ${config.name} has no importer configured`);
+  }
+}
@@ -0,0 +1,5 @@
+export { createImporter } from './createImporter.js';
+export { EslintPluginImporter, rulePrefix } from './EslintPluginImporter.js';
+export { SemgrepRuleImporter } from './SemgrepRuleImporter.js';
+export { CheatSheetImporter } from './CheatSheetImporter.js';
+export { IMPORTER_VERSION, type PracticeImporter } from './common.js';
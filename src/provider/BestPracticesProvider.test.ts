@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { PracticeChangeEvent } from '../types/index.js';
+import { BestPracticesProvider } from './BestPracticesProvider.js';
+
+const EXAMPLES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../examples');
+
+function guide(...practiceIds: string[]): string {
+  return [
+    '# Guide',
+    '',
+    ...practiceIds.flatMap(id => [
+      `## ${id}`,
+      `<!-- practice: { id: ${id} } -->`,
+      '',
+      `Do ${id}.`,
+      '',
+    ]),
+  ].join('\n');
+}
+
+describe('BestPracticesProvider watched sources', () => {
+  let root: string;
+  let docs: string;
+  let provider: BestPracticesProvider;
+
+  const nextChange = () => new Promise<PracticeChangeEvent>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('No practice change event')), 5000);
+    const unsubscribe = provider.onPracticesChanged(event => {
+      clearTimeout(timeout);
+      unsubscribe();
+      resolve(event);
+    });
+  });
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-watch-'));
+    docs = path.join(root, 'docs');
+    await fs.mkdir(docs);
+    await fs.writeFile(path.join(docs, 'style.md'), guide('naming', 'imports'), 'utf-8');
+
+    provider = new BestPracticesProvider({
+      sources: [{
+        name: 'org',
+        type: 'local',
+        path: docs,
+        format: 'markdown',
+        cacheDir: path.join(root, 'cache'),
+        watch: true,
+        watchDebounceMs: 20,
+      }],
+      chunkSize: 1000,
+      chunkOverlap: 200,
+      maxResults: 10,
+      minScore: 0,
+      syncOnStart: false,
+    });
+    await provider.syncPractices();
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('leaves the declared practice out of search result metadata', async () => {
+    const { chunks } = await provider.searchPractices({ query: 'naming' });
+
+    expect(chunks[0].chunk.id).toBe('org:style.md#naming');
+    expect(chunks[0].chunk.metadata).toMatchObject({ practiceId: 'naming', category: 'naming' });
+    expect(chunks[0].chunk.metadata).not.toHaveProperty('practice');
+  });
+
+  it('applies reloaded files to the store and records a change event', async () => {
+    const changed = nextChange();
+    await fs.writeFile(path.join(docs, 'style.md'), guide('naming', 'exports'), 'utf-8');
+    const event = await changed;
+
+    expect(event).toMatchObject({
+      sequence: 1,
+      source: 'org',
+      files: ['style.md'],
+      added: ['org:style.md#exports'],
+      removed: ['org:style.md#imports'],
+    });
+    expect(event.updated.sort()).toEqual(['org:style.md', 'org:style.md#naming']);
+    expect(provider.getPracticeChanges()).toEqual([event]);
+
+    const ids = provider.getEffectivePractices().map(doc => doc.id);
+    expect(ids).toContain('org:style.md#exports');
+    expect(ids).not.toContain('org:style.md#imports');
+  });
+
+  it('removes the practices of a deleted file', async () => {
+    const changed = nextChange();
+    await fs.rm(path.join(docs, 'style.md'));
+    const event = await changed;
+
+    expect(event).toMatchObject({ sequence: 2, added: [], updated: [] });
+    expect(event.removed.sort()).toEqual(['org:style.md', 'org:style.md#exports', 'org:style.md#naming']);
+    expect(provider.getPracticeChanges(1)).toEqual([event]);
+    expect(provider.getEffectivePractices()).toEqual([]);
+  });
+});
+
+describe('BestPracticesProvider patterns', () => {
+  let root: string;
+  let provider: BestPracticesProvider;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-patterns-'));
+    const patterns = path.join(root, 'patterns');
+    await fs.mkdir(patterns);
+    await fs.copyFile(path.join(EXAMPLES, 'design-patterns.yaml'), path.join(patterns, 'design-patterns.yaml'));
+    await fs.writeFile(path.join(patterns, 'python.yaml'), [
+      'name: Python Patterns',
+      'language: python',
+      'patterns:',
+      '  - id: context-manager',
+      '    name: Context Manager',
+      '    category: behavioral',
+      '    description: Release resources with a with block.',
+      '    problem: Resources leak when cleanup is skipped.',
+      '    solution: Acquire and release them in __enter__ and __exit__.',
+      '    applicability: [Files, locks and connections]',
+      '    consequences: { benefits: [No leaks], drawbacks: [One more class] }',
+    ].join('\n'), 'utf-8');
+
+    provider = new BestPracticesProvider({
+      sources: [{ name: 'patterns', type: 'local', path: patterns, format: 'yaml', cacheDir: path.join(root, 'cache') }],
+      chunkSize: 1000,
+      chunkOverlap: 200,
+      maxResults: 10,
+      minScore: 0,
+      syncOnStart: false,
+    });
+    await provider.syncPractices();
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const ids = (results: Array<{ pattern: { metadata: Record<string, unknown> } }>) =>
+    results.map(r => r.pattern.metadata.patternId);
+
+  it('ranks title matches above patterns that only mention the terms', async () => {
+    const results = await provider.searchPatterns('repository');
+
+    expect(ids(results)[0]).toBe('repository');
+    expect(ids(results)).toContain('unit-of-work');
+    expect(ids(results)).not.toContain('context-manager');
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    for (const { score } of results) {
+      expect(score).toBeGreaterThan(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('filters by category and language and applies the limit', async () => {
+    expect(ids(await provider.searchPatterns('', { category: 'creational' }))).toEqual(['dependency-injection']);
+    expect(ids(await provider.searchPatterns('resources', { language: 'python' }))).toEqual(['context-manager']);
+    expect(ids(await provider.searchPatterns('', { language: 'typescript' })).sort())
+      .toEqual(['dependency-injection', 'repository', 'strategy', 'unit-of-work']);
+    expect(await provider.searchPatterns('', { limit: 2 })).toHaveLength(2);
+    expect(await provider.searchPatterns('zebra')).toEqual([]);
+  });
+
+  it('finds patterns by pattern ID or document ID', () => {
+    expect(provider.getPattern('strategy')?.id).toBe('patterns:design-patterns.yaml#strategy');
+    expect(provider.getPattern('patterns:python.yaml#context-manager')?.title).toBe('Context Manager');
+    expect(provider.getPattern('patterns:design-patterns.yaml')).toBeUndefined();
+    expect(provider.getPatterns()).toHaveLength(5);
+  });
+});
@@ -1,15 +1,101 @@
 import {
   BaseKnowledgeProvider,
-  type KnowledgeQuery,
   type KnowledgeResult,
   type KnowledgeProviderConfig,
   type Document,
+  type SourceContext,
 } from '@xorng/template-knowledge';
 import { createToolHandler, type SubAgentMetadata, type SubAgentConfig } from '@xorng/template-base';
 import { z } from 'zod';
-import type { ProviderConfig, PracticeQuery, SourceConfig, Practice, PracticeCategory, PracticeSeverity } from '../types/index.js';
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import {
+  PracticeSchema,
+  SEVERITY_RANK,
+  type ProviderConfig,
+  type PracticeQuery,
+  type SourceConfig,
+  type Practice,
+  type PracticeCategory,
+  type PracticeSeverity,
+  type PatternCategory,
+  type ValidationReport,
+  type ReviewFinding,
+  type LintConfigReport,
+  type LintResultsReport,
+  type EffectivePractice,
+  type PracticeChangeEvent,
+  type SyncReport,
+  type PracticeRelation,
+  type RelatedPractice,
+  type PracticeOverlapReport,
+  type PracticeSearchPage,
+  type ProjectContext,
+  type ApplicablePractice,
+  type Checklist,
+  type ChecklistFormat,
+  type PracticeStatus,
+  type ExportFormat,
+  type ExportedFile,
+  type Control,
+  type ControlFramework,
+  type CoverageReport,
+} from '../types/index.js';
 import { MarkdownPracticeSource } from '../sources/MarkdownPracticeSource.js';
 import { StructuredPracticeSource } from '../sources/StructuredPracticeSource.js';
+import { GitPracticeSource } from '../sources/GitPracticeSource.js';
+import { UrlPracticeSource } from '../sources/UrlPracticeSource.js';
+import { ImportedPracticeSource } from '../sources/ImportedPracticeSource.js';
+import { WatchedPracticeSource } from '../sources/WatchedPracticeSource.js';
+import type { SourceChange } from '../sources/PracticeWatcher.js';
+import { PracticeValidator, formatsForSource, type ValidationTarget } from '../validation/index.js';
+import {
+  ChecklistGenerator,
+  CodeReviewer,
+  LintConfigAnalyzer,
+  LintResultsExplainer,
+  PracticeOverlapAnalyzer,
+  ProjectContextDetector,
+  parsePracticeContent,
+  practiceApplicability,
+  type OverlapOptions,
+  type ReviewOptions,
+  type SarifLog,
+} from '../analysis/index.js';
+import { PracticeLayerResolver, type LayerResolution } from './PracticeLayers.js';
+import { PracticeGraph } from './PracticeGraph.js';
+import { PracticeExporter, resolveExportDir, writeExportedFiles } from '../export/index.js';
+import {
+  ControlFrameworkCatalog,
+  buildCoverageReport,
+  isControlMatch,
+  mappedControls,
+  normalizeControlId,
+} from '../compliance/index.js';
+import {
+  HybridRanker,
+  createEmbedder,
+  decodeCursor,
+  encodeCursor,
+  matchesPracticeQuery,
+  mergePracticeQueries,
+  queryFingerprint,
+  DEFAULT_PRACTICE_STATUSES,
+  PRACTICE_STATUSES,
+  PracticeQueryParser,
+  type ParsedPracticeQuery,
+} from '../search/index.js';
+
+const MAX_CHANGE_EVENTS = 100;
+
+type PracticeSource =
+  | MarkdownPracticeSource
+  | StructuredPracticeSource
+  | GitPracticeSource
+  | UrlPracticeSource
+  | ImportedPracticeSource;
 
 /**
  * Best Practices Knowledge Provider
@@ -22,6 +108,17 @@ import { StructuredPracticeSource } from '../sources/StructuredPracticeSource.js
  */
 export class BestPracticesProvider extends BaseKnowledgeProvider {
   private practiceConfig: ProviderConfig;
+  private practiceSources: Array<{ config: SourceConfig; source: PracticeSource }> = [];
+  private layers: PracticeLayerResolver;
+  private changes = new EventEmitter();
+  private changeLog: PracticeChangeEvent[] = [];
+  private changeSequence = 0;
+  private generation = 0;
+  private graphCache?: { key: string; graph: PracticeGraph };
+  private ranker: HybridRanker;
+  private rankerKey?: string;
+  private frameworks = new ControlFrameworkCatalog();
+  private frameworksLoading: Promise<void> = Promise.resolve();
 
   constructor(
     config: ProviderConfig,
@@ -46,12 +143,25 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
     super(fullMetadata, subAgentConfig, knowledgeConfig);
     
     this.practiceConfig = config;
+    this.layers = new PracticeLayerResolver(config.sources);
+    this.ranker = new HybridRanker({
+      ...config.ranking,
+      embedder: createEmbedder(config.ranking),
+      logger: this.logger,
+    });
 
     // Register sources
     this.setupSources(config.sources);
 
+    // Load control frameworks up front; the base provider's sync on start
+    // does not go through syncPractices
+    void this.loadFrameworks().catch(error => {
+      this.logger.warn({ error }, 'Failed to load control frameworks');
+    });
+
     // Register practice-specific tools
     this.registerPracticeTools();
+    this.registerPatternTools();
   }
 
   /**
@@ -59,62 +169,320 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
    */
   private setupSources(sources: SourceConfig[]): void {
     for (const sourceConfig of sources) {
-      let source;
-      
-      switch (sourceConfig.format || 'markdown') {
-        case 'markdown':
-          source = new MarkdownPracticeSource(sourceConfig);
-          break;
-        case 'json':
-        case 'yaml':
-          source = new StructuredPracticeSource(sourceConfig);
-          break;
-        default:
-          this.logger.warn({ source: sourceConfig.name }, 'Unknown format, defaulting to markdown');
-          source = new MarkdownPracticeSource(sourceConfig);
+      const source = this.createSource(sourceConfig);
+      this.practiceSources.push({ config: sourceConfig, source });
+      this.registerSource(source);
+
+      if (source instanceof WatchedPracticeSource) {
+        source.onChange(change => this.applySourceChange(change));
       }
+    }
+  }
 
-      this.registerSource(source);
+  /**
+   * Create the source matching a source configuration
+   */
+  private createSource(sourceConfig: SourceConfig): PracticeSource {
+    if (sourceConfig.type === 'git') {
+      return new GitPracticeSource(sourceConfig);
+    }
+    if (sourceConfig.type === 'url') {
+      if (sourceConfig.importer) {
+        this.logger.warn({ source: sourceConfig.name }, 'Importers read local and git sources, ignoring importer');
+      }
+      return new UrlPracticeSource(sourceConfig);
+    }
+    if (sourceConfig.importer) {
+      return new ImportedPracticeSource(sourceConfig);
+    }
+
+    switch (sourceConfig.format || 'markdown') {
+      case 'markdown':
+        return new MarkdownPracticeSource(sourceConfig);
+      case 'json':
+      case 'yaml':
+        return new StructuredPracticeSource(sourceConfig);
+      default:
+        this.logger.warn({ source: sourceConfig.name }, 'Unknown format, defaulting to markdown');
+        return new MarkdownPracticeSource(sourceConfig);
     }
   }
 
   /**
-   * Search practices with filters
+   * Sync all (or one) sources incrementally: only files changed since the
+   * last sync are parsed, and documents no longer produced are pruned
    */
-  async searchPractices(query: PracticeQuery): Promise<KnowledgeResult> {
-    // Build filters from query
-    const filters: KnowledgeQuery['filters'] = {};
-    
-    if (query.language) {
-      filters.language = query.language;
+  async syncPractices(sourceName?: string): Promise<SyncReport> {
+    const report: SyncReport = { sources: [], added: 0, updated: 0, removed: 0, unchanged: 0 };
+    this.generation++;
+    const context: SourceContext = { logger: this.logger };
+    if (!sourceName) {
+      await this.loadFrameworks();
     }
 
-    // Perform base search
-    const result = await this.search({
-      query: query.query,
-      filters,
-      limit: query.limit || this.practiceConfig.maxResults,
-    });
+    for (const { config, source } of this.practiceSources) {
+      if (sourceName && config.name !== sourceName) continue;
 
-    // Additional filtering by category/severity
-    if (query.category || query.severity || query.framework) {
-      result.chunks = result.chunks.filter(item => {
-        const meta = item.chunk.metadata;
-        if (query.category && meta.category !== query.category) {
-          return false;
+      try {
+        if (!source.connected) {
+          await source.connect(context);
         }
-        if (query.severity && meta.severity !== query.severity) {
-          return false;
+        const { documents } = await source.fetchDocuments(context);
+
+        const current = new Set<string>();
+        for (const doc of documents) {
+          current.add(doc.id);
+          const existing = this.store.get(doc.id);
+          if (existing && JSON.stringify(existing) === JSON.stringify(doc)) continue;
+          if (existing) this.store.remove(doc.id);
+          this.store.add(doc);
         }
-        if (query.framework && meta.framework !== query.framework) {
-          return false;
+
+        // Prune documents of renamed practices and deleted files
+        for (const doc of this.store.all()) {
+          if (doc.metadata.source === config.name && !current.has(doc.id)) {
+            this.store.remove(doc.id);
+          }
         }
-        return true;
+
+        const stats = source.getLastSync();
+        report.sources.push({ source: config.name, ...stats });
+        report.added += stats?.added || 0;
+        report.updated += stats?.updated || 0;
+        report.removed += stats?.removed || 0;
+        report.unchanged += stats?.unchanged || 0;
+      } catch (error) {
+        this.logger.warn({ source: config.name, error }, 'Failed to sync source');
+        report.sources.push({
+          source: config.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Update the store with documents re-parsed by a watched source
+   */
+  private applySourceChange(change: SourceChange): void {
+    this.generation++;
+    const added: string[] = [];
+    const updated: string[] = [];
+
+    for (const doc of change.documents) {
+      if (this.store.get(doc.id)) {
+        this.store.remove(doc.id);
+        updated.push(doc.id);
+      } else {
+        added.push(doc.id);
+      }
+      this.store.add(doc);
+    }
+
+    for (const id of change.removed) {
+      this.store.remove(id);
+    }
+
+    const event: PracticeChangeEvent = {
+      sequence: ++this.changeSequence,
+      source: change.source,
+      files: change.files,
+      added,
+      updated,
+      removed: change.removed,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.changeLog.push(event);
+    if (this.changeLog.length > MAX_CHANGE_EVENTS) {
+      this.changeLog.shift();
+    }
+
+    this.logger.info({
+      source: event.source,
+      added: added.length,
+      updated: updated.length,
+      removed: event.removed.length,
+    }, 'Reloaded changed practice files');
+    this.changes.emit('change', event);
+  }
+
+  /**
+   * Subscribe to practice changes from watched sources; returns an unsubscribe function
+   */
+  onPracticesChanged(listener: (event: PracticeChangeEvent) => void): () => void {
+    this.changes.on('change', listener);
+    return () => {
+      this.changes.off('change', listener);
+    };
+  }
+
+  /**
+   * Change events after the given sequence number
+   */
+  getPracticeChanges(since = 0): PracticeChangeEvent[] {
+    return this.changeLog.filter(event => event.sequence > since);
+  }
+
+  /**
+   * Validate the files of all (or one) configured sources
+   */
+  async validatePractices(sourceName?: string): Promise<ValidationReport> {
+    const targets: ValidationTarget[] = this.practiceSources
+      .filter(({ config }) => !sourceName || config.name === sourceName)
+      .map(({ config, source }) => ({
+        config,
+        rootDir: source.basePath,
+        formats: formatsForSource(config),
+      }));
+
+    return new PracticeValidator().validate(targets);
+  }
+
+  /**
+   * Merge practices across org, team and project layers
+   */
+  resolveLayers(): LayerResolution {
+    return this.layers.resolve(this.store.all());
+  }
+
+  /**
+   * Effective practice documents after layering; disabled practices are
+   * left out unless requested, and only active and deprecated practices are
+   * included unless other `statuses` are given
+   */
+  getEffectivePractices(options?: { includeDisabled?: boolean; statuses?: PracticeStatus[] }): Document[] {
+    const statuses = options?.statuses || DEFAULT_PRACTICE_STATUSES;
+    return [...this.resolveLayers().practices.values()]
+      .filter(p => options?.includeDisabled || !p.effective.disabled)
+      .filter(p => statuses.includes((p.document.metadata.status as PracticeStatus) || 'active'))
+      .map(p => p.document);
+  }
+
+  /**
+   * The practice a deprecated or retired practice's `replacedBy` points to
+   */
+  getReplacement(doc: Document): { practiceId: string; documentId: string; title?: string } | undefined {
+    const replacedBy = doc.metadata.replacedBy as string | undefined;
+    if (!replacedBy) return undefined;
+    const replacement = this.getEffectivePractice(replacedBy);
+    if (!replacement) return undefined;
+    return {
+      practiceId: replacement.effective.practiceId,
+      documentId: replacement.document.id,
+      title: replacement.document.title,
+    };
+  }
+
+  /**
+   * Get the effective practice and its provenance by practice ID, document ID
+   * or a former ID listed in `aliases`
+   */
+  getEffectivePractice(id: string): { document: Document; effective: EffectivePractice } | undefined {
+    return this.findPractice(this.resolveLayers(), id);
+  }
+
+  private findPractice(
+    { practices, byDocumentId, aliases }: LayerResolution,
+    id: string
+  ): { document: Document; effective: EffectivePractice } | undefined {
+    const direct = practices.get(byDocumentId.get(id) || id);
+    if (direct) return direct;
+
+    // Document IDs of moved files still end in the practice ID
+    const bare = id.includes('#') ? id.slice(id.lastIndexOf('#') + 1) : id;
+    return practices.get(bare)
+      || practices.get(aliases.get(id) || '')
+      || practices.get(aliases.get(bare) || '');
+  }
+
+  /**
+   * Search practices, ranked by the hybrid lexical and semantic ranker.
+   *
+   * Filters are applied before ranking, so `totalCount` is the number of
+   * matching practices and pages stay full; `nextCursor` fetches the next page.
+   */
+  async searchPractices(
+    query: PracticeQuery,
+    options?: { includeDisabled?: boolean }
+  ): Promise<KnowledgeResult & PracticeSearchPage> {
+    const ranker = this.getRanker();
+    const { cursor, limit, ...criteria } = query;
+    const fingerprint = queryFingerprint({ criteria, includeDisabled: !!options?.includeDisabled, store: this.rankerKey });
+    const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+    const pageSize = limit || this.practiceConfig.maxResults;
+
+    const ranked = await ranker.rank(query.query, doc =>
+      (options?.includeDisabled || doc.metadata.disabled !== true) && matchesPracticeQuery(doc, query)
+    );
+
+    // Each result carries how its score was computed; the declared practice
+    // is left out, the content and metadata already describe it
+    const chunks: KnowledgeResult['chunks'] = ranked
+      .slice(offset, offset + pageSize)
+      .map(r => {
+        const { practice: _practice, ...metadata } = r.document.metadata;
+        return {
+          chunk: {
+            id: r.document.id,
+            content: r.document.content,
+            title: r.document.title,
+            metadata: {
+              ...metadata,
+              replacement: this.getReplacement(r.document),
+              ranking: r.explanation,
+            },
+          },
+          score: r.score,
+        };
       });
-      result.totalCount = result.chunks.length;
+
+    const next = offset + pageSize;
+    return {
+      chunks,
+      totalCount: ranked.length,
+      nextCursor: next < ranked.length ? encodeCursor(next, fingerprint) : undefined,
+    };
+  }
+
+  /**
+   * Parse a query expression into a `PracticeQuery`, with positioned syntax errors
+   */
+  parseQuery(expression: string): ParsedPracticeQuery {
+    return new PracticeQueryParser().parse(expression);
+  }
+
+  /**
+   * Parse a query expression that only selects practices; its search words
+   * must appear in the practice, like quoted phrases
+   */
+  parseFilter(expression: string): ParsedPracticeQuery {
+    const { query, errors } = this.parseQuery(expression);
+    const words = query.query.split(/\s+/).filter(Boolean);
+    return { query: { ...query, query: '', phrases: [...(query.phrases || []), ...words] }, errors };
+  }
+
+  /**
+   * Ranker over the effective practices, re-indexed after each sync or reload
+   */
+  private getRanker(): HybridRanker {
+    const key = this.storeKey();
+    if (this.rankerKey !== key) {
+      this.ranker.setDocuments(this.getEffectivePractices({ includeDisabled: true, statuses: PRACTICE_STATUSES }));
+      this.rankerKey = key;
     }
+    return this.ranker;
+  }
 
-    return result;
+  /**
+   * Changes after each sync or reload, when the document count changes (as
+   * with the base provider's own sync on start), and daily as practices
+   * reach their `effectiveDate`
+   */
+  private storeKey(): string {
+    return `${this.generation}:${this.store.all().length}:${new Date().toISOString().slice(0, 10)}`;
   }
 
   /**
@@ -125,10 +493,9 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
     language?: string,
     options?: { limit?: number; severity?: PracticeSeverity }
   ): Promise<Document[]> {
-    const allDocs = this.store.all();
+    const allDocs = this.getEffectivePractices();
     
     return allDocs.filter(doc => {
-      if (doc.type !== 'practice') return false;
       if (doc.metadata.category !== category) return false;
       if (language && doc.metadata.language !== language && doc.metadata.language !== 'general') return false;
       if (options?.severity && doc.metadata.severity !== options.severity) return false;
@@ -140,7 +507,7 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
    * Get practices related to specific lint rules
    */
   async getPracticesForLintRule(ruleId: string): Promise<Document[]> {
-    const allDocs = this.store.all();
+    const allDocs = this.getEffectivePractices();
     
     return allDocs.filter(doc => {
       const lintRules = doc.metadata.lintRules as string[] || [];
@@ -171,43 +538,443 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
     return result.chunks
       .filter(item => item.chunk.metadata.hasGoodExample || item.chunk.metadata.hasBadExample)
       .map(item => {
-        const content = item.chunk.content;
-        const goodMatch = content.match(/## Good Example\s*```[\w]*\n([\s\S]*?)```/);
-        const badMatch = content.match(/## Bad Example[^\n]*\s*```[\w]*\n([\s\S]*?)```/);
+        const { goodExample, badExample } = parsePracticeContent(item.chunk.content);
 
         return {
           practice: item.chunk.title || item.chunk.id,
-          goodExample: goodMatch?.[1]?.trim(),
-          badExample: options?.goodOnly ? undefined : badMatch?.[1]?.trim(),
+          goodExample,
+          badExample: options?.goodOnly ? undefined : badExample,
           language: item.chunk.metadata.language as string,
         };
       })
       .filter(e => e.goodExample || (!options?.goodOnly && e.badExample));
   }
 
+  /**
+   * Review a code snippet or unified diff against applicable practices
+   */
+  reviewCode(code: string, options?: ReviewOptions): ReviewFinding[] {
+    return new CodeReviewer(this.getEffectivePractices()).review(code, options);
+  }
+
+  /**
+   * Find near-duplicate practices and conflicting severities across sources
+   */
+  findPracticeOverlaps(options?: OverlapOptions): PracticeOverlapReport {
+    return new PracticeOverlapAnalyzer(this.getEffectivePractices()).analyze(options);
+  }
+
+  /**
+   * Detect the languages, frameworks and tooling of a project directory
+   */
+  async detectContext(projectPath: string): Promise<ProjectContext> {
+    return new ProjectContextDetector().detect(projectPath);
+  }
+
+  /**
+   * Practices that apply to a project, most severe and most specific first
+   */
+  async getApplicablePractices(projectPath: string, options?: {
+    category?: PracticeCategory;
+    minSeverity?: PracticeSeverity;
+    limit?: number;
+  }): Promise<{ context: ProjectContext; practices: ApplicablePractice[]; totalCount: number }> {
+    const context = await this.detectContext(projectPath);
+    const query: PracticeQuery = { query: '', category: options?.category, minSeverity: options?.minSeverity };
+
+    const practices: ApplicablePractice[] = [];
+    for (const doc of this.getEffectivePractices()) {
+      if (!matchesPracticeQuery(doc, query)) continue;
+      const reasons = practiceApplicability(doc, context);
+      if (!reasons) continue;
+      practices.push({
+        practiceId: doc.metadata.practiceId as string,
+        documentId: doc.id,
+        title: doc.title || (doc.metadata.practiceId as string),
+        category: doc.metadata.category as PracticeCategory,
+        severity: (doc.metadata.severity as PracticeSeverity) || 'suggestion',
+        reasons,
+      });
+    }
+
+    // Practices matched on language, framework or tooling before language-agnostic ones
+    const specificity = (p: ApplicablePractice) => p.reasons[0] === 'language-agnostic' ? 0 : p.reasons.length;
+    practices.sort((a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      specificity(b) - specificity(a) ||
+      a.title.localeCompare(b.title)
+    );
+
+    return {
+      context,
+      practices: options?.limit ? practices.slice(0, options.limit) : practices,
+      totalCount: practices.length,
+    };
+  }
+
+  /**
+   * Build a checklist from the practices matching the filters, or from the
+   * practices applicable to a project
+   */
+  async generateChecklist(options: {
+    language?: string;
+    framework?: string;
+    categories?: PracticeCategory[];
+    minSeverity?: PracticeSeverity;
+    projectPath?: string;
+    title?: string;
+    format?: ChecklistFormat;
+  } = {}): Promise<{ checklist: Checklist; content: string }> {
+    const query: PracticeQuery = { query: '', category: options.categories, minSeverity: options.minSeverity };
+    const context = options.projectPath ? await this.detectContext(options.projectPath) : undefined;
+
+    const practices = this.getEffectivePractices().filter(doc => {
+      if (!matchesPracticeQuery(doc, query)) return false;
+      // Language-agnostic practices and those without a framework apply everywhere
+      const language = (doc.metadata.language as string) || 'general';
+      if (options.language && language !== 'general' && language !== options.language) return false;
+      const framework = doc.metadata.framework as string | undefined;
+      if (options.framework && framework && framework !== options.framework) return false;
+      return !context || practiceApplicability(doc, context) !== null;
+    });
+
+    const generator = new ChecklistGenerator(practices);
+    const checklist = generator.build(options.title || 'Best Practices Checklist');
+    if (context) checklist.context = context;
+
+    return { checklist, content: generator.render(checklist, options.format || 'markdown') };
+  }
+
+  /**
+   * Render the effective practices matching `filter` to HTML, markdown,
+   * JSON, YAML or CSV, writing the files under `outputDir` when given.
+   * Files in `outputDir` that no earlier export wrote are never replaced.
+   */
+  async exportPractices(options: {
+    format: ExportFormat;
+    filter?: Omit<PracticeQuery, 'query' | 'limit' | 'cursor'>;
+    title?: string;
+    description?: string;
+    outputDir?: string;
+  }): Promise<{ format: ExportFormat; practiceCount: number; files: ExportedFile[]; written?: string[] }> {
+    const filter: PracticeQuery = { query: '', ...options.filter };
+    const practices = this.getEffectivePractices({ statuses: PRACTICE_STATUSES })
+      .filter(doc => matchesPracticeQuery(doc, filter));
+    const files = new PracticeExporter(practices, options).export(options.format);
+
+    const written = options.outputDir ? await writeExportedFiles(options.outputDir, files) : undefined;
+    return { format: options.format, practiceCount: practices.length, files, written };
+  }
+
+  /**
+   * (Re)load the control framework catalogs listed in `frameworks`
+   */
+  async loadFrameworks(): Promise<ControlFramework[]> {
+    const loading = this.frameworks.load(this.practiceConfig.frameworks || [], this.logger);
+    this.frameworksLoading = loading.catch(() => undefined);
+    await loading;
+    return this.frameworks.list();
+  }
+
+  /**
+   * Effective practices mapped to a control of a framework, or to controls
+   * nested under it unless `includeChildren` is false. Works without a
+   * catalog; with one, the control's definition is included.
+   */
+  getPracticesForControl(framework: string, control: string, options?: { includeChildren?: boolean }): {
+    framework: string;
+    control: Control | undefined;
+    practices: Document[];
+  } {
+    const id = normalizeControlId(framework, control);
+    const catalog = this.frameworks.get(framework);
+
+    return {
+      framework: catalog?.id || framework,
+      control: catalog?.controls.find(c => normalizeControlId(framework, c.id) === id),
+      practices: this.getEffectivePractices().filter(doc =>
+        mappedControls(doc, framework).some(mapped => isControlMatch(mapped, id, options?.includeChildren ?? true))
+      ),
+    };
+  }
+
+  /**
+   * Coverage of a loaded framework's controls by the effective practices
+   */
+  getControlCoverage(framework: string): CoverageReport | undefined {
+    const catalog = this.frameworks.get(framework);
+    return catalog ? buildCoverageReport(catalog, this.getEffectivePractices()) : undefined;
+  }
+
+  /**
+   * Compare an ESLint configuration (object or file) with the loaded practices
+   */
+  async analyzeLintConfig(input: { config?: unknown; configPath?: string }): Promise<LintConfigReport> {
+    let config = input.config;
+    if (config === undefined && input.configPath) {
+      // YAML is a superset of JSON, so this covers .eslintrc, .json and .yaml
+      config = yaml.load(await fs.readFile(input.configPath, 'utf-8'));
+    }
+    if (config === undefined) {
+      throw new Error('Either config or configPath is required');
+    }
+
+    return new LintConfigAnalyzer(this.getEffectivePractices()).analyze(config);
+  }
+
+  /**
+   * Explain ESLint JSON or SARIF findings with the practices for each rule
+   */
+  async explainLintResults(input: { results?: unknown; resultsPath?: string }): Promise<LintResultsReport> {
+    const results = await this.readResults(input);
+    return new LintResultsExplainer(this.getEffectivePractices()).explain(results);
+  }
+
+  /**
+   * Produce a SARIF log with rule help text filled from matching practices
+   */
+  async enrichSarif(input: { results?: unknown; resultsPath?: string }): Promise<SarifLog> {
+    const results = await this.readResults(input);
+    return new LintResultsExplainer(this.getEffectivePractices()).enrichSarif(results);
+  }
+
+  private async readResults(input: { results?: unknown; resultsPath?: string }): Promise<unknown> {
+    if (input.results !== undefined) return input.results;
+    if (input.resultsPath) return JSON.parse(await fs.readFile(input.resultsPath, 'utf-8'));
+    throw new Error('Either results or resultsPath is required');
+  }
+
+  /**
+   * Search design patterns by keyword
+   */
+  async searchPatterns(query: string, options?: {
+    category?: PatternCategory;
+    language?: string;
+    limit?: number;
+  }): Promise<Array<{ pattern: Document; score: number }>> {
+    const terms = query.toLowerCase().split(/\W+/).filter(t => t.length > 1);
+
+    return this.getPatterns(options)
+      .map(pattern => {
+        const title = (pattern.title || '').toLowerCase();
+        const content = pattern.content.toLowerCase();
+        let score = 0;
+        for (const term of terms) {
+          if (title.includes(term)) score += 3;
+          score += Math.min(content.split(term).length - 1, 5);
+        }
+        return { pattern, score: terms.length > 0 ? score / (terms.length * 8) : 0 };
+      })
+      .filter(r => terms.length === 0 || r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options?.limit || this.practiceConfig.maxResults);
+  }
+
+  /**
+   * Get patterns, optionally filtered by category and implementation language
+   */
+  getPatterns(options?: { category?: PatternCategory; language?: string }): Document[] {
+    return this.store.all().filter(doc => {
+      if (doc.type !== 'pattern') return false;
+      if (options?.category && doc.metadata.patternCategory !== options.category) return false;
+      if (options?.language && doc.metadata.language !== options.language && doc.metadata.language !== 'general') return false;
+      return true;
+    });
+  }
+
+  /**
+   * Get a pattern by document ID or pattern ID
+   */
+  getPattern(id: string): Document | undefined {
+    const doc = this.store.get(id);
+    if (doc?.type === 'pattern') return doc;
+    return this.getPatterns().find(p => p.metadata.patternId === id);
+  }
+
+  /**
+   * Follow `relatedPatterns` links up to `depth` hops
+   */
+  getRelatedPatterns(pattern: Document, depth = 1): {
+    related: Array<{ pattern: Document; distance: number }>;
+    unresolved: string[];
+  } {
+    const visited = new Set<string>([pattern.id]);
+    const related: Array<{ pattern: Document; distance: number }> = [];
+    const unresolved = new Set<string>();
+    let frontier = [pattern];
+
+    for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+      const next: Document[] = [];
+      for (const current of frontier) {
+        for (const ref of (current.metadata.relatedPatterns as string[]) || []) {
+          const target = this.getPattern(ref);
+          if (!target) {
+            unresolved.add(ref);
+            continue;
+          }
+          if (visited.has(target.id)) continue;
+          visited.add(target.id);
+          related.push({ pattern: target, distance });
+          next.push(target);
+        }
+      }
+      frontier = next;
+    }
+
+    return { related, unresolved: [...unresolved] };
+  }
+
+  /**
+   * Relationship graph of effective practices and patterns, rebuilt after
+   * each sync or reload
+   */
+  getPracticeGraph(): PracticeGraph {
+    const key = this.storeKey();
+    if (this.graphCache?.key === key) return this.graphCache.graph;
+
+    const resolution = this.resolveLayers();
+    const practices = [...resolution.practices.values()].map(p => p.document);
+    const graph = PracticeGraph.build(practices, this.getPatterns(), {
+      practice: ref => {
+        const resolved = this.findPractice(resolution, ref);
+        return resolved && `practice:${resolved.effective.practiceId}`;
+      },
+      pattern: ref => {
+        const pattern = this.getPattern(ref);
+        return pattern && `pattern:${pattern.metadata.patternId}`;
+      },
+    });
+
+    if (graph.unresolved.length > 0) {
+      this.logger.debug({ unresolved: graph.unresolved.length }, 'Practice graph has unresolved references');
+    }
+    this.graphCache = { key, graph };
+    return graph;
+  }
+
+  /**
+   * Practices and patterns reachable from a practice within `depth` hops
+   */
+  getRelatedPractices(id: string, options?: { depth?: number; relations?: PracticeRelation[] }): {
+    practice: { document: Document; effective: EffectivePractice };
+    related: RelatedPractice[];
+  } | undefined {
+    const practice = this.getEffectivePractice(id);
+    if (!practice) return undefined;
+
+    const related = this.getPracticeGraph().walk(
+      `practice:${practice.effective.practiceId}`,
+      options?.depth ?? 1,
+      options?.relations
+    );
+    return { practice, related };
+  }
+
+  /**
+   * Render the graph, or the neighbourhood of one practice, as DOT or Mermaid
+   */
+  exportPracticeGraph(options: {
+    format: 'dot' | 'mermaid';
+    practiceId?: string;
+    depth?: number;
+    category?: PracticeCategory;
+  }): { graph: string; nodes: number; edges: number } {
+    let graph = this.getPracticeGraph();
+
+    if (options.practiceId) {
+      const result = this.getRelatedPractices(options.practiceId, { depth: options.depth ?? 2 });
+      if (!result) throw new Error(`Practice not found: ${options.practiceId}`);
+      const start = `practice:${result.practice.effective.practiceId}`;
+      graph = graph.subgraph([start, ...result.related.map(r => r.node.key)]);
+    }
+
+    if (options.category) {
+      // Keep practices of the category and whatever they link to
+      const keys = new Set<string>();
+      for (const edge of graph.edges) {
+        const ends = [graph.nodes.get(edge.from)!, graph.nodes.get(edge.to)!];
+        if (ends.some(n => n.kind === 'practice' && n.category === options.category)) {
+          keys.add(edge.from);
+          keys.add(edge.to);
+        }
+      }
+      for (const node of graph.nodes.values()) {
+        if (node.kind === 'practice' && node.category === options.category) keys.add(node.key);
+      }
+      graph = graph.subgraph(keys);
+    }
+
+    return {
+      graph: options.format === 'dot' ? graph.toDot() : graph.toMermaid(),
+      nodes: graph.nodes.size,
+      edges: graph.edges.length,
+    };
+  }
+
   /**
    * Register practice-specific MCP tools
    */
   private registerPracticeTools(): void {
+    const category = PracticeSchema.shape.category;
+    const severity = PracticeSchema.shape.severity.removeDefault();
+    const status = PracticeSchema.shape.status.unwrap();
+
     // Search practices tool
     this.registerTool(createToolHandler({
       name: 'search-practices',
-      description: 'Search coding best practices and style guides',
+      description: 'Search coding best practices and style guides. Filters apply before ranking; page with nextCursor',
       inputSchema: z.object({
-        query: z.string().describe('Search query'),
-        category: z.enum([
-          'naming', 'formatting', 'architecture', 'testing', 'security',
-          'performance', 'documentation', 'error-handling', 'logging',
-          'dependency-management', 'general'
-        ]).optional().describe('Filter by practice category'),
-        language: z.string().optional().describe('Filter by programming language'),
-        framework: z.string().optional().describe('Filter by framework'),
-        severity: z.enum(['error', 'warning', 'suggestion', 'info']).optional()
-          .describe('Filter by severity level'),
-        limit: z.number().optional().describe('Maximum results'),
+        query: z.string().optional().default('')
+          .describe('Search query (empty to list every practice matching the filters)'),
+        q: z.string().optional()
+          .describe('Query expression, e.g. severity:>=warning category:security lint:@typescript-eslint/* "sql injection" -framework:django'),
+        category: z.union([category, z.array(category)]).optional()
+          .describe('Filter by practice category (any of)'),
+        language: z.union([z.string(), z.array(z.string())]).optional()
+          .describe('Filter by programming language (any of)'),
+        framework: z.union([z.string(), z.array(z.string())]).optional()
+          .describe('Filter by framework (any of)'),
+        severity: z.union([severity, z.array(severity)]).optional()
+          .describe('Filter by severity level (any of)'),
+        minSeverity: severity.optional().describe('Only this severity and above, e.g. warning for warning and error'),
+        tags: z.array(z.string()).optional().describe('Practices must have all of these tags'),
+        excludeTags: z.array(z.string()).optional().describe('Practices must have none of these tags'),
+        status: z.union([status, z.array(status)]).optional()
+          .describe('Lifecycle statuses to include (default active and deprecated; add draft or retired to see them)'),
+        limit: z.number().optional().describe('Results per page'),
+        cursor: z.string().optional().describe('nextCursor from the previous page'),
+        includeDisabled: z.boolean().optional().default(false)
+          .describe('Include practices disabled by a lower layer'),
       }),
       handler: async (input) => {
-        return this.searchPractices(input);
+        const { q, includeDisabled, ...fields } = input;
+        let query: PracticeQuery = fields;
+        if (q !== undefined) {
+          const parsed = this.parseQuery(q);
+          if (parsed.errors.length > 0) {
+            return { error: 'Invalid query expression', q, errors: parsed.errors };
+          }
+          query = mergePracticeQueries(fields, parsed.query);
+        }
+
+        try {
+          return await this.searchPractices(query, { includeDisabled });
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Check a query expression
+    this.registerTool(createToolHandler({
+      name: 'parse-practice-query',
+      description: 'Parse a search-practices query expression and report syntax errors with their positions',
+      inputSchema: z.object({
+        q: z.string().describe('Query expression'),
+      }),
+      handler: async (input) => {
+        const parsed = this.parseQuery(input.q);
+        return { valid: parsed.errors.length === 0, ...parsed };
       },
     }));
 
@@ -216,13 +983,9 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
       name: 'get-category-practices',
       description: 'Get all practices for a specific category',
       inputSchema: z.object({
-        category: z.enum([
-          'naming', 'formatting', 'architecture', 'testing', 'security',
-          'performance', 'documentation', 'error-handling', 'logging',
-          'dependency-management', 'general'
-        ]).describe('Practice category'),
+        category: category.describe('Practice category'),
         language: z.string().optional().describe('Programming language'),
-        severity: z.enum(['error', 'warning', 'suggestion', 'info']).optional(),
+        severity: severity.optional(),
         limit: z.number().optional().default(20),
       }),
       handler: async (input) => {
@@ -292,7 +1055,7 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
         language: z.string().optional().describe('Filter by language'),
       }),
       handler: async (input) => {
-        const allDocs = this.store.all().filter(d => d.type === 'practice');
+        const allDocs = this.getEffectivePractices();
         const filtered = input.language 
           ? allDocs.filter(d => d.metadata.language === input.language || d.metadata.language === 'general')
           : allDocs;
@@ -322,20 +1085,328 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
       },
     }));
 
+    // Review code against practices
+    this.registerTool(createToolHandler({
+      name: 'review-code',
+      description: 'Check a code snippet or unified diff against applicable practices and return likely violations',
+      inputSchema: z.object({
+        code: z.string().describe('Code snippet or unified diff'),
+        language: z.string().optional().describe('Programming language (inferred from diff file names if omitted)'),
+        framework: z.string().optional().describe('Framework in use'),
+        filename: z.string().optional().describe('File name of the snippet'),
+        minConfidence: z.number().min(0).max(1).optional().default(0.3)
+          .describe('Minimum confidence for a finding'),
+        limit: z.number().optional().default(20).describe('Maximum findings'),
+      }),
+      handler: async (input) => {
+        const findings = this.reviewCode(input.code, input);
+        return { findings, count: findings.length };
+      },
+    }));
+
+    // Find duplicate and conflicting practices
+    this.registerTool(createToolHandler({
+      name: 'find-duplicate-practices',
+      description: 'Find near-duplicate practices across sources, conflicting severities for the same lint rule or topic, and suggested merges',
+      inputSchema: z.object({
+        minSimilarity: z.number().min(0).max(1).optional().default(0.25)
+          .describe('Minimum similarity for a pair to be reported'),
+        includeSameSource: z.boolean().optional().default(false)
+          .describe('Also compare practices within one source'),
+      }),
+      handler: async (input) => {
+        return this.findPracticeOverlaps(input);
+      },
+    }));
+
+    // Detect a project's stack
+    this.registerTool(createToolHandler({
+      name: 'detect-context',
+      description: 'Infer languages, frameworks and tooling of a project from package.json, tsconfig.json, pyproject.toml, go.mod, Cargo.toml, Dockerfile and .github',
+      inputSchema: z.object({
+        path: z.string().describe('Project root directory'),
+      }),
+      handler: async (input) => {
+        try {
+          return await this.detectContext(input.path);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Practices for a project
+    this.registerTool(createToolHandler({
+      name: 'get-applicable-practices',
+      description: 'Detect a project\'s stack and return the practices that apply to it, with the reasons for each',
+      inputSchema: z.object({
+        path: z.string().describe('Project root directory'),
+        category: category.optional().describe('Only practices in this category'),
+        minSeverity: severity.optional().describe('Only this severity and above'),
+        limit: z.number().optional().describe('Maximum practices'),
+      }),
+      handler: async (input) => {
+        try {
+          return await this.getApplicablePractices(input.path, input);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Generate a checklist
+    this.registerTool(createToolHandler({
+      name: 'generate-checklist',
+      description: 'Generate a checklist of practices grouped by category and ordered by severity, as a markdown task list, JSON or a GitHub pull request template',
+      inputSchema: z.object({
+        language: z.string().optional().describe('Practices for this language (plus language-agnostic ones)'),
+        framework: z.string().optional().describe('Practices for this framework (plus framework-agnostic ones)'),
+        categories: z.array(category).optional().describe('Only these categories'),
+        minSeverity: severity.optional().describe('Only this severity and above'),
+        projectPath: z.string().optional().describe('Only practices applicable to this project directory'),
+        title: z.string().optional().describe('Checklist heading'),
+        format: z.enum(['markdown', 'json', 'github']).optional().default('markdown')
+          .describe('markdown task list, JSON, or GitHub pull_request_template.md'),
+      }),
+      handler: async (input) => {
+        try {
+          const { checklist, content } = await this.generateChecklist(input);
+          if (input.format === 'json') return checklist;
+          return { format: input.format, itemCount: checklist.itemCount, content };
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Export the corpus
+    this.registerTool(createToolHandler({
+      name: 'export-practices',
+      description: 'Export practices as a static HTML site, a markdown handbook, a JSON/YAML style guide or CSV',
+      inputSchema: z.object({
+        format: z.enum(['html', 'markdown', 'json', 'yaml', 'csv']).describe('Output format'),
+        q: z.string().optional()
+          .describe('Query expression selecting practices, e.g. category:security severity:>=warning; bare words must appear in the practice'),
+        title: z.string().optional().describe('Title of the site, handbook or style guide'),
+        description: z.string().optional().describe('Introduction for the site, handbook or style guide'),
+        outputDir: z.string().optional()
+          .describe('Write the files to this directory under the configured exportRoot and return only their paths'),
+      }),
+      handler: async (input) => {
+        const parsed = input.q !== undefined ? this.parseFilter(input.q) : undefined;
+        if (parsed && parsed.errors.length > 0) {
+          return { error: 'Invalid query expression', q: input.q, errors: parsed.errors };
+        }
+
+        try {
+          if (input.outputDir === undefined) {
+            return await this.exportPractices({ ...input, filter: parsed?.query });
+          }
+          if (!this.practiceConfig.exportRoot) {
+            return { error: 'Writing exports needs exportRoot in the configuration; omit outputDir to get the file contents' };
+          }
+
+          const outputDir = await resolveExportDir(this.practiceConfig.exportRoot, input.outputDir);
+          const { format, practiceCount, written } = await this.exportPractices({ ...input, filter: parsed?.query, outputDir });
+          return { format, practiceCount, outputDir, files: written };
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Practices implementing a control
+    this.registerTool(createToolHandler({
+      name: 'get-practices-for-control',
+      description: 'Get the practices mapped to a CWE, OWASP Top 10 or compliance control (e.g. SOC 2, ISO 27001, SLSA)',
+      inputSchema: z.object({
+        framework: z.string().describe('Framework key used in practice mappings, e.g. cwe, owasp-top10, soc2'),
+        control: z.string().describe('Control ID, e.g. CWE-89, A03:2021, CC6.1'),
+        includeChildren: z.boolean().optional().default(true)
+          .describe('Also match controls nested under this one, e.g. CC6 matches CC6.1'),
+      }),
+      handler: async (input) => {
+        await this.frameworksLoading;
+        const { framework, control, practices } = this.getPracticesForControl(input.framework, input.control, input);
+        return {
+          framework,
+          control: control || { id: input.control },
+          practices: practices.map(p => ({
+            id: p.id,
+            practiceId: p.metadata.practiceId,
+            title: p.title,
+            category: p.metadata.category,
+            severity: p.metadata.severity,
+            controls: mappedControls(p, input.framework),
+          })),
+          count: practices.length,
+        };
+      },
+    }));
+
+    // Control coverage of a framework
+    this.registerTool(createToolHandler({
+      name: 'get-control-coverage',
+      description: 'Report which controls of a loaded framework catalog have practices mapped to them and which have none',
+      inputSchema: z.object({
+        framework: z.string().describe('Framework ID of a loaded catalog'),
+      }),
+      handler: async (input) => {
+        await this.frameworksLoading;
+        const report = this.getControlCoverage(input.framework);
+        if (!report) {
+          return {
+            error: 'Framework catalog not loaded',
+            framework: input.framework,
+            available: this.frameworks.list().map(f => f.id),
+          };
+        }
+        return report;
+      },
+    }));
+
+    // Loaded framework catalogs
+    this.registerTool(createToolHandler({
+      name: 'list-frameworks',
+      description: 'List the loaded control framework catalogs',
+      inputSchema: z.object({}),
+      handler: async () => {
+        await this.frameworksLoading;
+        const frameworks = this.frameworks.list();
+        return {
+          frameworks: frameworks.map(f => ({
+            id: f.id,
+            name: f.name,
+            version: f.version,
+            url: f.url,
+            controlCount: f.controls.length,
+          })),
+          count: frameworks.length,
+        };
+      },
+    }));
+
+    // Compare an ESLint config with practices
+    this.registerTool(createToolHandler({
+      name: 'analyze-lint-config',
+      description: 'Map an ESLint config to practices: enforced practices, unenforced error practices and undocumented rules',
+      inputSchema: z.object({
+        config: z.unknown().optional()
+          .describe('.eslintrc object, flat config array, or JSON printed by eslint --print-config'),
+        configPath: z.string().optional().describe('Path to an .eslintrc / JSON / YAML config file'),
+      }),
+      handler: async (input) => {
+        try {
+          return await this.analyzeLintConfig(input);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Explain lint results with practices
+    this.registerTool(createToolHandler({
+      name: 'explain-lint-results',
+      description: 'Explain ESLint JSON or SARIF 2.1 findings using the practices that document each rule',
+      inputSchema: z.object({
+        results: z.unknown().optional().describe('ESLint JSON formatter output or a SARIF 2.1 log'),
+        resultsPath: z.string().optional().describe('Path to an ESLint JSON or SARIF file'),
+      }),
+      handler: async (input) => {
+        try {
+          return await this.explainLintResults(input);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Enrich SARIF with practice help
+    this.registerTool(createToolHandler({
+      name: 'enrich-sarif',
+      description: 'Fill SARIF rule help text from matching practices (ESLint JSON is converted to SARIF)',
+      inputSchema: z.object({
+        results: z.unknown().optional().describe('ESLint JSON formatter output or a SARIF 2.1 log'),
+        resultsPath: z.string().optional().describe('Path to an ESLint JSON or SARIF file'),
+      }),
+      handler: async (input) => {
+        try {
+          return await this.enrichSarif(input);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+
+    // Validate practice sources
+    this.registerTool(createToolHandler({
+      name: 'validate-practices',
+      description: 'Validate practice sources: schema errors, duplicate IDs, dangling references, missing examples',
+      inputSchema: z.object({
+        source: z.string().optional().describe('Only validate this source'),
+        includeInfo: z.boolean().optional().default(false)
+          .describe('Include informational issues such as inferred metadata'),
+      }),
+      handler: async (input) => {
+        const report = await this.validatePractices(input.source);
+        return input.includeInfo
+          ? report
+          : { ...report, issues: report.issues.filter(i => i.level !== 'info') };
+      },
+    }));
+
+    // Incremental sync
+    this.registerTool(createToolHandler({
+      name: 'sync-practices',
+      description: 'Re-sync sources, parsing only changed files, and report added/updated/removed/unchanged documents',
+      inputSchema: z.object({
+        source: z.string().optional().describe('Only sync this source'),
+        includeRemovedIds: z.boolean().optional().default(false)
+          .describe('List the IDs of removed documents'),
+      }),
+      handler: async (input) => {
+        const report = await this.syncPractices(input.source);
+        return input.includeRemovedIds
+          ? report
+          : { ...report, sources: report.sources.map(({ removedIds: _removedIds, ...rest }) => rest) };
+      },
+    }));
+
+    // Changes from watched sources
+    this.registerTool(createToolHandler({
+      name: 'get-practice-changes',
+      description: 'List practices added, updated or removed since a change sequence number (for sources with watch enabled)',
+      inputSchema: z.object({
+        since: z.number().optional().default(0)
+          .describe('Return changes after this sequence number; pass the last seen sequence to poll'),
+      }),
+      handler: async (input) => {
+        return {
+          changes: this.getPracticeChanges(input.since),
+          latestSequence: this.changeSequence,
+        };
+      },
+    }));
+
     // Get practice by ID
     this.registerTool(createToolHandler({
       name: 'get-practice',
-      description: 'Get a specific practice by ID',
+      description: 'Get the effective definition of a practice, with the layers that shaped it. Former IDs listed in aliases resolve to the current practice',
       inputSchema: z.object({
-        practiceId: z.string().describe('The practice ID'),
+        practiceId: z.string().describe('The practice ID, document ID or a former ID'),
       }),
       handler: async (input) => {
-        const doc = this.store.get(input.practiceId);
-        if (!doc) {
+        const resolved = this.getEffectivePractice(input.practiceId);
+        if (!resolved) {
           return { error: 'Practice not found', practiceId: input.practiceId };
         }
+        const { document: doc, effective } = resolved;
+        const isCanonical = input.practiceId === doc.id || input.practiceId === effective.practiceId;
         return {
           id: doc.id,
+          canonicalId: effective.practiceId,
+          resolvedFrom: isCanonical ? undefined : input.practiceId,
+          aliases: doc.metadata.aliases,
           title: doc.title,
           content: doc.content,
           category: doc.metadata.category,
@@ -344,6 +1415,156 @@ export class BestPracticesProvider extends BaseKnowledgeProvider {
           framework: doc.metadata.framework,
           lintRules: doc.metadata.lintRules,
           tags: doc.metadata.tags,
+          layer: doc.metadata.layer,
+          status: doc.metadata.status,
+          deprecatedIn: doc.metadata.deprecatedIn,
+          replacedBy: doc.metadata.replacedBy,
+          replacement: this.getReplacement(doc),
+          importedFrom: doc.metadata.importedFrom,
+          mappings: doc.metadata.mappings,
+          effectiveDate: doc.metadata.effectiveDate,
+          pendingSeverity: effective.pendingSeverity,
+          exceptions: effective.exceptions,
+          disabled: effective.disabled,
+          disabledReason: effective.disabledReason,
+          provenance: effective.provenance,
+        };
+      },
+    }));
+
+    // Walk the practice relationship graph
+    this.registerTool(createToolHandler({
+      name: 'get-related-practices',
+      description: 'Get practices and patterns connected to a practice through related, supersedes and conflicts-with links',
+      inputSchema: z.object({
+        practiceId: z.string().describe('The practice ID, document ID or a former ID'),
+        depth: z.number().int().min(1).max(5).optional().default(1).describe('How many hops to follow'),
+        relations: z.array(z.enum(['related', 'supersedes', 'superseded-by', 'conflicts-with']))
+          .optional()
+          .describe('Only follow these relations'),
+      }),
+      handler: async (input) => {
+        const result = this.getRelatedPractices(input.practiceId, input);
+        if (!result) {
+          return { error: 'Practice not found', practiceId: input.practiceId };
+        }
+        const unresolved = this.getPracticeGraph().unresolved
+          .filter(u => u.from === `practice:${result.practice.effective.practiceId}`);
+        return {
+          id: result.practice.document.id,
+          practiceId: result.practice.effective.practiceId,
+          title: result.practice.document.title,
+          related: result.related.map(r => ({
+            kind: r.node.kind,
+            id: r.node.id,
+            documentId: r.node.documentId,
+            title: r.node.title,
+            source: r.node.source,
+            relation: r.relation,
+            distance: r.distance,
+            via: r.via,
+          })),
+          unresolvedReferences: unresolved.map(u => u.reference),
+        };
+      },
+    }));
+
+    // Export the practice relationship graph
+    this.registerTool(createToolHandler({
+      name: 'export-practice-graph',
+      description: 'Export the practice relationship graph as Graphviz DOT or Mermaid',
+      inputSchema: z.object({
+        format: z.enum(['dot', 'mermaid']).optional().default('mermaid'),
+        practiceId: z.string().optional().describe('Only export the neighbourhood of this practice'),
+        depth: z.number().int().min(1).max(5).optional().default(2).describe('Hops around practiceId to include'),
+        category: category.optional().describe('Only export practices of this category and their links'),
+      }),
+      handler: async (input) => {
+        try {
+          return { format: input.format, ...this.exportPracticeGraph(input) };
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    }));
+  }
+
+  /**
+   * Register design pattern MCP tools
+   */
+  private registerPatternTools(): void {
+    const patternCategory = z.enum(['creational', 'structural', 'behavioral', 'architectural', 'concurrency']);
+
+    const summarize = (doc: Document) => ({
+      id: doc.id,
+      patternId: doc.metadata.patternId,
+      name: doc.title,
+      category: doc.metadata.patternCategory,
+      language: doc.metadata.language,
+      description: doc.content.slice(0, 200) + '...',
+    });
+
+    // Search patterns
+    this.registerTool(createToolHandler({
+      name: 'search-patterns',
+      description: 'Search design and architectural patterns',
+      inputSchema: z.object({
+        query: z.string().describe('Search query'),
+        category: patternCategory.optional().describe('Filter by pattern category'),
+        language: z.string().optional().describe('Filter by implementation language'),
+        limit: z.number().optional().describe('Maximum results'),
+      }),
+      handler: async (input) => {
+        const results = await this.searchPatterns(input.query, input);
+        return {
+          patterns: results.map(r => ({ ...summarize(r.pattern), score: r.score })),
+          count: results.length,
+        };
+      },
+    }));
+
+    // Get pattern by ID
+    this.registerTool(createToolHandler({
+      name: 'get-pattern',
+      description: 'Get a pattern by ID, including its related patterns',
+      inputSchema: z.object({
+        patternId: z.string().describe('The pattern ID or document ID'),
+        depth: z.number().optional().default(1).describe('How many relatedPatterns hops to follow'),
+      }),
+      handler: async (input) => {
+        const doc = this.getPattern(input.patternId);
+        if (!doc) {
+          return { error: 'Pattern not found', patternId: input.patternId };
+        }
+        const { related, unresolved } = this.getRelatedPatterns(doc, input.depth);
+        return {
+          ...summarize(doc),
+          content: doc.content,
+          relatedPatterns: related.map(r => ({ ...summarize(r.pattern), distance: r.distance })),
+          unresolvedRelatedPatterns: unresolved,
+        };
+      },
+    }));
+
+    // List patterns
+    this.registerTool(createToolHandler({
+      name: 'list-patterns',
+      description: 'List patterns, optionally filtered by category and implementation language',
+      inputSchema: z.object({
+        category: patternCategory.optional().describe('Filter by pattern category'),
+        language: z.string().optional().describe('Filter by implementation language'),
+      }),
+      handler: async (input) => {
+        const patterns = this.getPatterns(input);
+        const byCategory: Record<string, number> = {};
+        for (const p of patterns) {
+          const cat = p.metadata.patternCategory as string;
+          byCategory[cat] = (byCategory[cat] || 0) + 1;
+        }
+        return {
+          patterns: patterns.map(summarize),
+          categories: byCategory,
+          count: patterns.length,
         };
       },
     }));
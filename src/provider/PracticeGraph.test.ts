@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Document } from '@xorng/template-knowledge';
+import { practiceDoc } from '../sources/testing.js';
+import { PracticeGraph, type GraphReferenceResolver } from './PracticeGraph.js';
+
+function patternDoc(patternId: string): Document {
+  return {
+    id: `patterns:patterns.yaml#${patternId}`,
+    type: 'pattern',
+    title: patternId,
+    content: `# ${patternId}`,
+    metadata: { source: 'patterns', patternId, patternCategory: 'behavioral' },
+  };
+}
+
+const practices = [
+  practiceDoc({ id: 'pin-dependencies', relatedPractices: ['lockfiles', 'missing-practice'] }, { source: 'security' }),
+  practiceDoc(
+    { id: 'lockfiles', supersedes: ['commit-node-modules'], relatedPatterns: ['strategy'] },
+    { source: 'supply-chain' }
+  ),
+  practiceDoc({ id: 'commit-node-modules' }, { source: 'supply-chain', metadata: { disabled: true } }),
+  practiceDoc({ id: 'auto-merge-updates', conflictsWith: ['pin-dependencies'] }, { source: 'github' }),
+  practiceDoc({ id: 'manual-review', replacedBy: 'auto-merge-updates' }, { source: 'github' }),
+];
+
+// Resolves plain IDs and `source:id` references the way the provider does
+const resolver: GraphReferenceResolver = {
+  practice: ref => {
+    const id = ref.split(':').pop()!;
+    return practices.some(doc => doc.metadata.practiceId === id) ? `practice:${id}` : undefined;
+  },
+  pattern: ref => (ref === 'strategy' ? 'pattern:strategy' : undefined),
+};
+
+describe('PracticeGraph', () => {
+  const graph = PracticeGraph.build(practices, [patternDoc('strategy')], resolver);
+
+  it('builds edges from reference fields across sources and reports unresolved references', () => {
+    expect(graph.edges.map(edge => [edge.from, edge.type, edge.to])).toEqual([
+      ['practice:pin-dependencies', 'related', 'practice:lockfiles'],
+      ['practice:lockfiles', 'related', 'pattern:strategy'],
+      ['practice:lockfiles', 'supersedes', 'practice:commit-node-modules'],
+      ['practice:auto-merge-updates', 'conflicts-with', 'practice:pin-dependencies'],
+      ['practice:auto-merge-updates', 'supersedes', 'practice:manual-review'],
+    ]);
+    expect(graph.unresolved).toEqual([
+      { from: 'practice:pin-dependencies', field: 'relatedPractices', reference: 'missing-practice' },
+    ]);
+  });
+
+  it('walks edges in both directions up to the requested depth', () => {
+    const reached = graph.walk('practice:commit-node-modules', 2);
+
+    expect(reached.map(r => [r.node.key, r.distance, r.relation, r.via])).toEqual([
+      ['practice:lockfiles', 1, 'superseded-by', 'practice:commit-node-modules'],
+      ['practice:pin-dependencies', 2, 'related', 'practice:lockfiles'],
+      ['pattern:strategy', 2, 'related', 'practice:lockfiles'],
+    ]);
+  });
+
+  it('follows only the requested relations', () => {
+    const reached = graph.walk('practice:pin-dependencies', 3, ['conflicts-with', 'supersedes']);
+
+    expect(reached.map(r => [r.node.key, r.relation])).toEqual([
+      ['practice:auto-merge-updates', 'conflicts-with'],
+      ['practice:manual-review', 'supersedes'],
+    ]);
+  });
+
+  it('treats replacedBy as supersedes declared from the replaced practice', () => {
+    const replaced = PracticeGraph.build([
+      practiceDoc({ id: 'strict-null' }),
+      practiceDoc({ id: 'null-checks', status: 'deprecated', replacedBy: 'strict-null' }),
+      practiceDoc({ id: 'old-format', status: 'retired', replacedBy: 'gone' }),
+    ], [], { practice: ref => (ref === 'gone' ? undefined : `practice:${ref}`), pattern: () => undefined });
+
+    expect(replaced.edges.map(edge => [edge.from, edge.type, edge.to, edge.declaredBy])).toEqual([
+      ['practice:strict-null', 'supersedes', 'practice:null-checks', 'org:guide.yaml#null-checks'],
+    ]);
+    expect(replaced.unresolved).toEqual([
+      { from: 'practice:old-format', field: 'replacedBy', reference: 'gone' },
+    ]);
+  });
+
+  it('does not duplicate an undirected edge declared from both ends', () => {
+    const both = PracticeGraph.build([
+      practiceDoc({ id: 'a', relatedPractices: ['b'] }),
+      practiceDoc({ id: 'b', relatedPractices: ['a'] }),
+    ], [], { practice: ref => `practice:${ref}`, pattern: () => undefined });
+
+    expect(both.edges).toHaveLength(1);
+  });
+
+  it('exports a subgraph as DOT and Mermaid', () => {
+    const sub = graph.subgraph(['practice:lockfiles', 'practice:commit-node-modules', 'pattern:strategy']);
+
+    expect(sub.toDot()).toBe([
+      'digraph practices {',
+      '  rankdir=LR;',
+      '  "practice:lockfiles" [label="lockfiles", shape=box];',
+      '  "practice:commit-node-modules" [label="commit-node-modules", shape=box, style=dashed];',
+      '  "pattern:strategy" [label="strategy", shape=ellipse];',
+      '  "practice:lockfiles" -> "pattern:strategy" [label="related", dir=none];',
+      '  "practice:lockfiles" -> "practice:commit-node-modules" [label="supersedes"];',
+      '}',
+    ].join('\n'));
+    expect(sub.toMermaid()).toBe([
+      'graph LR',
+      '  n0["lockfiles"]',
+      '  n1["commit-node-modules"]',
+      '  n2(["strategy"])',
+      '  n0 ---|related| n2',
+      '  n0 -->|supersedes| n1',
+    ].join('\n'));
+  });
+});
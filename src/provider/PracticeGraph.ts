@@ -0,0 +1,222 @@
+import type { Document } from '@xorng/template-knowledge';
+import type {
+  PracticeEdgeType,
+  PracticeGraphEdge,
+  PracticeGraphNode,
+  PracticeRelation,
+  RelatedPractice,
+} from '../types/index.js';
+
+/**
+ * Metadata fields holding references, and the edge each one declares
+ */
+const REFERENCE_FIELDS: Array<{ field: string; type: PracticeEdgeType; target: 'practice' | 'pattern' }> = [
+  { field: 'relatedPractices', type: 'related', target: 'practice' },
+  { field: 'relatedPatterns', type: 'related', target: 'pattern' },
+  { field: 'supersedes', type: 'supersedes', target: 'practice' },
+  { field: 'conflictsWith', type: 'conflicts-with', target: 'practice' },
+];
+
+/**
+ * Finds the node key a reference points to
+ */
+export interface GraphReferenceResolver {
+  practice(reference: string): string | undefined;
+  pattern(reference: string): string | undefined;
+}
+
+/**
+ * Reference that names no known practice or pattern
+ */
+export interface UnresolvedReference {
+  from: string;
+  field: string;
+  reference: string;
+}
+
+/**
+ * Relationship graph over effective practices and patterns.
+ *
+ * Nodes are keyed `practice:<id>` / `pattern:<id>` so references resolve
+ * across sources. Every declared edge is reachable from both ends: walking
+ * from a superseded practice reports `superseded-by`, `related` and
+ * `conflicts-with` read the same either way.
+ */
+export class PracticeGraph {
+  readonly nodes: Map<string, PracticeGraphNode> = new Map();
+  readonly edges: PracticeGraphEdge[] = [];
+  readonly unresolved: UnresolvedReference[] = [];
+  private adjacency: Map<string, Array<{ key: string; relation: PracticeRelation }>> = new Map();
+
+  /**
+   * @param practices Effective practice documents, one per practice ID
+   */
+  static build(practices: Document[], patterns: Document[], resolver: GraphReferenceResolver): PracticeGraph {
+    const graph = new PracticeGraph();
+
+    for (const doc of practices) {
+      graph.addNode({
+        key: `practice:${doc.metadata.practiceId}`,
+        kind: 'practice',
+        id: doc.metadata.practiceId as string,
+        documentId: doc.id,
+        title: doc.title || (doc.metadata.practiceId as string),
+        source: doc.metadata.source as string,
+        category: doc.metadata.category as string | undefined,
+        disabled: doc.metadata.disabled === true,
+      });
+    }
+    for (const doc of patterns) {
+      graph.addNode({
+        key: `pattern:${doc.metadata.patternId}`,
+        kind: 'pattern',
+        id: doc.metadata.patternId as string,
+        documentId: doc.id,
+        title: doc.title || (doc.metadata.patternId as string),
+        source: doc.metadata.source as string,
+        category: doc.metadata.patternCategory as string | undefined,
+      });
+    }
+
+    for (const doc of [...practices, ...patterns]) {
+      const from = doc.type === 'pattern'
+        ? `pattern:${doc.metadata.patternId}`
+        : `practice:${doc.metadata.practiceId}`;
+
+      for (const { field, type, target } of REFERENCE_FIELDS) {
+        for (const reference of (doc.metadata[field] as string[]) || []) {
+          // A relatedPractices entry may also name a pattern
+          const to = target === 'pattern'
+            ? resolver.pattern(reference)
+            : resolver.practice(reference) || (type === 'related' ? resolver.pattern(reference) : undefined);
+
+          if (!to || !graph.nodes.has(to)) {
+            graph.unresolved.push({ from, field, reference });
+            continue;
+          }
+          if (to !== from) graph.addEdge({ from, to, type, declaredBy: doc.id });
+        }
+      }
+
+      // `replacedBy` is `supersedes` declared from the other end
+      const replacedBy = doc.metadata.replacedBy as string | undefined;
+      if (replacedBy) {
+        const by = resolver.practice(replacedBy);
+        if (!by || !graph.nodes.has(by)) {
+          graph.unresolved.push({ from, field: 'replacedBy', reference: replacedBy });
+        } else if (by !== from) {
+          graph.addEdge({ from: by, to: from, type: 'supersedes', declaredBy: doc.id });
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Nodes reachable within `depth` hops, nearest first
+   */
+  walk(start: string, depth: number, relations?: PracticeRelation[]): RelatedPractice[] {
+    const visited = new Set<string>([start]);
+    const reached: RelatedPractice[] = [];
+    let frontier = [start];
+
+    for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const { key, relation } of this.adjacency.get(current) || []) {
+          if (relations && !relations.includes(relation)) continue;
+          if (visited.has(key)) continue;
+          visited.add(key);
+          reached.push({ node: this.nodes.get(key)!, distance, relation, via: current });
+          next.push(key);
+        }
+      }
+      frontier = next;
+    }
+
+    return reached;
+  }
+
+  /**
+   * Graph restricted to the given node keys
+   */
+  subgraph(keys: Iterable<string>): PracticeGraph {
+    const graph = new PracticeGraph();
+    for (const key of keys) {
+      const node = this.nodes.get(key);
+      if (node) graph.addNode(node);
+    }
+    for (const edge of this.edges) {
+      if (graph.nodes.has(edge.from) && graph.nodes.has(edge.to)) graph.addEdge(edge);
+    }
+    return graph;
+  }
+
+  /**
+   * Graphviz DOT source
+   */
+  toDot(): string {
+    const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = ['digraph practices {', '  rankdir=LR;'];
+
+    for (const node of this.nodes.values()) {
+      const attributes = [`label=${quote(node.title)}`, `shape=${node.kind === 'pattern' ? 'ellipse' : 'box'}`];
+      if (node.disabled) attributes.push('style=dashed');
+      lines.push(`  ${quote(node.key)} [${attributes.join(', ')}];`);
+    }
+
+    for (const edge of this.edges) {
+      const attributes = [`label=${quote(edge.type)}`];
+      if (edge.type !== 'supersedes') attributes.push('dir=none');
+      if (edge.type === 'conflicts-with') attributes.push('style=dashed', 'color=red');
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes.join(', ')}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Mermaid flowchart source
+   */
+  toMermaid(): string {
+    const ids = new Map<string, string>();
+    [...this.nodes.keys()].forEach((key, index) => ids.set(key, `n${index}`));
+    const label = (value: string): string => `"${value.replace(/"/g, '#quot;')}"`;
+    const lines = ['graph LR'];
+
+    for (const node of this.nodes.values()) {
+      const text = label(node.title);
+      lines.push(`  ${ids.get(node.key)}${node.kind === 'pattern' ? `([${text}])` : `[${text}]`}`);
+    }
+
+    for (const edge of this.edges) {
+      const arrow = edge.type === 'supersedes' ? '-->' : edge.type === 'conflicts-with' ? '-.-' : '---';
+      lines.push(`  ${ids.get(edge.from)} ${arrow}|${edge.type}| ${ids.get(edge.to)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private addNode(node: PracticeGraphNode): void {
+    this.nodes.set(node.key, node);
+    if (!this.adjacency.has(node.key)) this.adjacency.set(node.key, []);
+  }
+
+  private addEdge(edge: PracticeGraphEdge): void {
+    const undirected = edge.type !== 'supersedes';
+    const duplicate = this.edges.some(e => e.type === edge.type && (
+      (e.from === edge.from && e.to === edge.to) ||
+      (undirected && e.from === edge.to && e.to === edge.from)
+    ));
+    if (duplicate) return;
+
+    this.edges.push(edge);
+    this.adjacency.get(edge.from)!.push({ key: edge.to, relation: edge.type });
+    this.adjacency.get(edge.to)!.push({
+      key: edge.from,
+      relation: edge.type === 'supersedes' ? 'superseded-by' : edge.type,
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { Document } from '@xorng/template-knowledge';
+import type { PracticeOverride, SourceConfig } from '../types/index.js';
+import { practiceDoc } from '../sources/testing.js';
+import { PracticeLayerResolver } from './PracticeLayers.js';
+
+const sources: SourceConfig[] = [
+  { name: 'project', type: 'local', path: '.', format: 'yaml', layer: 'project' },
+  { name: 'org', type: 'local', path: '.', format: 'yaml' },
+  { name: 'team-low', type: 'local', path: '.', format: 'yaml', layer: 'team', priority: 1 },
+  { name: 'team-high', type: 'local', path: '.', format: 'yaml', layer: 'team', priority: 5 },
+];
+
+function overrideDoc(source: string, override: PracticeOverride): Document {
+  return {
+    id: `${source}:overrides.yaml#override:${override.id}`,
+    type: 'practice-override',
+    title: `Override: ${override.id}`,
+    content: '',
+    metadata: {
+      source,
+      path: 'overrides.yaml',
+      practiceId: override.id,
+      override: true,
+      severity: override.severity,
+      exceptions: override.exceptions || [],
+      disabled: override.disabled,
+      reason: override.reason,
+    },
+  };
+}
+
+describe('PracticeLayerResolver', () => {
+  const resolver = new PracticeLayerResolver(sources);
+
+  it('lets lower layers and higher priorities redefine a practice', () => {
+    const { practices, byDocumentId } = resolver.resolve([
+      practiceDoc({ id: 'naming', severity: 'info' }, { source: 'project' }),
+      practiceDoc({ id: 'naming', severity: 'error' }, { source: 'team-high' }),
+      practiceDoc({ id: 'naming', severity: 'warning' }),
+      practiceDoc({ id: 'naming', severity: 'suggestion' }, { source: 'team-low' }),
+    ]);
+
+    const { document, effective } = practices.get('naming')!;
+    expect(document.id).toBe('project:guide.yaml#naming');
+    expect(document.metadata.layer).toBe('project');
+    expect(effective.severity).toBe('info');
+    expect(effective.provenance.map(step => [step.source, step.action])).toEqual([
+      ['org', 'defined'],
+      ['team-low', 'redefined'],
+      ['team-high', 'redefined'],
+      ['project', 'redefined'],
+    ]);
+    expect(byDocumentId.size).toBe(4);
+  });
+
+  it('renders overridden severity and exceptions into the content', () => {
+    const { practices } = resolver.resolve([
+      practiceDoc({ id: 'no-console', severity: 'error', exceptions: ['CLI entry points'] }),
+      overrideDoc('project', { id: 'no-console', severity: 'warning', exceptions: ['Debug builds'] }),
+    ]);
+
+    const { document, effective } = practices.get('no-console')!;
+    expect(effective.severity).toBe('warning');
+    expect(effective.exceptions).toEqual(['CLI entry points', 'Debug builds']);
+    expect(effective.provenance[1].changes).toEqual({
+      severity: { from: 'error', to: 'warning' },
+      exceptionsAdded: ['Debug builds'],
+    });
+    expect(document.metadata.severity).toBe('warning');
+    expect(document.content).toContain('**Severity:** warning');
+    expect(document.content).not.toContain('**Severity:** error');
+    expect(document.content).toContain('## Exceptions\n- CLI entry points\n- Debug builds');
+  });
+
+  it('renders the effective severity for practices whose content has no severity line', () => {
+    // Without a declared practice the content is parsed back
+    const declared = practiceDoc({ id: 'small-functions', severity: 'error' });
+    const { practice: _practice, ...metadata } = declared.metadata;
+    const markdown: Document = { ...declared, content: '# small-functions\n\nKeep functions short.', metadata };
+    const { practices } = resolver.resolve([markdown, overrideDoc('team-low', { id: 'small-functions', severity: 'info' })]);
+
+    const { document } = practices.get('small-functions')!;
+    expect(document.content).toContain('**Severity:** info');
+    expect(document.content).toContain('Keep functions short.');
+  });
+
+  it('disables practices with a reason and reports overrides of unknown practices', () => {
+    const { practices, orphanOverrides } = resolver.resolve([
+      practiceDoc({ id: 'jsdoc', severity: 'warning' }),
+      overrideDoc('team-high', { id: 'jsdoc', disabled: true, reason: 'Types document the API' }),
+      overrideDoc('project', { id: 'missing', severity: 'error' }),
+    ]);
+
+    expect(practices.get('jsdoc')!.effective).toMatchObject({ disabled: true, disabledReason: 'Types document the API' });
+    expect(practices.get('jsdoc')!.document.metadata.disabled).toBe(true);
+    expect(practices.has('missing')).toBe(false);
+    expect(orphanOverrides.map(doc => doc.metadata.practiceId)).toEqual(['missing']);
+  });
+
+  it('announces a practice one severity lower until its effective date', () => {
+    const documents = [
+      practiceDoc({ id: 'pin-actions', severity: 'error', effectiveDate: '2026-07-01' }),
+      practiceDoc({ id: 'log-levels', severity: 'info', effectiveDate: '2026-07-01' }),
+    ];
+
+    const before = resolver.resolve(documents, '2026-06-30').practices;
+    expect(before.get('pin-actions')!.effective).toMatchObject({ severity: 'warning', pendingSeverity: 'error' });
+    expect(before.get('pin-actions')!.document.metadata).toMatchObject({ severity: 'warning', pendingSeverity: 'error' });
+    expect(before.get('pin-actions')!.document.content).toContain('**Severity:** warning');
+    expect(before.get('log-levels')!.effective.pendingSeverity).toBeUndefined();
+
+    const after = resolver.resolve(documents, '2026-07-01').practices;
+    expect(after.get('pin-actions')!.effective).toMatchObject({ severity: 'error', pendingSeverity: undefined });
+    expect(after.get('pin-actions')!.document.metadata.pendingSeverity).toBeUndefined();
+  });
+
+  it('announces an overridden severity until the effective date', () => {
+    const { practices } = resolver.resolve([
+      practiceDoc({ id: 'no-console', severity: 'suggestion', effectiveDate: '2026-07-01' }),
+      overrideDoc('project', { id: 'no-console', severity: 'error' }),
+    ], '2026-06-30');
+
+    expect(practices.get('no-console')!.effective).toMatchObject({ severity: 'warning', pendingSeverity: 'error' });
+  });
+
+  it('maps former IDs to the practice that lists them, unless a live practice still uses the ID', () => {
+    const { aliases } = resolver.resolve([
+      practiceDoc({ id: 'handle-rejections', aliases: ['handle-promises', 'no-floating'] }),
+      practiceDoc({ id: 'no-floating' }, { source: 'team-low' }),
+    ]);
+
+    expect([...aliases]).toEqual([['handle-promises', 'handle-rejections']]);
+  });
+});
@@ -0,0 +1,223 @@
+import type { Document } from '@xorng/template-knowledge';
+import type {
+  EffectivePractice,
+  PracticeLayer,
+  PracticeProvenance,
+  PracticeSeverity,
+  SourceConfig,
+} from '../types/index.js';
+import { practiceFromDocument } from '../analysis/index.js';
+import { formatPracticeContent } from '../sources/formatting.js';
+
+const LAYER_ORDER: PracticeLayer[] = ['org', 'team', 'project'];
+
+/**
+ * Severity reported before a practice's `effectiveDate`
+ */
+const ANNOUNCED_SEVERITY: Record<PracticeSeverity, PracticeSeverity> = {
+  error: 'warning',
+  warning: 'suggestion',
+  suggestion: 'info',
+  info: 'info',
+};
+
+/**
+ * Practices after merging every layer
+ */
+export interface LayerResolution {
+  /** Effective practices keyed by practice ID */
+  practices: Map<string, { document: Document; effective: EffectivePractice }>;
+  /** Practice ID of every practice document, including shadowed ones, keyed by document ID */
+  byDocumentId: Map<string, string>;
+  /** Practice ID keyed by each former ID listed in `aliases` */
+  aliases: Map<string, string>;
+  /** Overrides whose practice is not defined by any source */
+  orphanOverrides: Document[];
+}
+
+/**
+ * Merges practices from org, team and project sources.
+ *
+ * Sources are applied from the highest layer (org) to the lowest (project),
+ * then by ascending `priority`, then in configuration order. A practice
+ * defined again by a later source replaces the earlier definition; overrides
+ * change its severity, add exceptions or disable it with a reason.
+ * Until its `effectiveDate`, a practice is reported one severity lower so new
+ * rules can be announced before they are enforced.
+ */
+export class PracticeLayerResolver {
+  private ranks: Map<string, { layer: PracticeLayer; rank: number[] }> = new Map();
+
+  constructor(sources: SourceConfig[]) {
+    sources.forEach((config, index) => {
+      const layer = config.layer || 'org';
+      this.ranks.set(config.name, {
+        layer,
+        rank: [LAYER_ORDER.indexOf(layer), config.priority ?? 0, index],
+      });
+    });
+  }
+
+  resolve(documents: Document[], today = new Date().toISOString().slice(0, 10)): LayerResolution {
+    const byPractice = new Map<string, Document[]>();
+    const byDocumentId = new Map<string, string>();
+    const aliases = new Map<string, string>();
+
+    for (const doc of documents) {
+      if (doc.type !== 'practice' && doc.type !== 'practice-override') continue;
+      const practiceId = doc.metadata.practiceId as string;
+      const list = byPractice.get(practiceId) || [];
+      list.push(doc);
+      byPractice.set(practiceId, list);
+      if (doc.type === 'practice') {
+        byDocumentId.set(doc.id, practiceId);
+        for (const alias of (doc.metadata.aliases as string[]) || []) {
+          aliases.set(alias, practiceId);
+        }
+      }
+    }
+
+    const practices: LayerResolution['practices'] = new Map();
+    const orphanOverrides: Document[] = [];
+
+    for (const [practiceId, docs] of byPractice) {
+      const ordered = [...docs].sort((a, b) => this.compare(a, b));
+      const resolved = this.merge(practiceId, ordered, today);
+      if (resolved) {
+        practices.set(practiceId, resolved);
+      } else {
+        orphanOverrides.push(...ordered);
+      }
+    }
+
+    // A live practice ID always wins over another practice's alias
+    for (const practiceId of practices.keys()) {
+      aliases.delete(practiceId);
+    }
+
+    return { practices, byDocumentId, aliases, orphanOverrides };
+  }
+
+  /**
+   * Layer of a configured source
+   */
+  layerOf(sourceName: string): PracticeLayer {
+    return this.ranks.get(sourceName)?.layer || 'org';
+  }
+
+  private merge(
+    practiceId: string,
+    ordered: Document[],
+    today: string
+  ): { document: Document; effective: EffectivePractice } | null {
+    let base: Document | undefined;
+    let severity: PracticeSeverity = 'suggestion';
+    let exceptions: string[] = [];
+    let disabled = false;
+    let disabledReason: string | undefined;
+    const provenance: PracticeProvenance[] = [];
+
+    for (const doc of ordered) {
+      const source = doc.metadata.source as string;
+      const step = { source, layer: this.layerOf(source), documentId: doc.id };
+
+      if (doc.type === 'practice') {
+        provenance.push({ ...step, action: base ? 'redefined' : 'defined' });
+        base = doc;
+        severity = (doc.metadata.severity as PracticeSeverity) || 'suggestion';
+        exceptions = practiceFromDocument(doc).exceptions || [];
+        disabled = false;
+        disabledReason = undefined;
+        continue;
+      }
+
+      // Overrides of a practice nobody has defined yet have nothing to change
+      if (!base) continue;
+
+      const changes: NonNullable<PracticeProvenance['changes']> = {};
+      const overrideSeverity = doc.metadata.severity as PracticeSeverity | undefined;
+      if (overrideSeverity && overrideSeverity !== severity) {
+        changes.severity = { from: severity, to: overrideSeverity };
+        severity = overrideSeverity;
+      }
+
+      const added = ((doc.metadata.exceptions as string[]) || []).filter(e => !exceptions.includes(e));
+      if (added.length > 0) {
+        changes.exceptionsAdded = added;
+        exceptions = [...exceptions, ...added];
+      }
+
+      if (typeof doc.metadata.disabled === 'boolean') {
+        changes.disabled = doc.metadata.disabled;
+        disabled = doc.metadata.disabled;
+        disabledReason = disabled ? (doc.metadata.reason as string | undefined) : undefined;
+      }
+      if (doc.metadata.reason) {
+        changes.reason = doc.metadata.reason as string;
+      }
+
+      provenance.push({ ...step, action: 'overridden', changes });
+    }
+
+    if (!base) return null;
+
+    // ISO dates compare as strings
+    const effectiveDate = base.metadata.effectiveDate as string | undefined;
+    let pendingSeverity: PracticeSeverity | undefined;
+    if (effectiveDate && effectiveDate > today && severity !== 'info') {
+      pendingSeverity = severity;
+      severity = ANNOUNCED_SEVERITY[severity];
+    }
+
+    const effective: EffectivePractice = {
+      practiceId,
+      documentId: base.id,
+      severity,
+      exceptions,
+      disabled,
+      disabledReason,
+      pendingSeverity,
+      provenance,
+    };
+
+    return { document: this.applyOverrides(base, effective), effective };
+  }
+
+  /**
+   * Copy of the winning definition with its content rendered again from the
+   * effective severity and exceptions
+   */
+  private applyOverrides(doc: Document, effective: EffectivePractice): Document {
+    if (effective.provenance.every(p => p.action !== 'overridden') && !effective.pendingSeverity) {
+      return { ...doc, metadata: { ...doc.metadata, layer: this.layerOf(doc.metadata.source as string) } };
+    }
+
+    const practice = practiceFromDocument(doc);
+    return {
+      ...doc,
+      content: formatPracticeContent({
+        ...practice,
+        severity: effective.severity,
+        exceptions: effective.exceptions.length > 0 ? effective.exceptions : undefined,
+      }),
+      metadata: {
+        ...doc.metadata,
+        severity: effective.severity,
+        exceptions: effective.exceptions,
+        disabled: effective.disabled,
+        pendingSeverity: effective.pendingSeverity,
+        layer: this.layerOf(doc.metadata.source as string),
+      },
+    };
+  }
+
+  private compare(a: Document, b: Document): number {
+    const rankA = this.ranks.get(a.metadata.source as string)?.rank || [0, 0, 0];
+    const rankB = this.ranks.get(b.metadata.source as string)?.rank || [0, 0, 0];
+    for (let i = 0; i < rankA.length; i++) {
+      if (rankA[i] !== rankB[i]) return rankA[i] - rankB[i];
+    }
+    // Within a source, definitions come before the overrides that change them
+    return (a.type === 'practice' ? 0 : 1) - (b.type === 'practice' ? 0 : 1);
+  }
+}
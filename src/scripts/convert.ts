@@ -0,0 +1,72 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createLogger } from '@xorng/template-base';
+import { GuideConverter } from '../convert/index.js';
+import type { GuideConversion } from '../types/index.js';
+
+/**
+ * Convert style guides between markdown and structured YAML.
+ *
+ * Usage: convert <file> [--out file] [--heading-depth n] [--json]
+ *
+ * Markdown (.md) becomes StyleGuideSchema YAML; YAML or JSON guides become
+ * canonical markdown. The guide is printed to stdout unless --out is given.
+ * Fields the markdown parser inferred are listed on stderr (and marked in the
+ * YAML) for authors to check; --json prints the whole conversion instead.
+ */
+const logger = createLogger('warn', 'knowledge-best-practices');
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const option = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const json = args.includes('--json');
+  const input = args.find((arg, i) => !arg.startsWith('--') && !['--out', '--heading-depth'].includes(args[i - 1]));
+  const outputPath = option('out');
+
+  if (!input) {
+    console.error('Usage: convert <file> [--out file] [--heading-depth n] [--json]');
+    process.exit(2);
+  }
+
+  const depth = option('heading-depth');
+  const converter = new GuideConverter({ headingDepth: depth ? Number(depth) : undefined });
+  const content = await fs.readFile(input, 'utf-8');
+  const conversion = /\.(?:md|markdown)$/i.test(input)
+    ? converter.markdownToYaml(content, path.basename(input).replace(/\.[^.]+$/, ''))
+    : converter.yamlToMarkdown(content);
+
+  if (outputPath) {
+    await fs.writeFile(outputPath, conversion.content, 'utf-8');
+  }
+
+  if (json) {
+    console.log(JSON.stringify(conversion, null, 2));
+  } else {
+    if (!outputPath) process.stdout.write(conversion.content);
+    printNotes(input, conversion);
+  }
+
+  process.exit(0);
+}
+
+function printNotes(input: string, conversion: GuideConversion): void {
+  for (const report of conversion.inferred) {
+    const fields = Object.entries(report.fields)
+      .map(([field, value]) => `${field}=${Array.isArray(value) ? value.join(',') : value}`)
+      .join(' ');
+    console.error(`${input}:${report.line}  inferred  ${report.practiceId}  ${fields}`);
+  }
+  for (const warning of conversion.warnings) {
+    const location = warning.line ? `${input}:${warning.line}` : input;
+    console.error(`${location}  warning  ${warning.message}`);
+  }
+  console.error(`${conversion.practiceCount} practices converted to ${conversion.format}`);
+}
+
+main().catch((error) => {
+  logger.error(error, 'Conversion failed');
+  process.exit(2);
+});
@@ -0,0 +1,61 @@
+import { createLogger } from '@xorng/template-base';
+import { loadConfig } from '../config.js';
+import { BestPracticesProvider } from '../provider/BestPracticesProvider.js';
+import type { ExportFormat } from '../types/index.js';
+
+/**
+ * Export the configured practice corpus.
+ *
+ * Usage: export <html|markdown|json|yaml|csv> [--out dir] [--q expression] [--title text]
+ *
+ * Sources are synced first. Single-file formats are printed to stdout unless
+ * --out is given; the HTML site needs --out. --q selects practices with the
+ * search query language, e.g. --q "category:security severity:>=warning".
+ */
+const logger = createLogger('warn', 'knowledge-best-practices');
+
+const FORMATS: ExportFormat[] = ['html', 'markdown', 'json', 'yaml', 'csv'];
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const option = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const format = args.find((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--')) as ExportFormat;
+  const outputDir = option('out');
+
+  if (!FORMATS.includes(format)) {
+    console.error(`Usage: export <${FORMATS.join('|')}> [--out dir] [--q expression] [--title text]`);
+    process.exit(2);
+  }
+  if (format === 'html' && !outputDir) {
+    console.error('The html format writes a site and needs --out <dir>');
+    process.exit(2);
+  }
+
+  const config = await loadConfig(logger);
+  const provider = new BestPracticesProvider({ ...config, syncOnStart: false });
+  await provider.syncPractices();
+
+  const q = option('q');
+  const parsed = q !== undefined ? provider.parseFilter(q) : undefined;
+  for (const error of parsed?.errors || []) {
+    console.error(`q:${error.position + 1}  ${error.code}  ${error.message}`);
+  }
+  if (parsed && parsed.errors.length > 0) process.exit(2);
+
+  const result = await provider.exportPractices({ format, filter: parsed?.query, title: option('title'), outputDir });
+
+  if (outputDir) {
+    console.log(`${result.practiceCount} practices exported to ${result.files.length} files in ${outputDir}`);
+  } else {
+    process.stdout.write(result.files[0].content);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  logger.error(error, 'Export failed');
+  process.exit(2);
+});
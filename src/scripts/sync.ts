@@ -0,0 +1,61 @@
+import { createLogger } from '@xorng/template-base';
+import { loadConfig } from '../config.js';
+import { BestPracticesProvider } from '../provider/BestPracticesProvider.js';
+import type { SyncReport } from '../types/index.js';
+
+/**
+ * Sync practice sources and update their manifests.
+ *
+ * Usage: sync [source] [--json]
+ *
+ * Only files changed since the last sync are parsed; running this before
+ * starting the server (or in CI) keeps startup fast for large sources.
+ * Exits non-zero when a source fails to sync.
+ */
+const logger = createLogger('warn', 'knowledge-best-practices');
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const [sourceName] = args.filter(a => !a.startsWith('--'));
+
+  const config = await loadConfig(logger);
+  const provider = new BestPracticesProvider({ ...config, syncOnStart: false });
+  const report = await provider.syncPractices(sourceName);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  process.exit(report.sources.some(s => s.error) ? 1 : 0);
+}
+
+function printReport(report: SyncReport): void {
+  for (const source of report.sources) {
+    if (source.error) {
+      console.log(`${source.source}  failed  ${source.error}`);
+      continue;
+    }
+    console.log(
+      `${source.source}  ${source.added} added, ${source.updated} updated, ` +
+      `${source.removed} removed, ${source.unchanged} unchanged ` +
+      `(${source.parsedFiles} files parsed, ${source.reusedFiles} reused)`
+    );
+    if (source.vanishedIds?.length) {
+      console.log(`  vanished without an alias: ${source.vanishedIds.join(', ')}`);
+    }
+  }
+
+  console.log('');
+  console.log(
+    `${report.added} added, ${report.updated} updated, ` +
+    `${report.removed} removed, ${report.unchanged} unchanged`
+  );
+}
+
+main().catch((error) => {
+  logger.error(error, 'Sync failed');
+  process.exit(2);
+});
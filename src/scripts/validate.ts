@@ -0,0 +1,88 @@
+import * as path from 'path';
+import { createLogger } from '@xorng/template-base';
+import { loadConfig } from '../config.js';
+import { GitPracticeSource } from '../sources/GitPracticeSource.js';
+import { UrlPracticeSource } from '../sources/UrlPracticeSource.js';
+import { PracticeValidator, formatsForSource, type ValidationTarget } from '../validation/index.js';
+import type { ValidationReport } from '../types/index.js';
+
+/**
+ * Validate practice sources.
+ *
+ * Usage: validate [dir...] [--json] [--strict]
+ *
+ * With directories, each is validated as a local source in every format.
+ * Otherwise the configured sources are validated (git and url sources are
+ * checked out / downloaded first). Exits non-zero when errors are found,
+ * or warnings with --strict.
+ */
+const logger = createLogger('warn', 'knowledge-best-practices');
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const strict = args.includes('--strict');
+  const dirs = args.filter(a => !a.startsWith('--'));
+
+  const targets = dirs.length > 0
+    ? dirs.map((dir): ValidationTarget => ({
+      config: { name: path.basename(path.resolve(dir)), type: 'local', path: dir, format: 'markdown' },
+      rootDir: dir,
+      formats: ['markdown', 'yaml', 'json'],
+    }))
+    : await configuredTargets();
+
+  const report = await new PracticeValidator().validate(targets);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  const failed = !report.valid || (strict && report.warningCount > 0);
+  process.exit(failed ? 1 : 0);
+}
+
+async function configuredTargets(): Promise<ValidationTarget[]> {
+  const config = await loadConfig(logger);
+  const targets: ValidationTarget[] = [];
+
+  for (const sourceConfig of config.sources) {
+    let rootDir = sourceConfig.path;
+
+    try {
+      if (sourceConfig.type === 'git') {
+        rootDir = await new GitPracticeSource(sourceConfig).checkout(logger);
+      } else if (sourceConfig.type === 'url') {
+        rootDir = await new UrlPracticeSource(sourceConfig).download(logger);
+      }
+    } catch (error) {
+      logger.error({ source: sourceConfig.name, error }, 'Failed to fetch source');
+    }
+
+    targets.push({ config: sourceConfig, rootDir, formats: formatsForSource(sourceConfig) });
+  }
+
+  return targets;
+}
+
+function printReport(report: ValidationReport): void {
+  for (const issue of report.issues) {
+    const location = issue.file
+      ? `${issue.source}:${issue.file}${issue.line ? `:${issue.line}` : ''}`
+      : issue.source;
+    console.log(`${location}  ${issue.level}  ${issue.code}  ${issue.message}`);
+  }
+
+  console.log('');
+  console.log(
+    `${report.fileCount} files, ${report.practiceCount} practices: ` +
+    `${report.errorCount} errors, ${report.warningCount} warnings`
+  );
+}
+
+main().catch((error) => {
+  logger.error(error, 'Validation failed');
+  process.exit(2);
+});
@@ -0,0 +1,119 @@
+/**
+ * Field of a practice indexed for lexical search
+ */
+export type SearchField = 'title' | 'description' | 'tags' | 'lintRules';
+
+export const DEFAULT_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  description: 1,
+  tags: 2,
+  lintRules: 2,
+};
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Text of each field of an indexed item
+ */
+export type IndexedFields = Record<SearchField, string>;
+
+/**
+ * Lower-cased word tokens with plurals trimmed; lint rule IDs like
+ * `@typescript-eslint/no-explicit-any` also yield their parts
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[@a-z0-9][\w@/.-]*/g) || []) {
+    const clean = word.replace(/[./-]+$/, '');
+    if (clean.length > 1) tokens.push(clean);
+    if (/[/.-]/.test(clean)) {
+      tokens.push(...clean.split(/[@/.-]+/).filter(part => part.length > 1).map(singular));
+    } else if (singular(clean) !== clean) {
+      tokens[tokens.length - 1] = singular(clean);
+    }
+  }
+  return tokens;
+}
+
+function singular(word: string): string {
+  if (word.length <= 3 || word.endsWith('ss')) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+/**
+ * BM25 index with per-field weights (BM25F-style).
+ *
+ * Each field keeps its own term frequencies and length normalisation; a
+ * document's score is the weighted sum of its field scores.
+ */
+export class Bm25Index {
+  private fieldWeights: Record<SearchField, number>;
+  private fields: Array<{ id: string; terms: Record<SearchField, Map<string, number>>; lengths: Record<SearchField, number> }> = [];
+  private averageLengths: Record<SearchField, number> = { title: 0, description: 0, tags: 0, lintRules: 0 };
+  private documentFrequency: Map<string, number> = new Map();
+
+  constructor(items: Array<{ id: string; fields: IndexedFields }>, fieldWeights?: Partial<Record<SearchField, number>>) {
+    this.fieldWeights = { ...DEFAULT_FIELD_WEIGHTS, ...fieldWeights };
+
+    for (const item of items) {
+      const terms = {} as Record<SearchField, Map<string, number>>;
+      const lengths = {} as Record<SearchField, number>;
+      const seen = new Set<string>();
+
+      for (const field of Object.keys(DEFAULT_FIELD_WEIGHTS) as SearchField[]) {
+        const tokens = tokenize(item.fields[field]);
+        const counts = new Map<string, number>();
+        for (const token of tokens) {
+          counts.set(token, (counts.get(token) || 0) + 1);
+          seen.add(token);
+        }
+        terms[field] = counts;
+        lengths[field] = tokens.length;
+        this.averageLengths[field] += tokens.length;
+      }
+
+      for (const token of seen) {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
+      }
+      this.fields.push({ id: item.id, terms, lengths });
+    }
+
+    for (const field of Object.keys(this.averageLengths) as SearchField[]) {
+      this.averageLengths[field] = items.length > 0 ? this.averageLengths[field] / items.length : 0;
+    }
+  }
+
+  /**
+   * Scores of every item matching at least one query term
+   */
+  score(query: string): Map<string, { score: number; matchedTerms: Partial<Record<SearchField, string[]>> }> {
+    const queryTerms = [...new Set(tokenize(query))];
+    const results = new Map<string, { score: number; matchedTerms: Partial<Record<SearchField, string[]>> }>();
+    const total = this.fields.length;
+
+    for (const item of this.fields) {
+      let score = 0;
+      const matchedTerms: Partial<Record<SearchField, string[]>> = {};
+
+      for (const term of queryTerms) {
+        const df = this.documentFrequency.get(term);
+        if (!df) continue;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+
+        for (const field of Object.keys(item.terms) as SearchField[]) {
+          const tf = item.terms[field].get(term);
+          if (!tf) continue;
+          const norm = 1 - B + B * (item.lengths[field] / (this.averageLengths[field] || 1));
+          score += this.fieldWeights[field] * idf * (tf * (K1 + 1)) / (tf + K1 * norm);
+          (matchedTerms[field] ||= []).push(term);
+        }
+      }
+
+      if (score > 0) results.set(item.id, { score, matchedTerms });
+    }
+
+    return results;
+  }
+}
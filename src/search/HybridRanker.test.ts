@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { HashingEmbedder, type Embedder } from './embedders.js';
+import { practiceDoc } from '../sources/testing.js';
+import { HybridRanker } from './HybridRanker.js';
+
+const practices = [
+  practiceDoc({
+    id: 'parameterized-queries',
+    title: 'Use parameterized queries',
+    description: 'Pass user input to SQL as bound parameters.',
+    severity: 'error',
+    tags: ['sql-injection'],
+  }),
+  practiceDoc({
+    id: 'validate-input',
+    title: 'Validate all input',
+    description: 'Check untrusted input against a schema at the boundary.',
+    severity: 'warning',
+  }),
+  practiceDoc({
+    id: 'name-booleans',
+    title: 'Name booleans as questions',
+    description: 'Prefix booleans with is, has or can.',
+    severity: 'info',
+    lintRules: ['@typescript-eslint/naming-convention'],
+  }),
+];
+
+const ranker = (options: ConstructorParameters<typeof HybridRanker>[0] = {}): HybridRanker => {
+  const hybrid = new HybridRanker({ embedder: new HashingEmbedder(), ...options });
+  hybrid.setDocuments(practices);
+  return hybrid;
+};
+
+describe('HybridRanker', () => {
+  it('combines BM25 and hashed-embedding scores and explains them', async () => {
+    const [first, ...rest] = await ranker().rank('parameterized queries');
+
+    expect(first.document.id).toBe('org:guide.yaml#parameterized-queries');
+    expect(first.explanation).toMatchObject({
+      lexical: 1,
+      severityBoost: 1,
+      embedder: 'hashing-512',
+      matchedTerms: { title: ['parameterized', 'query'] },
+    });
+    expect(first.explanation.semantic).toBeGreaterThan(0.3);
+    expect(rest.every(result => result.score < first.score)).toBe(true);
+  });
+
+  it('matches spelling variants through character trigrams', async () => {
+    const results = await ranker({ lexicalWeight: 0, semanticWeight: 1 }).rank('parameterised');
+
+    expect(results[0].document.metadata.practiceId).toBe('parameterized-queries');
+    expect(results[0].explanation.lexical).toBe(0);
+  });
+
+  it('ranks a blank query by severity when boosting', async () => {
+    const results = await ranker({ severityBoost: 0.5 }).rank('');
+
+    expect(results.map(r => [r.document.metadata.practiceId, r.score])).toEqual([
+      ['parameterized-queries', 1.5],
+      ['validate-input', 1.333],
+      ['name-booleans', 1],
+    ]);
+  });
+
+  it('normalises lexical scores among the filtered candidates', async () => {
+    const results = await ranker({ semanticWeight: 0 })
+      .rank('input', doc => doc.metadata.practiceId !== 'validate-input');
+
+    expect(results.map(r => [r.document.metadata.practiceId, r.explanation.lexical])).toEqual([
+      ['parameterized-queries', 1],
+    ]);
+  });
+
+  it('falls back to lexical ranking when the embedder fails', async () => {
+    const warnings: unknown[] = [];
+    const failing: Embedder = { name: 'broken', embed: async () => { throw new Error('model missing'); } };
+
+    const results = await ranker({ embedder: failing, logger: { warn: (data: unknown) => warnings.push(data) } as never })
+      .rank('booleans');
+
+    expect(results[0].document.metadata.practiceId).toBe('name-booleans');
+    expect(results[0].explanation).toMatchObject({ lexical: 1, semantic: 0, embedder: 'none' });
+    expect(warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import type { Document, SourceContext } from '@xorng/template-knowledge';
+import { SEVERITY_RANK, type PracticeSeverity, type RankingConfig, type RankingExplanation } from '../types/index.js';
+import { parsePracticeContent } from '../analysis/index.js';
+import { Bm25Index, type IndexedFields } from './Bm25Index.js';
+import { cosineSimilarity, type Embedder } from './embedders.js';
+
+/**
+ * Options for hybrid ranking; unset values use the `RankingConfig` defaults
+ */
+export interface HybridRankerOptions extends Partial<Omit<RankingConfig, 'embedder' | 'model' | 'dimensions'>> {
+  embedder?: Embedder;
+  logger?: SourceContext['logger'];
+}
+
+/**
+ * Practice with its hybrid score
+ */
+export interface RankedPractice {
+  document: Document;
+  score: number;
+  explanation: RankingExplanation;
+}
+
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Ranks practices by BM25 over their title, description, tags and lint rules
+ * combined with embedding similarity.
+ *
+ * Lexical scores are normalised to the best match of the query, semantic
+ * scores are the cosine similarity of query and practice vectors, and the
+ * weighted mean is optionally boosted by severity. Practice vectors are
+ * cached by content, so re-indexing after a sync only embeds what changed.
+ */
+export class HybridRanker {
+  private options: HybridRankerOptions;
+  private documents: Document[] = [];
+  private index = new Bm25Index([]);
+  private vectors: Map<string, number[]> = new Map();
+  private embedFailed = false;
+
+  constructor(options: HybridRankerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Replace the ranked documents
+   */
+  setDocuments(documents: Document[]): void {
+    this.documents = documents;
+    this.index = new Bm25Index(
+      documents.map(doc => ({ id: doc.id, fields: this.fields(doc) })),
+      this.options.fieldWeights
+    );
+  }
+
+  /**
+   * Rank the documents passing `filter`; a blank query keeps every candidate
+   * with equal relevance, ordered by severity when boosting
+   */
+  async rank(query: string, filter?: (doc: Document) => boolean): Promise<RankedPractice[]> {
+    const lexicalWeight = this.options.lexicalWeight ?? 0.7;
+    const semanticWeight = this.options.semanticWeight ?? 0.3;
+    const severityBoost = this.options.severityBoost ?? 0;
+    const minScore = this.options.minScore ?? 0.05;
+
+    const candidates = filter ? this.documents.filter(filter) : this.documents;
+    const blank = query.trim() === '';
+
+    const lexical = this.index.score(query);
+    // Normalise to the best match among the candidates, not the whole index
+    const best = Math.max(0, ...candidates.map(doc => lexical.get(doc.id)?.score ?? 0));
+    const semantic = semanticWeight > 0 && !blank ? await this.semanticScores(query) : undefined;
+    const embedder = semantic ? this.options.embedder!.name : 'none';
+
+    const results: RankedPractice[] = [];
+    for (const document of candidates) {
+      const match = lexical.get(document.id);
+      const lexicalScore = match && best > 0 ? match.score / best : 0;
+      const semanticScore = semantic?.get(document.id) ?? 0;
+
+      let base = semantic
+        ? (lexicalWeight * lexicalScore + semanticWeight * semanticScore) / ((lexicalWeight + semanticWeight) || 1)
+        : lexicalScore;
+      if (blank) base = 1;
+      const severity = (document.metadata.severity as PracticeSeverity) || 'suggestion';
+      const boost = 1 + severityBoost * SEVERITY_RANK[severity] / SEVERITY_RANK.error;
+      const score = base * boost;
+      if (score < minScore) continue;
+
+      results.push({
+        document,
+        score: round(score),
+        explanation: {
+          score: round(score),
+          lexical: round(lexicalScore),
+          semantic: round(semanticScore),
+          severityBoost: round(boost),
+          matchedTerms: match?.matchedTerms || {},
+          embedder,
+        },
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score || a.document.id.localeCompare(b.document.id));
+  }
+
+  /**
+   * Similarity of each document to the query, or undefined without a working embedder
+   */
+  private async semanticScores(query: string): Promise<Map<string, number> | undefined> {
+    const embedder = this.options.embedder;
+    if (!embedder) return undefined;
+
+    try {
+      const texts = this.documents.map(doc => this.embeddingText(doc));
+      const keys = texts.map(text => `${embedder.name}:${createHash('sha256').update(text).digest('hex')}`);
+      const missing = [...new Set(keys.filter(key => !this.vectors.has(key)))];
+      const missingTexts = missing.map(key => texts[keys.indexOf(key)]);
+
+      for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+        const vectors = await embedder.embed(missingTexts.slice(i, i + EMBED_BATCH_SIZE));
+        vectors.forEach((vector, j) => this.vectors.set(missing[i + j], vector));
+      }
+
+      // Drop vectors of documents that are gone
+      const live = new Set(keys);
+      for (const key of this.vectors.keys()) {
+        if (!live.has(key)) this.vectors.delete(key);
+      }
+
+      const [queryVector] = await embedder.embed([query]);
+      this.embedFailed = false;
+      return new Map(this.documents.map((doc, i) => [
+        doc.id,
+        Math.max(0, cosineSimilarity(queryVector, this.vectors.get(keys[i])!)),
+      ]));
+    } catch (error) {
+      if (!this.embedFailed) {
+        this.options.logger?.warn({ embedder: embedder.name, error }, 'Embedding failed, ranking lexically');
+        this.embedFailed = true;
+      }
+      return undefined;
+    }
+  }
+
+  private fields(doc: Document): IndexedFields {
+    return {
+      title: doc.title || (doc.metadata.practiceId as string) || '',
+      description: parsePracticeContent(doc.content).description,
+      tags: ((doc.metadata.tags as string[]) || []).join(' '),
+      lintRules: ((doc.metadata.lintRules as string[]) || []).join(' '),
+    };
+  }
+
+  private embeddingText(doc: Document): string {
+    const { title, description, tags } = this.fields(doc);
+    return [title, description, tags].filter(Boolean).join('\n');
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
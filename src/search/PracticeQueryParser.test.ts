@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PracticeQueryParser } from './PracticeQueryParser.js';
+
+const parse = (expression: string) => new PracticeQueryParser().parse(expression);
+
+describe('PracticeQueryParser', () => {
+  it('turns qualifiers, words and phrases into a practice query', () => {
+    const { query, errors } = parse(
+      'severity:>=warning category:security tag:injection lint:@typescript-eslint/* "parameterized queries" -framework:django sql'
+    );
+
+    expect(errors).toEqual([]);
+    expect(query).toEqual({
+      query: 'parameterized queries sql',
+      minSeverity: 'warning',
+      category: ['security'],
+      tags: ['injection'],
+      lintRules: ['@typescript-eslint/*'],
+      phrases: ['parameterized queries'],
+      excludeFrameworks: ['django'],
+    });
+  });
+
+  it('reads lists, aliases and negations', () => {
+    const { query } = parse('lang:typescript,javascript -cat:naming -tag:legacy,draft -"console.log" -status:deprecated sev:error,warning');
+
+    expect(query).toEqual({
+      query: '',
+      language: ['typescript', 'javascript'],
+      category: ['formatting', 'architecture', 'testing', 'security', 'performance', 'documentation',
+        'error-handling', 'logging', 'dependency-management', 'general'],
+      excludeTags: ['legacy', 'draft'],
+      excludePhrases: ['console.log'],
+      status: ['active'],
+      severity: ['error', 'warning'],
+    });
+  });
+
+  it('maps strict severity comparisons to the neighbouring level', () => {
+    expect(parse('severity:>suggestion').query).toMatchObject({ minSeverity: 'warning' });
+    expect(parse('severity:<error').query).toMatchObject({ maxSeverity: 'warning' });
+    expect(parse('severity:=info').query).toMatchObject({ severity: ['info'] });
+  });
+
+  it('reports every problem with its offset', () => {
+    const { query, errors } = parse('colour:red category:securty,naming severity:>error tag:a,b -severity:>=info "open');
+
+    expect(errors.map(e => [e.code, e.position, e.length])).toEqual([
+      ['unknown-field', 0, 6],
+      ['invalid-value', 20, 7],
+      ['invalid-operator', 44, 6],
+      ['invalid-value', 55, 3],
+      ['invalid-operator', 59, 16],
+      ['unterminated-quote', 76, 5],
+    ]);
+    expect(errors[1].message).toBe(
+      "Invalid category 'securty'; expected one of naming, formatting, architecture, testing, security, performance, " +
+      'documentation, error-handling, logging, dependency-management, general'
+    );
+    expect(query).toMatchObject({ category: ['naming'], query: 'open', phrases: ['open'] });
+  });
+
+  it('reports empty values', () => {
+    expect(parse('tag: lint:a,,b').errors.map(e => [e.code, e.position])).toEqual([
+      ['empty-value', 0],
+      ['empty-value', 12],
+    ]);
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  PracticeSchema,
+  type PracticeCategory,
+  type PracticeQuery,
+  type PracticeSeverity,
+  type PracticeStatus,
+  type QuerySyntaxError,
+} from '../types/index.js';
+import { DEFAULT_PRACTICE_STATUSES, PRACTICE_STATUSES } from './filters.js';
+
+const CATEGORIES: PracticeCategory[] = PracticeSchema.shape.category.options;
+
+const SEVERITIES: PracticeSeverity[] = ['info', 'suggestion', 'warning', 'error'];
+
+type Field = 'severity' | 'category' | 'language' | 'framework' | 'tag' | 'lint' | 'status';
+
+const FIELDS: Record<string, Field> = {
+  severity: 'severity',
+  sev: 'severity',
+  category: 'category',
+  cat: 'category',
+  language: 'language',
+  lang: 'language',
+  framework: 'framework',
+  fw: 'framework',
+  tag: 'tag',
+  tags: 'tag',
+  lint: 'lint',
+  rule: 'lint',
+  status: 'status',
+};
+
+/**
+ * Token of a query expression, with its place in the input
+ */
+interface Token {
+  negated: boolean;
+  field?: string;
+  value: string;
+  quoted: boolean;
+  position: number;
+  /** Offset of the value, after any `field:` prefix */
+  valuePosition: number;
+  length: number;
+}
+
+/**
+ * Result of parsing a query expression
+ */
+export interface ParsedPracticeQuery {
+  query: PracticeQuery;
+  errors: QuerySyntaxError[];
+}
+
+/**
+ * Parses practice query expressions such as
+ * `severity:>=warning category:security tag:injection lint:@typescript-eslint/* "parameterized queries" -framework:django`.
+ *
+ * Bare words and quoted phrases are searched for; quoted phrases must also
+ * appear in the practice. `field:a,b` matches any of the values, a leading `-`
+ * negates a qualifier, word or phrase, and `lint:` values are globs (`*`, `?`).
+ * Each `tag:` is required; `-tag:a,b` excludes any of the listed tags.
+ * `severity:` takes `>=`, `>`, `<=`, `<` or `=` before a level, and
+ * `-status:` removes statuses from the default active and deprecated. All problems
+ * are reported with their offset instead of stopping at the first one.
+ */
+export class PracticeQueryParser {
+  parse(expression: string): ParsedPracticeQuery {
+    const errors: QuerySyntaxError[] = [];
+    const tokens = this.tokenize(expression, errors);
+
+    const words: string[] = [];
+    const query: PracticeQuery = { query: '' };
+    const categories = { include: new Set<PracticeCategory>(), exclude: new Set<PracticeCategory>() };
+    const severities = { include: new Set<PracticeSeverity>(), exclude: new Set<PracticeSeverity>() };
+    const statuses = { include: new Set<PracticeStatus>(), exclude: new Set<PracticeStatus>() };
+
+    for (const token of tokens) {
+      if (token.field === undefined) {
+        if (token.negated) {
+          push(query, 'excludePhrases', token.value);
+        } else {
+          words.push(token.value);
+          if (token.quoted) push(query, 'phrases', token.value);
+        }
+        continue;
+      }
+
+      const field = FIELDS[token.field.toLowerCase()];
+      if (!field) {
+        errors.push({
+          code: 'unknown-field',
+          message: `Unknown field '${token.field}'; expected one of ${Object.keys(FIELDS).join(', ')}`,
+          position: token.position,
+          length: token.field.length,
+        });
+        continue;
+      }
+      if (token.value === '') {
+        errors.push({
+          code: 'empty-value',
+          message: `Field '${token.field}' needs a value`,
+          position: token.position,
+          length: token.length,
+        });
+        continue;
+      }
+
+      if (field === 'severity') {
+        this.severity(token, query, severities, errors);
+        continue;
+      }
+
+      const values = this.values(token, errors);
+      switch (field) {
+        case 'category':
+          for (const { value, position } of values) {
+            if (!CATEGORIES.includes(value as PracticeCategory)) {
+              errors.push(invalidValue(value, position, 'category', CATEGORIES));
+              continue;
+            }
+            (token.negated ? categories.exclude : categories.include).add(value as PracticeCategory);
+          }
+          break;
+        case 'status':
+          for (const { value, position } of values) {
+            if (!PRACTICE_STATUSES.includes(value as PracticeStatus)) {
+              errors.push(invalidValue(value, position, 'status', PRACTICE_STATUSES));
+              continue;
+            }
+            (token.negated ? statuses.exclude : statuses.include).add(value as PracticeStatus);
+          }
+          break;
+        case 'language':
+          if (token.negated) push(query, 'excludeLanguages', ...values.map(v => v.value));
+          else query.language = [...asList(query.language), ...values.map(v => v.value)];
+          break;
+        case 'framework':
+          if (token.negated) push(query, 'excludeFrameworks', ...values.map(v => v.value));
+          else query.framework = [...asList(query.framework), ...values.map(v => v.value)];
+          break;
+        case 'tag':
+          // Every tag qualifier is required, so a list would be ambiguous
+          if (token.negated) push(query, 'excludeTags', ...values.map(v => v.value));
+          else if (values.length === 1) push(query, 'tags', values[0].value);
+          else errors.push({
+            code: 'invalid-value',
+            message: 'tag: takes one value; repeat tag: to require several tags',
+            position: token.valuePosition,
+            length: token.value.length,
+          });
+          break;
+        case 'lint':
+          push(query, token.negated ? 'excludeLintRules' : 'lintRules', ...values.map(v => v.value));
+          break;
+      }
+    }
+
+    if (categories.include.size > 0 || categories.exclude.size > 0) {
+      const included = categories.include.size > 0 ? [...categories.include] : CATEGORIES;
+      query.category = included.filter(c => !categories.exclude.has(c));
+    }
+    if (severities.include.size > 0 || severities.exclude.size > 0) {
+      const included = severities.include.size > 0 ? [...severities.include] : SEVERITIES;
+      query.severity = included.filter(s => !severities.exclude.has(s));
+    }
+    if (statuses.include.size > 0 || statuses.exclude.size > 0) {
+      const included = statuses.include.size > 0 ? [...statuses.include] : DEFAULT_PRACTICE_STATUSES;
+      query.status = included.filter(s => !statuses.exclude.has(s));
+    }
+
+    query.query = words.join(' ');
+    return { query, errors: errors.sort((a, b) => a.position - b.position) };
+  }
+
+  /**
+   * `severity:warning`, `severity:error,warning` or `severity:>=warning`
+   */
+  private severity(
+    token: Token,
+    query: PracticeQuery,
+    severities: { include: Set<PracticeSeverity>; exclude: Set<PracticeSeverity> },
+    errors: QuerySyntaxError[]
+  ): void {
+    const match = /^(>=|<=|>|<|=)?(.*)$/.exec(token.value)!;
+    const operator = match[1];
+    const offset = operator?.length || 0;
+
+    if (operator && operator !== '=') {
+      const level = match[2] as PracticeSeverity;
+      const rank = SEVERITIES.indexOf(level);
+      if (rank === -1) {
+        errors.push(invalidValue(match[2], token.valuePosition + offset, 'severity', SEVERITIES));
+        return;
+      }
+      if (token.negated) {
+        errors.push({
+          code: 'invalid-operator',
+          message: `Negated severity cannot use '${operator}'; use the opposite comparison`,
+          position: token.position,
+          length: token.length,
+        });
+        return;
+      }
+
+      const min = operator === '>=' ? rank : operator === '>' ? rank + 1 : undefined;
+      const max = operator === '<=' ? rank : operator === '<' ? rank - 1 : undefined;
+      if ((min !== undefined && min >= SEVERITIES.length) || (max !== undefined && max < 0)) {
+        errors.push({
+          code: 'invalid-operator',
+          message: `No severity is ${operator} ${level}`,
+          position: token.valuePosition,
+          length: token.value.length,
+        });
+        return;
+      }
+      if (min !== undefined) query.minSeverity = SEVERITIES[min];
+      if (max !== undefined) query.maxSeverity = SEVERITIES[max];
+      return;
+    }
+
+    for (const { value, position } of this.values({ ...token, value: match[2], valuePosition: token.valuePosition + offset }, errors)) {
+      if (!SEVERITIES.includes(value as PracticeSeverity)) {
+        errors.push(invalidValue(value, position, 'severity', SEVERITIES));
+        continue;
+      }
+      (token.negated ? severities.exclude : severities.include).add(value as PracticeSeverity);
+    }
+  }
+
+  /**
+   * Comma-separated values of a qualifier with their offsets
+   */
+  private values(token: Token, errors: QuerySyntaxError[]): Array<{ value: string; position: number }> {
+    if (token.quoted) return [{ value: token.value, position: token.valuePosition }];
+
+    const values: Array<{ value: string; position: number }> = [];
+    let position = token.valuePosition;
+    for (const part of token.value.split(',')) {
+      if (part === '') {
+        errors.push({ code: 'empty-value', message: 'Empty value in list', position, length: 1 });
+      } else {
+        values.push({ value: part, position });
+      }
+      position += part.length + 1;
+    }
+    return values;
+  }
+
+  private tokenize(expression: string, errors: QuerySyntaxError[]): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      if (/\s/.test(expression[i])) {
+        i++;
+        continue;
+      }
+
+      const start = i;
+      const negated = expression[i] === '-' && i + 1 < expression.length && !/\s/.test(expression[i + 1]);
+      if (negated) i++;
+
+      let field: string | undefined;
+      const qualifier = /^([A-Za-z]+):/.exec(expression.slice(i));
+      if (qualifier) {
+        field = qualifier[1];
+        i += qualifier[0].length;
+      }
+
+      const valuePosition = i;
+      let value: string;
+      let quoted = false;
+      if (expression[i] === '"') {
+        const end = this.closingQuote(expression, i);
+        if (end === -1) {
+          errors.push({
+            code: 'unterminated-quote',
+            message: 'Missing closing quote',
+            position: i,
+            length: expression.length - i,
+          });
+          value = expression.slice(i + 1).replace(/\\"/g, '"');
+          i = expression.length;
+        } else {
+          value = expression.slice(i + 1, end).replace(/\\"/g, '"');
+          i = end + 1;
+        }
+        quoted = true;
+      } else {
+        while (i < expression.length && !/\s/.test(expression[i])) i++;
+        value = expression.slice(valuePosition, i);
+      }
+
+      tokens.push({ negated, field, value, quoted, position: start, valuePosition, length: i - start });
+    }
+
+    return tokens;
+  }
+
+  private closingQuote(expression: string, open: number): number {
+    for (let i = open + 1; i < expression.length; i++) {
+      if (expression[i] === '\\') {
+        i++;
+      } else if (expression[i] === '"') {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
+
+function push(query: PracticeQuery, key: 'tags' | 'excludeTags' | 'excludeLanguages' | 'excludeFrameworks' | 'lintRules' | 'excludeLintRules' | 'phrases' | 'excludePhrases', ...values: string[]): void {
+  query[key] = [...(query[key] || []), ...values];
+}
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function invalidValue(value: string, position: number, field: string, allowed: string[]): QuerySyntaxError {
+  return {
+    code: 'invalid-value',
+    message: `Invalid ${field} '${value}'; expected one of ${allowed.join(', ')}`,
+    position,
+    length: value.length,
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, queryFingerprint } from './cursor.js';
+
+describe('cursor', () => {
+  const fingerprint = queryFingerprint({ query: 'input', language: 'typescript', store: '3:42:2026-10-19' });
+
+  it('round-trips the offset for the same query', () => {
+    expect(decodeCursor(encodeCursor(20, fingerprint), fingerprint)).toBe(20);
+  });
+
+  it('fingerprints queries by value', () => {
+    expect(queryFingerprint({ query: 'input' })).toBe(queryFingerprint({ query: 'input' }));
+    expect(queryFingerprint({ query: 'input' })).not.toBe(queryFingerprint({ query: 'output' }));
+  });
+
+  it('rejects cursors of another query or changed practices', () => {
+    const other = queryFingerprint({ query: 'input', language: 'typescript', store: '4:42:2026-10-19' });
+
+    expect(() => decodeCursor(encodeCursor(20, fingerprint), other)).toThrow(/does not match this query/);
+  });
+
+  it('rejects malformed cursors', () => {
+    const negative = Buffer.from(JSON.stringify({ offset: -1, query: fingerprint })).toString('base64url');
+
+    expect(() => decodeCursor('not a cursor', fingerprint)).toThrow('Invalid cursor');
+    expect(() => decodeCursor(negative, fingerprint)).toThrow('Invalid cursor');
+    // JSON null and a bare number
+    expect(() => decodeCursor('bnVsbA', fingerprint)).toThrow('Invalid cursor');
+    expect(() => decodeCursor('NDI', fingerprint)).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+
+/**
+ * Position in a result list, tied to the query that produced it
+ */
+interface CursorState {
+  offset: number;
+  query: string;
+}
+
+/**
+ * Fingerprint of a query, its filters and the indexed documents; a cursor is
+ * only valid for the same fingerprint
+ */
+export function queryFingerprint(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Opaque cursor for the page starting at `offset`
+ */
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const state: CursorState = { offset, query: fingerprint };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Offset a cursor points to; throws if it is malformed or belongs to another
+ * query, or the practices changed since it was issued
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let state: unknown;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!isCursorState(state)) {
+    throw new Error('Invalid cursor');
+  }
+  if (state.query !== fingerprint) {
+    throw new Error('Cursor does not match this query or the practices have changed; search again without a cursor');
+  }
+  return state.offset;
+}
+
+function isCursorState(state: unknown): state is CursorState {
+  if (typeof state !== 'object' || state === null) return false;
+  const { offset } = state as { offset?: unknown };
+  return typeof offset === 'number' && Number.isInteger(offset) && offset >= 0;
+}
@@ -0,0 +1,148 @@
+import type { RankingConfig } from '../types/index.js';
+
+/**
+ * Turns text into vectors for semantic similarity
+ */
+export interface Embedder {
+  /** Identifies the backend and model; vectors from different names are not comparable */
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * The part of `@huggingface/transformers` the transformers embedder uses
+ */
+interface TransformersModule {
+  pipeline(task: 'feature-extraction', model: string, options: { dtype: 'fp32' }): Promise<FeatureExtractor>;
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+const DEFAULT_HASHING_DIMENSIONS = 512;
+const DEFAULT_TRANSFORMERS_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Deterministic embedder hashing words and character trigrams into a fixed
+ * number of dimensions.
+ *
+ * It needs no model, so results are stable across machines (and in tests);
+ * it captures shared vocabulary and spelling variants, not meaning.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+  private dimensions: number;
+
+  constructor(dimensions = DEFAULT_HASHING_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (const word of words) {
+      this.add(vector, `w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private add(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so collisions tend to cancel out
+    vector[hash % this.dimensions] += (hash & 0x80000000) ? -weight : weight;
+  }
+}
+
+/**
+ * Local sentence-embedding model run on the CPU with transformers.js.
+ *
+ * `@huggingface/transformers` is an optional peer dependency; the model is
+ * downloaded on first use and cached by the library.
+ */
+export class TransformersEmbedder implements Embedder {
+  readonly name: string;
+  private model: string;
+  private extractor?: Promise<FeatureExtractor>;
+
+  constructor(model = DEFAULT_TRANSFORMERS_MODEL) {
+    this.model = model;
+    this.name = `transformers:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.load();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  private load(): NonNullable<TransformersEmbedder['extractor']> {
+    if (!this.extractor) {
+      // Kept out of static imports so the package stays optional
+      const moduleName = '@huggingface/transformers';
+      this.extractor = (import(moduleName) as Promise<TransformersModule>).then(({ pipeline }) =>
+        pipeline('feature-extraction', this.model, { dtype: 'fp32' })
+      );
+      // A failed load is retried on the next query
+      this.extractor.catch(() => {
+        this.extractor = undefined;
+      });
+    }
+    return this.extractor;
+  }
+}
+
+/**
+ * Embedder configured for hybrid ranking, or undefined for lexical-only ranking
+ */
+export function createEmbedder(config: Partial<RankingConfig> = {}): Embedder | undefined {
+  switch (config.embedder || 'hashing') {
+    case 'none':
+      return undefined;
+    case 'transformers':
+      return new TransformersEmbedder(config.model);
+    case 'hashing':
+      return new HashingEmbedder(config.dimensions);
+  }
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
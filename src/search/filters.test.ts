@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { Practice } from '../types/index.js';
+import { practiceDoc } from '../sources/testing.js';
+import { matchesGlob, matchesPracticeQuery, mergePracticeQueries } from './filters.js';
+
+const securityDoc = (fields: Partial<Practice> & Pick<Practice, 'id'>) =>
+  practiceDoc({ description: 'See the team handbook.', category: 'security', severity: 'warning', ...fields });
+
+const typescript = securityDoc({
+  id: 'no-any',
+  language: 'typescript',
+  tags: ['Types'],
+  lintRules: ['@typescript-eslint/no-explicit-any'],
+});
+const general = securityDoc({ id: 'validate-input', language: 'general', severity: 'error' });
+const unlabelled = securityDoc({ id: 'small-functions', category: 'architecture', severity: 'suggestion' });
+const python = securityDoc({ id: 'type-hints', language: 'python', status: 'deprecated' });
+
+const matching = (query: Parameters<typeof matchesPracticeQuery>[1]) =>
+  [typescript, general, unlabelled, python].filter(doc => matchesPracticeQuery(doc, query)).map(doc => doc.title);
+
+describe('matchesPracticeQuery', () => {
+  it('matches language-agnostic practices for any requested language', () => {
+    expect(matching({ query: '', language: 'typescript' })).toEqual(['no-any', 'validate-input', 'small-functions']);
+    expect(matching({ query: '', language: ['python', 'go'] })).toEqual(['validate-input', 'small-functions', 'type-hints']);
+    expect(matching({ query: '', language: 'general' })).toEqual(['validate-input', 'small-functions']);
+  });
+
+  it('excludes languages, general included when asked', () => {
+    expect(matching({ query: '', excludeLanguages: ['general', 'python'] })).toEqual(['no-any']);
+  });
+
+  it('bounds severity and hides drafts and retired practices by default', () => {
+    expect(matching({ query: '', minSeverity: 'warning' })).toEqual(['no-any', 'validate-input', 'type-hints']);
+    expect(matching({ query: '', maxSeverity: 'warning' })).toEqual(['no-any', 'small-functions', 'type-hints']);
+    expect(matching({ query: '', status: 'active' })).toEqual(['no-any', 'validate-input', 'small-functions']);
+    expect(matchesPracticeQuery(securityDoc({ id: 'draft', status: 'draft' }), { query: '' })).toBe(false);
+  });
+
+  it('includes drafts and retired practices only when their status is requested', () => {
+    const draft = securityDoc({ id: 'draft', status: 'draft' });
+    const retired = securityDoc({ id: 'retired', status: 'retired', replacedBy: 'no-any' });
+
+    expect(matchesPracticeQuery(retired, { query: '' })).toBe(false);
+    expect(matchesPracticeQuery(draft, { query: '', status: ['active', 'draft'] })).toBe(true);
+    expect(matchesPracticeQuery(retired, { query: '', status: 'retired' })).toBe(true);
+    expect(matching({ query: '', status: 'deprecated' })).toEqual(['type-hints']);
+  });
+
+  it('matches tags case-insensitively, lint rule globs and phrases', () => {
+    expect(matching({ query: '', tags: ['types'] })).toEqual(['no-any']);
+    expect(matching({ query: '', lintRules: ['@typescript-eslint/*'] })).toEqual(['no-any']);
+    expect(matching({ query: '', excludeLintRules: ['*no-explicit-any'] })).toEqual(['validate-input', 'small-functions', 'type-hints']);
+    expect(matching({ query: '', phrases: ['team handbook'], excludePhrases: ['validate'] }))
+      .toEqual(['no-any', 'small-functions', 'type-hints']);
+  });
+});
+
+describe('mergePracticeQueries', () => {
+  it('intersects list filters, concatenates exclusions and keeps the tighter severity bounds', () => {
+    const merged = mergePracticeQueries(
+      { query: 'input', language: ['typescript', 'python'], minSeverity: 'suggestion', excludeTags: ['legacy'] },
+      { query: 'validation', language: 'python', minSeverity: 'warning', maxSeverity: 'error', excludeTags: ['draft'] }
+    );
+
+    expect(merged).toEqual({
+      query: 'input validation',
+      language: ['python'],
+      minSeverity: 'warning',
+      maxSeverity: 'error',
+      excludeTags: ['legacy', 'draft'],
+    });
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches whole values with * and ? and escapes other characters', () => {
+    expect(matchesGlob('@typescript-eslint/no-explicit-any', '@TYPESCRIPT-ESLINT/*')).toBe(true);
+    expect(matchesGlob('no-eval', 'no-eva?')).toBe(true);
+    expect(matchesGlob('no-eval', 'no-')).toBe(false);
+    expect(matchesGlob('a+b', 'a+b')).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import type { Document } from '@xorng/template-knowledge';
+import { SEVERITY_RANK, type PracticeQuery, type PracticeSeverity, type PracticeStatus } from '../types/index.js';
+
+export const PRACTICE_STATUSES: PracticeStatus[] = ['draft', 'active', 'deprecated', 'retired'];
+
+/**
+ * Statuses matched when a query does not ask for any; drafts and retired
+ * practices must be requested
+ */
+export const DEFAULT_PRACTICE_STATUSES: PracticeStatus[] = ['active', 'deprecated'];
+
+/**
+ * Whether a practice matches every filter of a query; list-valued filters
+ * match any of their values, and `general` practices match any language
+ */
+export function matchesPracticeQuery(doc: Document, query: PracticeQuery): boolean {
+  const meta = doc.metadata;
+  const severity = (meta.severity as PracticeSeverity) || 'suggestion';
+  const language = (meta.language as string) || 'general';
+
+  if (!matchesAny(meta.category, query.category)) return false;
+  // Language-agnostic practices apply to whichever language is asked for
+  if (language !== 'general' && !matchesAny(language, query.language)) return false;
+  if (!matchesAny(meta.framework, query.framework)) return false;
+  if (!matchesAny(severity, query.severity)) return false;
+  if (!matchesAny(meta.status || 'active', query.status ?? DEFAULT_PRACTICE_STATUSES)) return false;
+  if (query.minSeverity && SEVERITY_RANK[severity] < SEVERITY_RANK[query.minSeverity]) return false;
+  if (query.maxSeverity && SEVERITY_RANK[severity] > SEVERITY_RANK[query.maxSeverity]) return false;
+  if (query.excludeLanguages?.includes(language)) return false;
+  if (query.excludeFrameworks?.includes(meta.framework as string)) return false;
+
+  const tags = ((meta.tags as string[]) || []).map(t => t.toLowerCase());
+  if (query.tags?.some(tag => !tags.includes(tag.toLowerCase()))) return false;
+  if (query.excludeTags?.some(tag => tags.includes(tag.toLowerCase()))) return false;
+
+  const rules = (meta.lintRules as string[]) || [];
+  if (query.lintRules?.length && !rules.some(rule => query.lintRules!.some(glob => matchesGlob(rule, glob)))) return false;
+  if (query.excludeLintRules?.some(glob => rules.some(rule => matchesGlob(rule, glob)))) return false;
+
+  if (query.phrases?.length || query.excludePhrases?.length) {
+    const text = `${doc.title || ''}\n${doc.content}`.toLowerCase();
+    if (query.phrases?.some(phrase => !text.includes(phrase.toLowerCase()))) return false;
+    if (query.excludePhrases?.some(phrase => text.includes(phrase.toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Case-insensitive match of a whole value against a glob with `*` and `?`
+ */
+export function matchesGlob(value: string, glob: string): boolean {
+  const pattern = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`, 'i').test(value);
+}
+
+function matchesAny(value: unknown, filter: string | string[] | undefined): boolean {
+  if (filter === undefined) return true;
+  return asList(filter).includes(value as string);
+}
+
+/**
+ * Query matching only practices that match both queries
+ */
+export function mergePracticeQueries(a: PracticeQuery, b: PracticeQuery): PracticeQuery {
+  const merged: PracticeQuery = { ...a, ...b, query: [a.query, b.query].filter(Boolean).join(' ') };
+
+  // An empty intersection matches nothing, which is what both filters together mean
+  if (a.category !== undefined && b.category !== undefined) merged.category = intersect(a.category, b.category);
+  if (a.language !== undefined && b.language !== undefined) merged.language = intersect(a.language, b.language);
+  if (a.framework !== undefined && b.framework !== undefined) merged.framework = intersect(a.framework, b.framework);
+  if (a.severity !== undefined && b.severity !== undefined) merged.severity = intersect(a.severity, b.severity);
+  if (a.status !== undefined && b.status !== undefined) merged.status = intersect(a.status, b.status);
+
+  for (const key of ['tags', 'excludeTags', 'excludeLanguages', 'excludeFrameworks', 'lintRules', 'excludeLintRules', 'phrases', 'excludePhrases'] as const) {
+    if (a[key] || b[key]) merged[key] = [...(a[key] || []), ...(b[key] || [])];
+  }
+
+  if (a.minSeverity && b.minSeverity) {
+    merged.minSeverity = SEVERITY_RANK[a.minSeverity] > SEVERITY_RANK[b.minSeverity] ? a.minSeverity : b.minSeverity;
+  }
+  if (a.maxSeverity && b.maxSeverity) {
+    merged.maxSeverity = SEVERITY_RANK[a.maxSeverity] < SEVERITY_RANK[b.maxSeverity] ? a.maxSeverity : b.maxSeverity;
+  }
+
+  return merged;
+}
+
+function asList<T extends string>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function intersect<T extends string>(a: T | T[], b: T | T[]): T[] {
+  const other = asList(b);
+  return asList(a).filter(value => other.includes(value));
+}
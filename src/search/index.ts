@@ -0,0 +1,12 @@
+export { Bm25Index, tokenize, DEFAULT_FIELD_WEIGHTS, type SearchField, type IndexedFields } from './Bm25Index.js';
+export { HashingEmbedder, TransformersEmbedder, createEmbedder, cosineSimilarity, type Embedder } from './embedders.js';
+export { HybridRanker, type HybridRankerOptions, type RankedPractice } from './HybridRanker.js';
+export {
+  matchesPracticeQuery,
+  matchesGlob,
+  mergePracticeQueries,
+  PRACTICE_STATUSES,
+  DEFAULT_PRACTICE_STATUSES,
+} from './filters.js';
+export { encodeCursor, decodeCursor, queryFingerprint } from './cursor.js';
+export { PracticeQueryParser, type ParsedPracticeQuery } from './PracticeQueryParser.js';
@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import type { SourceConfig } from '../types/index.js';
+import { GitPracticeSource } from './GitPracticeSource.js';
+
+const context = {
+  logger: { info() {}, warn() {}, error() {}, debug() {} },
+} as unknown as SourceContext;
+
+const GUIDE_V1 = `# Team guide
+
+## Use strict equality
+
+Compare with === so values are not coerced.
+`;
+
+const GUIDE_V2 = `${GUIDE_V1}
+## Handle promise rejections
+
+Await or return every promise so rejections are not lost.
+`;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+    },
+  }).trim();
+}
+
+describe('GitPracticeSource', () => {
+  let root: string;
+  let remote: string;
+  let work: string;
+  let firstCommit: string;
+
+  const config = (overrides: Partial<SourceConfig> = {}): SourceConfig => ({
+    name: 'team',
+    type: 'git',
+    path: remote,
+    format: 'markdown',
+    cacheDir: path.join(root, 'cache', overrides.ref ?? 'default'),
+    ...overrides,
+  });
+
+  const commitGuide = async (content: string, message: string): Promise<string> => {
+    await fs.writeFile(path.join(work, 'guide.md'), content);
+    git(work, 'add', 'guide.md');
+    git(work, 'commit', '-m', message);
+    git(work, 'push', 'origin', 'HEAD:main');
+    return git(work, 'rev-parse', 'HEAD');
+  };
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'git-source-'));
+    remote = path.join(root, 'remote.git');
+    work = path.join(root, 'work');
+
+    git(root, 'init', '--bare', '--initial-branch=main', remote);
+    git(root, 'clone', remote, work);
+    git(work, 'symbolic-ref', 'HEAD', 'refs/heads/main');
+    firstCommit = await commitGuide(GUIDE_V1, 'First guide');
+    git(work, 'tag', 'v1');
+    git(work, 'push', 'origin', 'v1');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('clones the default branch and annotates documents with the commit', async () => {
+    const source = new GitPracticeSource(config());
+    await source.connect(context);
+    const { documents } = await source.fetchDocuments(context);
+    await source.disconnect();
+
+    const practices = documents.filter(doc => doc.type === 'practice');
+    expect(practices.map(doc => doc.title)).toEqual(['Use strict equality']);
+    expect(practices[0].metadata.commit).toBe(firstCommit);
+    expect(practices[0].metadata.repository).toBe(remote);
+    expect(source.getCommit()).toBe(firstCommit);
+  });
+
+  it('fetches upstream commits on later syncs', async () => {
+    const source = new GitPracticeSource(config({ cacheDir: path.join(root, 'cache', 'fetch') }));
+    await source.connect(context);
+    await source.fetchDocuments(context);
+
+    const secondCommit = await commitGuide(GUIDE_V2, 'Second practice');
+    const { documents } = await source.fetchDocuments(context);
+    await source.disconnect();
+
+    expect(source.getCommit()).toBe(secondCommit);
+    expect(documents.filter(doc => doc.type === 'practice').map(doc => doc.title)).toEqual([
+      'Use strict equality',
+      'Handle promise rejections',
+    ]);
+  });
+
+  it('pins the configured tag', async () => {
+    const source = new GitPracticeSource(config({ ref: 'v1' }));
+    await source.connect(context);
+    const { documents } = await source.fetchDocuments(context);
+    await source.disconnect();
+
+    expect(source.getCommit()).toBe(firstCommit);
+    expect(documents.filter(doc => doc.type === 'practice')).toHaveLength(1);
+    expect(documents[0].metadata.ref).toBe('v1');
+  });
+
+  it('rejects repository paths and refs that git would read as options', async () => {
+    await expect(new GitPracticeSource(config({ path: '--upload-pack=touch pwned' })).connect(context))
+      .rejects.toThrow(/Invalid git repository/);
+    await expect(new GitPracticeSource(config({ ref: '--output=pwned' })).connect(context))
+      .rejects.toThrow(/Invalid git ref/);
+  });
+});
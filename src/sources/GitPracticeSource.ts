@@ -0,0 +1,207 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import {
+  FileSource,
+  type SourceContext,
+  type SourceResult,
+  type Document,
+} from '@xorng/template-knowledge';
+import type { SourceConfig, SourceSyncStats } from '../types/index.js';
+import { MarkdownPracticeSource } from './MarkdownPracticeSource.js';
+import { StructuredPracticeSource } from './StructuredPracticeSource.js';
+import { ImportedPracticeSource } from './ImportedPracticeSource.js';
+import { resolveCacheDir } from './cache.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Source for loading practices from a git repository.
+ *
+ * The repository is cloned (or fetched) into a cache directory and pinned to
+ * the configured branch, tag or commit. The checkout is then parsed by the
+ * markdown or structured source matching the configured format, or read by
+ * the configured importer.
+ */
+export class GitPracticeSource extends FileSource {
+  private config: SourceConfig;
+  private inner: MarkdownPracticeSource | StructuredPracticeSource | ImportedPracticeSource;
+  private commit?: string;
+  private freshCheckout = false;
+
+  constructor(config: SourceConfig) {
+    const checkoutPath = resolveCacheDir(config, 'git');
+    super(config.name, `Git practices from ${config.path}`, checkoutPath);
+    this.config = config;
+
+    const innerConfig: SourceConfig = { ...config, type: 'local', path: checkoutPath, watch: false };
+    if (config.importer) {
+      this.inner = new ImportedPracticeSource(innerConfig);
+    } else if (config.format === 'markdown') {
+      this.inner = new MarkdownPracticeSource(innerConfig);
+    } else {
+      this.inner = new StructuredPracticeSource(innerConfig);
+    }
+  }
+
+  async connect(context: SourceContext): Promise<void> {
+    await this.checkout(context.logger);
+    this.freshCheckout = true;
+    await this.inner.connect(context);
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    await this.inner.disconnect();
+  }
+
+  async fetchDocuments(context: SourceContext): Promise<SourceResult> {
+    // connect() has just checked out; later syncs fetch upstream changes first
+    if (!this.freshCheckout) {
+      await this.checkout(context.logger);
+    }
+    this.freshCheckout = false;
+
+    const result = await this.inner.fetchDocuments(context);
+    for (const doc of result.documents) {
+      this.annotate(doc);
+    }
+
+    return result;
+  }
+
+  async fetchDocument(id: string, context: SourceContext): Promise<Document | null> {
+    return this.inner.fetchDocument(id, context);
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return this.inner.getDocumentCount();
+  }
+
+  /**
+   * Document counts from the last full sync
+   */
+  getLastSync(): SourceSyncStats | undefined {
+    return this.inner.getLastSync();
+  }
+
+  /**
+   * Commit the checkout is currently pinned to
+   */
+  getCommit(): string | undefined {
+    return this.commit;
+  }
+
+  /**
+   * Clone or fetch the repository and check out the configured ref.
+   * Returns the checkout directory.
+   */
+  async checkout(logger: SourceContext['logger']): Promise<string> {
+    const dir = this.basePath;
+
+    if (await this.exists(path.join(dir, '.git'))) {
+      await this.git(['remote', 'set-url', 'origin', this.remoteUrl()], dir);
+      await this.git(['fetch', '--prune', '--tags', '--force', 'origin'], dir);
+    } else {
+      await fs.rm(dir, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(dir), { recursive: true });
+      await this.git(['clone', '--no-checkout', '--', this.remoteUrl(), dir]);
+    }
+
+    const commit = await this.resolveRef(dir);
+    await this.git(['checkout', '--force', '--detach', commit], dir);
+    await this.git(['clean', '-fdx'], dir);
+
+    if (commit !== this.commit) {
+      logger.info({
+        repository: this.config.path,
+        ref: this.config.ref,
+        commit,
+      }, 'Checked out practices repository');
+    }
+    this.commit = commit;
+
+    return dir;
+  }
+
+  /**
+   * Resolve the configured ref (branch, tag or commit) to a commit SHA
+   */
+  private async resolveRef(dir: string): Promise<string> {
+    const ref = this.config.ref;
+    if (ref?.startsWith('-')) {
+      throw new Error(`Invalid git ref "${ref}" for ${this.config.name}`);
+    }
+    const candidates = ref
+      ? [`refs/remotes/origin/${ref}`, `refs/tags/${ref}`, ref]
+      : ['refs/remotes/origin/HEAD', 'HEAD'];
+
+    for (const candidate of candidates) {
+      const commit = await this.revParse(dir, candidate);
+      if (commit) return commit;
+    }
+
+    // Commits that are not reachable from a fetched branch or tag
+    if (ref && /^[0-9a-f]{7,40}$/i.test(ref)) {
+      try {
+        await this.git(['fetch', 'origin', ref], dir);
+        const commit = await this.revParse(dir, 'FETCH_HEAD');
+        if (commit) return commit;
+      } catch {
+        // Fall through to the error below
+      }
+    }
+
+    throw new Error(`Unable to resolve ref "${ref ?? 'HEAD'}" in ${this.config.path}`);
+  }
+
+  private async revParse(dir: string, ref: string): Promise<string | null> {
+    try {
+      const output = await this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], dir);
+      return output.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Local paths are made absolute so fetches from the cache dir still resolve.
+   * Values starting with `-` are rejected so git cannot read them as options.
+   */
+  private remoteUrl(): string {
+    const url = this.config.path;
+    if (url.startsWith('-')) {
+      throw new Error(`Invalid git repository "${url}" for ${this.config.name}`);
+    }
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url) || /^[^/\\]+@[^:]+:/.test(url)) {
+      return url;
+    }
+    return path.resolve(url);
+  }
+
+  private annotate(doc: Document): void {
+    doc.metadata.repository = this.config.path;
+    doc.metadata.ref = this.config.ref;
+    doc.metadata.commit = this.commit;
+  }
+
+  private async git(args: string[], cwd?: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout;
+  }
+
+  private async exists(target: string): Promise<boolean> {
+    try {
+      await fs.access(target);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
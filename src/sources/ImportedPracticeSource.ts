@@ -0,0 +1,144 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SourceContext, SourceResult, Document } from '@xorng/template-knowledge';
+import type { ImportedGuide, SourceConfig } from '../types/index.js';
+import { createImporter } from '../importers/createImporter.js';
+import { IMPORTER_VERSION, type PracticeImporter } from '../importers/common.js';
+import { resolveCacheDir } from './cache.js';
+import { PRACTICE_FORMAT_VERSION, formatPracticeContent, formatStyleGuideOverview, practiceMetadata } from './formatting.js';
+import { SyncManifest, hashContent } from './SyncManifest.js';
+import type { SourceChange } from './PracticeWatcher.js';
+import { WatchedPracticeSource } from './WatchedPracticeSource.js';
+
+/**
+ * Source for practices imported from an external rule catalog: an ESLint
+ * plugin, Semgrep rules or OWASP-style cheat sheets.
+ *
+ * The configured importer reads the whole catalog on every sync; guides
+ * whose imported practices are unchanged reuse their documents from the
+ * sync manifest. Each practice records where it came from in
+ * `metadata.importedFrom`.
+ */
+export class ImportedPracticeSource extends WatchedPracticeSource {
+  private importer: PracticeImporter;
+
+  constructor(config: SourceConfig) {
+    super(config, `Practices imported (${config.importer}) from ${config.path}`, new SyncManifest(
+      path.join(resolveCacheDir(config, 'manifest'), `import-${config.importer}.json`),
+      {
+        importerVersion: IMPORTER_VERSION,
+        format: PRACTICE_FORMAT_VERSION,
+        path: path.resolve(config.path),
+        importer: config.importer,
+        language: config.language,
+        framework: config.framework,
+        rulePrefix: config.rulePrefix,
+        headingDepth: config.headingDepth,
+      }
+    ));
+    this.importer = createImporter(config);
+  }
+
+  async connect(context: SourceContext): Promise<void> {
+    try {
+      await fs.access(this.basePath);
+      this.connected = true;
+      context.logger.info({ path: this.basePath, importer: this.config.importer }, 'Connected to imported practices source');
+    } catch {
+      throw new Error(`Import source path not found: ${this.basePath}`);
+    }
+
+    if (this.config.watch) {
+      this.watch(context);
+    }
+  }
+
+  async fetchDocuments(context: SourceContext): Promise<SourceResult> {
+    const guides = await this.importer.import(this.basePath, context);
+    context.logger.info({ guideCount: guides.length, importer: this.config.importer }, 'Imported practice catalog');
+
+    await this.manifest.load();
+    this.manifest.begin();
+
+    const documents: Document[] = [];
+    for (const imported of guides) {
+      const hash = hashContent(JSON.stringify(imported));
+      let docs = this.manifest.reuse(imported.path, hash);
+      if (!docs) {
+        docs = this.toDocuments(imported);
+        this.manifest.record(imported.path, hash, docs);
+      }
+      documents.push(...docs);
+    }
+
+    this.lastSync = this.manifest.finish();
+    this.documentCache = new Map(documents.map(doc => [doc.id, doc]));
+    await this.saveManifest(context);
+
+    const { added, updated, removed, unchanged, parsedFiles } = this.lastSync;
+    context.logger.info({ added, updated, removed, unchanged, parsedFiles }, 'Synced imported practices');
+    if (this.lastSync.vanishedIds.length > 0) {
+      context.logger.warn(
+        { source: this.name, practiceIds: this.lastSync.vanishedIds },
+        'Imported practice IDs disappeared; rules were renamed or removed upstream'
+      );
+    }
+
+    return { documents };
+  }
+
+  /**
+   * Re-import the catalog and report the documents that changed
+   */
+  protected async reload(files: string[], context: SourceContext): Promise<SourceChange> {
+    const previous = this.documentCache;
+    const { documents } = await this.fetchDocuments(context);
+    const current = new Set(documents.map(doc => doc.id));
+
+    return {
+      source: this.name,
+      files,
+      documents: documents.filter(doc => JSON.stringify(previous.get(doc.id)) !== JSON.stringify(doc)),
+      removed: [...previous.keys()].filter(id => !current.has(id)),
+    };
+  }
+
+  /**
+   * Practice and overview documents of one imported guide
+   */
+  private toDocuments({ path: relativePath, guide, attribution }: ImportedGuide): Document[] {
+    const documents: Document[] = guide.practices.map(practice => ({
+      id: `${this.name}:${relativePath}#${practice.id}`,
+      type: 'practice',
+      content: formatPracticeContent(practice),
+      title: practice.title,
+      metadata: {
+        ...practiceMetadata(
+          practice,
+          { source: this.name, path: relativePath },
+          { language: guide.language, framework: guide.framework }
+        ),
+        importedFrom: attribution[practice.id],
+      },
+    }));
+
+    documents.push({
+      id: `${this.name}:${relativePath}`,
+      type: 'style-guide',
+      content: formatStyleGuideOverview(guide),
+      title: guide.name,
+      metadata: {
+        source: this.name,
+        path: relativePath,
+        language: guide.language,
+        framework: guide.framework,
+        version: guide.version,
+        importer: this.config.importer,
+        practiceCount: guide.practices.length,
+        categories: [...new Set(guide.practices.map(p => p.category))],
+      },
+    });
+
+    return documents;
+  }
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownPracticeParser } from './MarkdownPracticeParser.js';
+
+const GUIDE = `# TypeScript guide
+
+## Prefer unknown over any
+
+Use \`unknown\` for values of unknown type.
+
+### Rationale
+
+Narrowing keeps the type checker involved.
+
+### Bad
+
+\`\`\`ts
+function parse(input: any) {}
+\`\`\`
+
+### Good
+
+\`\`\`ts
+function parse(input: unknown) {}
+\`\`\`
+
+### Exceptions
+
+- Generated declaration files
+- Migration shims
+
+### References
+
+- https://typescript-eslint.io/rules/no-explicit-any
+
+### Lint Rules
+
+- @typescript-eslint/no-explicit-any
+
+### Background
+
+The \`any\` type predates \`unknown\`.
+
+## Document exported functions
+
+Headings inside code blocks do not start practices:
+
+\`\`\`md
+## Not a practice
+\`\`\`
+`;
+
+describe('MarkdownPracticeParser', () => {
+  it('fills fields from named subsections and keeps other subsections in the description', () => {
+    const { practices } = new MarkdownPracticeParser().parse(GUIDE);
+
+    expect(practices.map(p => p.practice.title)).toEqual(['Prefer unknown over any', 'Document exported functions']);
+    expect(practices[0].practice).toMatchObject({
+      id: 'prefer-unknown-over-any',
+      rationale: 'Narrowing keeps the type checker involved.',
+      badExample: 'function parse(input: any) {}',
+      goodExample: 'function parse(input: unknown) {}',
+      exceptions: ['Generated declaration files', 'Migration shims'],
+      references: ['https://typescript-eslint.io/rules/no-explicit-any'],
+      lintRules: ['@typescript-eslint/no-explicit-any'],
+      tags: ['ts'],
+    });
+    expect(practices[0].practice.description).toBe(
+      'Use `unknown` for values of unknown type.\n\n### Background\n\nThe `any` type predates `unknown`.'
+    );
+  });
+
+  it('ignores headings inside fenced code blocks', () => {
+    const { practices } = new MarkdownPracticeParser().parse(GUIDE);
+
+    expect(practices[1].practice.title).toBe('Document exported functions');
+    expect(practices[1].practice.description).toBe('Headings inside code blocks do not start practices:');
+    expect(practices[1].practice.goodExample).toBe('## Not a practice');
+  });
+
+  it('records line ranges that count the frontmatter', () => {
+    const { practices, frontmatter } = new MarkdownPracticeParser().parse(`---
+language: typescript
+---
+# Guide
+
+## First
+
+One.
+
+## Second
+
+Two.
+`);
+
+    expect(frontmatter).toEqual({ language: 'typescript' });
+    expect(practices.map(p => p.lines)).toEqual([{ start: 6, end: 8 }, { start: 10, end: 12 }]);
+    expect(practices[0].practice.language).toBe('typescript');
+  });
+
+  it('starts practices at the configured heading depth', () => {
+    const markdown = '# Guide\n\n## Naming\n\n### Use camelCase\n\nFor variables.\n\n### Use PascalCase\n\nFor types.\n';
+
+    const { practices } = new MarkdownPracticeParser({ headingDepth: 3 }).parse(markdown);
+
+    expect(practices.map(p => [p.practice.id, p.practice.description])).toEqual([
+      ['use-camelcase', 'For variables.'],
+      ['use-pascalcase', 'For types.'],
+    ]);
+  });
+
+  it('lets declared metadata beat frontmatter and inference, and reports what was inferred', () => {
+    const { practices } = new MarkdownPracticeParser().parse(`---
+category: naming
+severity: suggestion
+---
+## Check permissions first
+<!-- practice: { id: authz-before-io, severity: error, category: security, lintRules: [no-unchecked-access] } -->
+
+You may never skip this check; it is recommended to log denials.
+
+## Keep handlers small
+
+\`\`\`yaml practice
+tags: [Handlers]
+\`\`\`
+
+Handlers should stay short.
+
+## Name booleans as questions
+
+You could prefix booleans with is or has.
+`);
+
+    const [declared, block, inferred] = practices;
+    expect(declared.practice).toMatchObject({
+      id: 'authz-before-io',
+      category: 'security',
+      severity: 'error',
+      lintRules: ['no-unchecked-access'],
+    });
+    expect(declared.declared).toEqual(['id', 'category', 'severity', 'lintRules']);
+    expect(declared.inferred).toEqual([]);
+    expect(declared.practice.description).toBe('You may never skip this check; it is recommended to log denials.');
+
+    expect(block.practice).toMatchObject({ category: 'naming', severity: 'suggestion', tags: ['handlers'] });
+    expect(block.declared).toEqual(['category', 'severity', 'tags']);
+    expect(block.inferred).toEqual(['id']);
+
+    expect(inferred.practice.severity).toBe('suggestion');
+    expect(inferred.inferred).toEqual(['id']);
+  });
+
+  it('infers severity from prohibitions as well as requirements', () => {
+    const parse = (sentence: string) => new MarkdownPracticeParser()
+      .parse(`## Practice\n\n${sentence}\n`).practices[0];
+
+    expect(parse('You may never commit secrets.').practice.severity).toBe('error');
+    expect(parse('Functions should be short.').practice.severity).toBe('warning');
+    expect(parse('Consider a builder here.').practice.severity).toBe('suggestion');
+    expect(parse('Functions should be short.').inferred).toEqual(['category', 'severity', 'id']);
+  });
+
+  it('reports invalid metadata blocks with their line and falls back to inference', () => {
+    const { practices } = new MarkdownPracticeParser().parse(
+      '# Guide\n\n## Avoid globals\n<!-- practice: { severity: fatal } -->\n\nGlobals must not be mutated.\n'
+    );
+
+    expect(practices[0].issues).toEqual([{ line: 4, message: expect.stringMatching(/^Practice metadata severity: /) }]);
+    expect(practices[0].practice.severity).toBe('error');
+    expect(practices[0].declared).toEqual([]);
+  });
+});
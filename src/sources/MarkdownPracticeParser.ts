@@ -0,0 +1,450 @@
+import matter from 'gray-matter';
+import * as yaml from 'js-yaml';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toString } from 'mdast-util-to-string';
+import type { Code, Heading, Html, List, RootContent } from 'mdast';
+import {
+  PracticeAnnotationSchema,
+  type Practice,
+  type PracticeAnnotation,
+  type PracticeCategory,
+  type PracticeSeverity,
+} from '../types/index.js';
+
+/**
+ * Version of the markdown parser's output; bump when the practices it
+ * produces change so cached documents are parsed again
+ */
+export const MARKDOWN_PARSER_VERSION = 1;
+
+/**
+ * Practice fields that can be declared in metadata or inferred from content
+ */
+export type InferredField = 'id' | 'category' | 'severity' | 'tags' | 'lintRules';
+
+/**
+ * A practice parsed from markdown along with which metadata fields were
+ * declared (in the practice's metadata block or the frontmatter) and which
+ * were inferred
+ */
+export interface ParsedMarkdownPractice {
+  practice: Practice;
+  declared: Array<keyof PracticeAnnotation>;
+  inferred: InferredField[];
+  /** 1-based line range of the practice in the file, frontmatter included */
+  lines: { start: number; end: number };
+  /** Problems with the practice's inline metadata block */
+  issues: Array<{ line: number; message: string }>;
+}
+
+export interface MarkdownParseResult {
+  body: string;
+  frontmatter: matter.GrayMatterFile<string>['data'];
+  practices: ParsedMarkdownPractice[];
+}
+
+export interface MarkdownParserOptions {
+  /** Heading level that starts a practice (default 2) */
+  headingDepth?: number;
+}
+
+type Subsection = 'good' | 'bad' | 'rationale' | 'exceptions' | 'references' | 'lint-rules';
+
+const SUBSECTIONS: Array<[Subsection, RegExp]> = [
+  ['bad', /^(?:bad|don'?t|avoid|incorrect|wrong)\b/i],
+  ['good', /^(?:good|do|correct|preferred|recommended)\b/i],
+  ['rationale', /^(?:rationale|why)\b/i],
+  ['exceptions', /^exceptions?\b/i],
+  ['references', /^(?:references|see also|further reading)\b/i],
+  ['lint-rules', /\blint rules?\b/i],
+];
+
+const BAD_LABEL = /\b(?:bad|incorrect|don'?t|avoid|wrong)\b/i;
+const GOOD_LABEL = /\b(?:good|correct|do|preferred|recommended)\b/i;
+const FRONTMATTER_FIELDS: Array<keyof PracticeAnnotation> = ['category', 'severity', 'language', 'framework', 'tags', 'appliesTo'];
+const METADATA_COMMENT = /^<!--\s*practice\s*:?\s*([\s\S]*?)\s*-->$/i;
+
+/**
+ * Parses markdown style guides into practices using a CommonMark AST.
+ *
+ * Each heading at `headingDepth` starts a practice that runs until the next
+ * heading at that depth or above. Deeper headings named Good, Bad, Rationale,
+ * Exceptions, References or Lint Rules fill those fields; other subsections
+ * stay in the description. A `<!-- practice: {...} -->` comment or a fenced
+ * `yaml practice` block under the heading declares the practice's metadata.
+ */
+export class MarkdownPracticeParser {
+  private headingDepth: number;
+
+  constructor(options: MarkdownParserOptions = {}) {
+    this.headingDepth = options.headingDepth ?? 2;
+  }
+
+  parse(content: string): MarkdownParseResult {
+    const { content: body, data: frontmatter } = matter(content);
+    const prefix = content.endsWith(body) ? content.slice(0, content.length - body.length) : '';
+    const lineOffset = prefix.split('\n').length - 1;
+
+    const tree = fromMarkdown(body);
+    const practices: ParsedMarkdownPractice[] = [];
+    const nodes = tree.children;
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (node.type !== 'heading' || node.depth !== this.headingDepth) continue;
+
+      let end = i + 1;
+      while (end < nodes.length && !(nodes[end].type === 'heading' && (nodes[end] as Heading).depth <= this.headingDepth)) {
+        end++;
+      }
+
+      practices.push(this.parsePractice(body, node, nodes.slice(i + 1, end), frontmatter, lineOffset));
+      i = end - 1;
+    }
+
+    return { body, frontmatter, practices };
+  }
+
+  private parsePractice(
+    body: string,
+    heading: Heading,
+    nodes: RootContent[],
+    frontmatter: Record<string, unknown>,
+    lineOffset: number
+  ): ParsedMarkdownPractice {
+    const title = toString(heading).trim();
+    const issues: ParsedMarkdownPractice['issues'] = [];
+    const raw = (list: RootContent[]): string => list.length === 0
+      ? ''
+      : body.slice(list[0].position!.start.offset!, list[list.length - 1].position!.end.offset!);
+
+    // Split into the intro and subsections started by deeper headings
+    const intro: RootContent[] = [];
+    const subsections: Array<{ heading: Heading; nodes: RootContent[] }> = [];
+    for (const node of nodes) {
+      const current = subsections[subsections.length - 1];
+      if (node.type === 'heading' && (!current || node.depth <= current.heading.depth)) {
+        subsections.push({ heading: node, nodes: [] });
+      } else if (current) {
+        current.nodes.push(node);
+      } else {
+        intro.push(node);
+      }
+    }
+
+    // Inline metadata block directly under the heading
+    let annotation: PracticeAnnotation = {};
+    if (intro.length > 0 && this.isMetadataBlock(intro[0])) {
+      annotation = this.parseAnnotation(intro.shift() as Html | Code, lineOffset, issues);
+    }
+
+    let goodExample: string | undefined;
+    let badExample: string | undefined;
+    let rationale: string | undefined;
+    let exceptions: string[] | undefined;
+    let references: string[] | undefined;
+    const declaredRules = new Set<string>(annotation.lintRules || []);
+    const extraSections: string[] = [];
+
+    for (const { heading: subheading, nodes: subnodes } of subsections) {
+      const name = toString(subheading).trim();
+      const kind = SUBSECTIONS.find(([, pattern]) => pattern.test(name))?.[0];
+      const code = subnodes.find((n): n is Code => n.type === 'code');
+
+      switch (kind) {
+        case 'good':
+          goodExample ??= code ? code.value : raw(subnodes).trim() || undefined;
+          break;
+        case 'bad':
+          badExample ??= code ? code.value : raw(subnodes).trim() || undefined;
+          break;
+        case 'rationale':
+          rationale = raw(subnodes).trim() || undefined;
+          break;
+        case 'exceptions':
+          exceptions = this.listItems(subnodes);
+          break;
+        case 'references':
+          references = this.listItems(subnodes);
+          break;
+        case 'lint-rules':
+          for (const rule of this.listItems(subnodes)) declaredRules.add(rule);
+          break;
+        default:
+          extraSections.push(raw([subheading, ...subnodes]));
+      }
+    }
+
+    // Code blocks outside subsections are examples, labelled by the paragraph before them
+    let firstCode = -1;
+    intro.forEach((node, index) => {
+      if (node.type !== 'code') return;
+      if (firstCode === -1) firstCode = index;
+
+      const previous = intro[index - 1];
+      const label = previous?.type === 'paragraph' ? toString(previous) : '';
+      if (BAD_LABEL.test(label)) {
+        badExample ??= node.value;
+      } else if (GOOD_LABEL.test(label) || !goodExample) {
+        goodExample ??= node.value;
+      } else {
+        badExample ??= node.value;
+      }
+    });
+
+    const descriptionNodes = (firstCode === -1 ? intro : intro.slice(0, firstCode))
+      .filter((node, index, list) => !(this.isLabel(node) && index === list.length - 1 && firstCode !== -1));
+    const description = [raw(descriptionNodes), ...extraSections]
+      .filter(Boolean)
+      .join('\n\n')
+      .trim() || title;
+
+    const contentNodes = [...intro, ...subsections.flatMap(s => [s.heading, ...s.nodes])];
+    const text = contentNodes
+      .filter(node => node.type !== 'code')
+      .map(node => toString(node))
+      .join('\n');
+
+    // Declared values always win; inference only fills what was not declared
+    const declared = (Object.keys(PracticeAnnotationSchema.shape) as Array<keyof PracticeAnnotation>)
+      .filter(field => annotation[field] !== undefined
+        || (FRONTMATTER_FIELDS.includes(field) && frontmatter[field] !== undefined));
+    const inferred: InferredField[] = [];
+    const infer = <T>(field: InferredField, value: T): T => {
+      inferred.push(field);
+      return value;
+    };
+
+    const sectionText = raw(nodes);
+    const category = annotation.category
+      || (frontmatter.category as PracticeCategory | undefined)
+      || infer('category', this.inferCategory(title, sectionText));
+    const severity = annotation.severity
+      || (frontmatter.severity as PracticeSeverity | undefined)
+      || infer('severity', this.inferSeverity(sectionText));
+    const id = annotation.id || infer('id', this.slugify(title));
+
+    const lintRules = declaredRules.size > 0
+      ? [...declaredRules]
+      : this.extractLintRules(text);
+    if (declaredRules.size === 0 && lintRules.length > 0) inferred.push('lintRules');
+
+    const tags = this.declaredTags(frontmatter, annotation);
+    if (!annotation.tags) {
+      const languages = this.codeLanguages(contentNodes).filter(tag => !tags.includes(tag));
+      if (languages.length > 0) {
+        tags.push(...languages);
+        inferred.push('tags');
+      }
+    }
+
+    const last = nodes.length > 0 ? nodes[nodes.length - 1] : heading;
+
+    return {
+      practice: {
+        id,
+        title,
+        description,
+        category,
+        severity,
+        language: annotation.language || frontmatter.language as string || 'general',
+        framework: annotation.framework || frontmatter.framework as string,
+        goodExample,
+        badExample,
+        rationale,
+        exceptions,
+        references,
+        lintRules,
+        tags,
+        aliases: annotation.aliases,
+        relatedPractices: annotation.relatedPractices,
+        relatedPatterns: annotation.relatedPatterns,
+        supersedes: annotation.supersedes,
+        conflictsWith: annotation.conflictsWith,
+        appliesTo: annotation.appliesTo
+          || (Array.isArray(frontmatter.appliesTo) ? frontmatter.appliesTo.map(String) : undefined),
+        status: annotation.status,
+        deprecatedIn: annotation.deprecatedIn,
+        replacedBy: annotation.replacedBy,
+        effectiveDate: annotation.effectiveDate,
+        mappings: annotation.mappings,
+      },
+      declared,
+      inferred,
+      lines: {
+        start: heading.position!.start.line + lineOffset,
+        end: last.position!.end.line + lineOffset,
+      },
+      issues,
+    };
+  }
+
+  /**
+   * `<!-- practice: ... -->` comments, fenced blocks tagged `yaml practice`,
+   * and `yaml` blocks that only hold metadata keys, directly under the heading
+   */
+  private isMetadataBlock(node: RootContent): boolean {
+    if (node.type === 'html') {
+      return METADATA_COMMENT.test(node.value.trim());
+    }
+    if (node.type !== 'code' || node.lang !== 'yaml') {
+      return false;
+    }
+    if (node.meta?.split(/\s+/).includes('practice')) {
+      return true;
+    }
+    try {
+      return PracticeAnnotationSchema.safeParse(yaml.load(node.value)).success;
+    } catch {
+      return false;
+    }
+  }
+
+  private parseAnnotation(
+    node: Html | Code,
+    lineOffset: number,
+    issues: ParsedMarkdownPractice['issues']
+  ): PracticeAnnotation {
+    const line = node.position!.start.line + lineOffset;
+    const source = node.type === 'html'
+      ? node.value.trim().match(METADATA_COMMENT)![1]
+      : node.value;
+
+    let data: unknown;
+    try {
+      data = yaml.load(source) ?? {};
+    } catch (error) {
+      issues.push({ line, message: `Invalid practice metadata: ${error instanceof Error ? error.message.split('\n')[0] : error}` });
+      return {};
+    }
+
+    const result = PracticeAnnotationSchema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    for (const issue of result.error.issues) {
+      issues.push({ line, message: `Practice metadata ${issue.path.join('.') || '(root)'}: ${issue.message}` });
+    }
+    return {};
+  }
+
+  /**
+   * Paragraph such as "Good:" introducing the code block after it
+   */
+  private isLabel(node: RootContent): boolean {
+    if (node.type !== 'paragraph') return false;
+    const text = toString(node).trim();
+    return text.endsWith(':') && text.length <= 40;
+  }
+
+  private listItems(nodes: RootContent[]): string[] {
+    return nodes
+      .filter((n): n is List => n.type === 'list')
+      .flatMap(list => list.children.map(item => toString(item).trim()))
+      .filter(Boolean);
+  }
+
+  /**
+   * Infer category from title or content keywords
+   */
+  private inferCategory(title: string, content: string): PracticeCategory {
+    const text = (title + ' ' + content).toLowerCase();
+
+    if (text.includes('naming') || text.includes('convention')) return 'naming';
+    if (text.includes('format') || text.includes('indent') || text.includes('spacing')) return 'formatting';
+    if (text.includes('architect') || text.includes('pattern') || text.includes('structure')) return 'architecture';
+    if (text.includes('test') || text.includes('spec') || text.includes('mock')) return 'testing';
+    if (text.includes('security') || text.includes('vulnerab') || text.includes('auth')) return 'security';
+    if (text.includes('performance') || text.includes('optimize') || text.includes('memory')) return 'performance';
+    if (text.includes('document') || text.includes('comment') || text.includes('readme')) return 'documentation';
+    if (text.includes('error') || text.includes('exception') || text.includes('throw')) return 'error-handling';
+    if (text.includes('log') || text.includes('trace') || text.includes('debug')) return 'logging';
+    if (text.includes('depend') || text.includes('package') || text.includes('import')) return 'dependency-management';
+
+    return 'general';
+  }
+
+  /**
+   * Infer severity from content markers
+   */
+  private inferSeverity(content: string): PracticeSeverity {
+    const lower = content.toLowerCase();
+
+    // Prohibitions count as strongly as requirements ("you may never ...")
+    if (/\b(?:must|mustn't|required|always|never|shall)\b/.test(lower)) return 'error';
+    if (/\b(?:should|shouldn't|recommended)\b/.test(lower)) return 'warning';
+    if (/\b(?:could|consider|may)\b/.test(lower)) return 'suggestion';
+
+    return 'suggestion';
+  }
+
+  /**
+   * Extract lint rules mentioned in prose
+   */
+  private extractLintRules(content: string): string[] {
+    const rules: string[] = [];
+
+    // Common patterns for lint rules
+    const patterns = [
+      /@typescript-eslint\/[\w-]+/g,
+      /eslint:?\s*([\w-]+)/gi,
+      /\[`?([@\w/-]+)`?\]\s*rule/gi,
+    ];
+
+    for (const pattern of patterns) {
+      const matches = content.matchAll(pattern);
+      for (const match of matches) {
+        rules.push(match[1] || match[0]);
+      }
+    }
+
+    return [...new Set(rules)];
+  }
+
+  /**
+   * Tags from frontmatter and the practice's metadata block
+   */
+  private declaredTags(frontmatter: Record<string, unknown>, annotation: PracticeAnnotation): string[] {
+    const tags = new Set<string>();
+
+    if (Array.isArray(frontmatter.tags)) {
+      frontmatter.tags.forEach((t: unknown) => tags.add(String(t).toLowerCase()));
+    }
+    for (const tag of annotation.tags || []) {
+      tags.add(tag.toLowerCase());
+    }
+
+    return Array.from(tags);
+  }
+
+  /**
+   * Languages of code blocks, used as tags when a practice declares none
+   */
+  private codeLanguages(nodes: RootContent[]): string[] {
+    const tags = new Set<string>();
+
+    const visit = (node: RootContent): void => {
+      if (node.type === 'code') {
+        if (node.lang && node.lang !== 'text') {
+          tags.add(node.lang.toLowerCase());
+        }
+      } else if ('children' in node) {
+        (node.children as RootContent[]).forEach(visit);
+      }
+    };
+    nodes.forEach(visit);
+
+    return Array.from(tags);
+  }
+
+  /**
+   * Generate URL-friendly slug
+   */
+  private slugify(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+}
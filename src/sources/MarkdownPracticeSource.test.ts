@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { MarkdownPracticeSource } from './MarkdownPracticeSource.js';
+
+const context = {
+  logger: { info() {}, warn() {}, error() {}, debug() {} },
+} as unknown as SourceContext;
+
+function guide(...practiceIds: string[]): string {
+  return [
+    '# Guide',
+    '',
+    ...practiceIds.flatMap(id => [
+      `## ${id}`,
+      `<!-- practice: { id: ${id} } -->`,
+      '',
+      `Do ${id}.`,
+      '',
+    ]),
+  ].join('\n');
+}
+
+describe('MarkdownPracticeSource', () => {
+  let root: string;
+  let docs: string;
+  let source: MarkdownPracticeSource;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'markdown-source-'));
+    docs = path.join(root, 'docs');
+    await fs.mkdir(path.join(docs, 'api'), { recursive: true });
+    await fs.writeFile(path.join(docs, 'style.md'), guide('naming', 'imports'), 'utf-8');
+    await fs.writeFile(path.join(docs, 'api/errors.md'), guide('error-codes'), 'utf-8');
+    await fs.writeFile(path.join(docs, 'api/paging.md'), guide('cursors'), 'utf-8');
+
+    source = new MarkdownPracticeSource({
+      name: 'org',
+      type: 'local',
+      path: docs,
+      format: 'markdown',
+      cacheDir: path.join(root, 'cache'),
+    });
+    await source.connect(context);
+    await source.fetchDocuments(context);
+  });
+
+  afterEach(async () => {
+    await source.disconnect();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('re-parses a changed file and reports practices it no longer contains', async () => {
+    await fs.writeFile(path.join(docs, 'style.md'), guide('naming', 'exports'), 'utf-8');
+
+    const change = await source.reloadFiles(['style.md'], context);
+
+    expect(change.files).toEqual(['style.md']);
+    expect(change.documents.map(d => d.id).sort()).toEqual([
+      'org:style.md',
+      'org:style.md#exports',
+      'org:style.md#naming',
+    ]);
+    expect(change.removed).toEqual(['org:style.md#imports']);
+    expect(await source.fetchDocument('org:style.md#imports', context)).toBeNull();
+    expect(await source.fetchDocument('org:style.md#exports', context)).not.toBeNull();
+  });
+
+  it('removes the documents of deleted files and directories', async () => {
+    await fs.rm(path.join(docs, 'api'), { recursive: true });
+
+    const change = await source.reloadFiles(['api'], context);
+
+    expect(change.files.sort()).toEqual([path.join('api', 'errors.md'), path.join('api', 'paging.md')]);
+    expect(change.documents).toEqual([]);
+    expect(change.removed.sort()).toEqual([
+      'org:api/errors.md',
+      'org:api/errors.md#error-codes',
+      'org:api/paging.md',
+      'org:api/paging.md#cursors',
+    ]);
+    expect(await source.getDocumentCount()).toBe(3);
+  });
+
+  it('keeps reloaded files out of the next sync\'s parse', async () => {
+    await fs.writeFile(path.join(docs, 'api/paging.md'), guide('cursors', 'page-size'), 'utf-8');
+    await source.reloadFiles(['api/paging.md'], context);
+
+    const fresh = new MarkdownPracticeSource({
+      name: 'org',
+      type: 'local',
+      path: docs,
+      format: 'markdown',
+      cacheDir: path.join(root, 'cache'),
+    });
+    const { documents } = await fresh.fetchDocuments(context);
+
+    expect(fresh.getLastSync()).toMatchObject({ added: 0, updated: 0, removed: 0, parsedFiles: 0, reusedFiles: 3 });
+    expect(documents.map(d => d.id)).toContain('org:api/paging.md#page-size');
+  });
+});
@@ -0,0 +1,171 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SourceContext, SourceResult, Document } from '@xorng/template-knowledge';
+import { hashContent } from './SyncManifest.js';
+import type { SourceChange } from './PracticeWatcher.js';
+import { WatchedPracticeSource } from './WatchedPracticeSource.js';
+
+/**
+ * Base for sources that parse each file under `basePath` on its own.
+ *
+ * Files unchanged since the last sync reuse their documents from the
+ * manifest; when watched, only the changed files are parsed again.
+ */
+export abstract class PracticeFileSource extends WatchedPracticeSource {
+  protected fileDocuments: Map<string, string[]> = new Map();
+
+  async disconnect(): Promise<void> {
+    await super.disconnect();
+    this.fileDocuments.clear();
+  }
+
+  async fetchDocuments(context: SourceContext): Promise<SourceResult> {
+    const documents: Document[] = [];
+    const files = await this.findFiles(this.basePath);
+
+    context.logger.info({ source: this.name, fileCount: files.length }, 'Found practice files');
+
+    await this.manifest.load();
+    this.manifest.begin();
+
+    for (const file of files) {
+      try {
+        documents.push(...await this.loadFile(file, context));
+      } catch (error) {
+        context.logger.warn({ file: path.join(this.basePath, file), error }, 'Failed to load practice file');
+      }
+    }
+
+    // Files that disappeared (or failed to load) no longer produce documents
+    this.lastSync = this.manifest.finish();
+    for (const id of this.lastSync.removedIds) {
+      this.documentCache.delete(id);
+    }
+    for (const relativePath of [...this.fileDocuments.keys()]) {
+      if (!files.includes(relativePath)) this.fileDocuments.delete(relativePath);
+    }
+    await this.saveManifest(context);
+
+    const { added, updated, removed, unchanged, parsedFiles } = this.lastSync;
+    context.logger.info({ source: this.name, added, updated, removed, unchanged, parsedFiles }, 'Synced practice files');
+    if (this.lastSync.vanishedIds.length > 0) {
+      context.logger.warn(
+        { source: this.name, practiceIds: this.lastSync.vanishedIds },
+        'Practice IDs disappeared; list former IDs in `aliases` to keep references working'
+      );
+    }
+
+    return { documents };
+  }
+
+  /**
+   * Re-parse the given files (relative to `basePath`). Files that no longer
+   * exist have their documents removed; directories stand for every file
+   * loaded from them.
+   */
+  async reloadFiles(relativePaths: string[], context: SourceContext): Promise<SourceChange> {
+    const change: SourceChange = { source: this.name, files: [], documents: [], removed: [] };
+
+    for (const relativePath of await this.expandPaths(relativePaths)) {
+      const previous = this.fileDocuments.get(relativePath) || [];
+      let documents: Document[] = [];
+
+      if (await this.isFile(path.join(this.basePath, relativePath))) {
+        try {
+          documents = await this.loadFile(relativePath, context);
+        } catch (error) {
+          context.logger.warn({ file: path.join(this.basePath, relativePath), error }, 'Failed to load practice file');
+          continue;
+        }
+      } else {
+        this.fileDocuments.delete(relativePath);
+        this.manifest.remove(relativePath);
+      }
+
+      const current = new Set(documents.map(d => d.id));
+      const removed = previous.filter(id => !current.has(id));
+      for (const id of removed) {
+        this.documentCache.delete(id);
+      }
+
+      change.files.push(relativePath);
+      change.documents.push(...documents);
+      change.removed.push(...removed);
+    }
+
+    await this.saveManifest(context);
+    return change;
+  }
+
+  protected reload(files: string[], context: SourceContext): Promise<SourceChange> {
+    return this.reloadFiles(files, context);
+  }
+
+  /**
+   * Practice files of this source under a directory, relative to it
+   */
+  protected abstract findFiles(directory: string): Promise<string[]>;
+
+  /**
+   * Whether a changed path is a practice file of this source
+   */
+  protected abstract isPracticeFile(relativePath: string): boolean;
+
+  /**
+   * Documents of one file
+   */
+  protected abstract parseFile(filePath: string, content: string, context: SourceContext): Promise<Document[]>;
+
+  /**
+   * Load a file's documents, parsing it only if it changed since the last sync
+   */
+  private async loadFile(relativePath: string, context: SourceContext): Promise<Document[]> {
+    const filePath = path.join(this.basePath, relativePath);
+    const content = await fs.readFile(filePath, 'utf-8');
+    const hash = hashContent(content);
+
+    let documents = this.manifest.reuse(relativePath, hash);
+    if (!documents) {
+      documents = await this.parseFile(filePath, content, context);
+      this.manifest.record(relativePath, hash, documents);
+    }
+
+    for (const doc of documents) {
+      this.documentCache.set(doc.id, doc);
+    }
+    this.fileDocuments.set(relativePath, documents.map(d => d.id));
+    return documents;
+  }
+
+  /**
+   * Practice files among changed paths, including files loaded from changed
+   * directories
+   */
+  private async expandPaths(relativePaths: string[]): Promise<string[]> {
+    const files = new Set<string>();
+    for (const relativePath of relativePaths) {
+      if (this.isPracticeFile(relativePath)) {
+        files.add(relativePath);
+        continue;
+      }
+
+      for (const file of await this.findFiles(path.join(this.basePath, relativePath))) {
+        files.add(path.join(relativePath, file));
+      }
+
+      const prefix = relativePath + path.sep;
+      for (const known of this.fileDocuments.keys()) {
+        if (known.startsWith(prefix)) files.add(known);
+      }
+    }
+    return [...files];
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
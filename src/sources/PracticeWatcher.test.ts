@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { PracticeWatcher } from './PracticeWatcher.js';
+
+const DEBOUNCE_MS = 50;
+
+const warnings: string[] = [];
+const logger = {
+  info() {},
+  warn(_context: unknown, message: string) {
+    warnings.push(message);
+  },
+  error() {},
+  debug() {},
+} as unknown as SourceContext['logger'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the watcher');
+    await sleep(10);
+  }
+}
+
+describe('PracticeWatcher', () => {
+  let dir: string;
+  let watcher: PracticeWatcher | undefined;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'practice-watcher-'));
+    warnings.length = 0;
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports a burst of edits once, after they settle', async () => {
+    const batches: string[][] = [];
+    watcher = new PracticeWatcher(dir, {
+      debounceMs: DEBOUNCE_MS,
+      logger,
+      onChange: async files => {
+        batches.push(files);
+      },
+    });
+    watcher.start();
+
+    await fs.writeFile(path.join(dir, 'a.md'), '# A\n', 'utf-8');
+    await fs.writeFile(path.join(dir, 'b.md'), '# B\n', 'utf-8');
+    await fs.writeFile(path.join(dir, 'a.md'), '# A again\n', 'utf-8');
+
+    await waitFor(() => batches.length > 0);
+    await sleep(DEBOUNCE_MS * 3);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].sort()).toEqual(['a.md', 'b.md']);
+  });
+
+  it('ignores editor swap files and dependency directories', async () => {
+    const batches: string[][] = [];
+    watcher = new PracticeWatcher(dir, {
+      debounceMs: DEBOUNCE_MS,
+      logger,
+      onChange: async files => {
+        batches.push(files);
+      },
+    });
+    await fs.mkdir(path.join(dir, 'node_modules'));
+    watcher.start();
+
+    await fs.writeFile(path.join(dir, '.a.md.swp'), 'swap', 'utf-8');
+    await fs.writeFile(path.join(dir, 'a.md~'), 'backup', 'utf-8');
+    await fs.writeFile(path.join(dir, 'node_modules', 'x.md'), '# X\n', 'utf-8');
+    await fs.writeFile(path.join(dir, 'a.md'), '# A\n', 'utf-8');
+
+    await waitFor(() => batches.length > 0);
+    await sleep(DEBOUNCE_MS * 3);
+
+    expect(batches.flat()).toEqual(['a.md']);
+  });
+
+  it('runs reloads one at a time and keeps going after a failed one', async () => {
+    const calls: string[] = [];
+    let releaseFirst!: () => void;
+    const firstBlocked = new Promise<void>(resolve => {
+      releaseFirst = resolve;
+    });
+
+    watcher = new PracticeWatcher(dir, {
+      debounceMs: DEBOUNCE_MS,
+      logger,
+      onChange: async files => {
+        const call = calls.length;
+        calls.push(`start ${files.join(',')}`);
+        if (call === 0) {
+          await firstBlocked;
+          calls.push('end first');
+          throw new Error('parse failed');
+        }
+        calls.push('end second');
+      },
+    });
+    watcher.start();
+
+    await fs.writeFile(path.join(dir, 'a.md'), '# A\n', 'utf-8');
+    await waitFor(() => calls.length === 1);
+
+    // The second batch settles while the first reload is still running
+    await fs.writeFile(path.join(dir, 'b.md'), '# B\n', 'utf-8');
+    await sleep(DEBOUNCE_MS * 3);
+    expect(calls).toEqual(['start a.md']);
+
+    releaseFirst();
+    await waitFor(() => calls.length === 4);
+
+    expect(calls).toEqual(['start a.md', 'end first', 'start b.md', 'end second']);
+    expect(warnings).toContain('Failed to reload changed practices');
+  });
+});
@@ -0,0 +1,97 @@
+import { watch, type FSWatcher } from 'fs';
+import * as path from 'path';
+import type { Document, SourceContext } from '@xorng/template-knowledge';
+
+/**
+ * Documents produced and removed by re-parsing changed files of a source
+ */
+export interface SourceChange {
+  source: string;
+  files: string[];
+  documents: Document[];
+  removed: string[];
+}
+
+export type SourceChangeListener = (change: SourceChange) => void;
+
+export interface PracticeWatcherOptions {
+  debounceMs: number;
+  logger: SourceContext['logger'];
+  onChange: (files: string[]) => Promise<void>;
+}
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', '.git'];
+
+/**
+ * Watches a source directory and reports changed files once edits settle.
+ *
+ * Events are collected until no new event has arrived for `debounceMs`, so an
+ * editor's save (or a `git checkout`) triggers a single reload. Paths are
+ * relative to the watched directory; directories are reported as-is so the
+ * source can drop the files it loaded from them.
+ */
+export class PracticeWatcher {
+  private basePath: string;
+  private options: PracticeWatcherOptions;
+  private watcher?: FSWatcher;
+  private pending: Set<string> = new Set();
+  private timer?: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(basePath: string, options: PracticeWatcherOptions) {
+    this.basePath = basePath;
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = watch(this.basePath, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+      const relativePath = filename.toString();
+      if (this.isIgnored(relativePath)) return;
+
+      this.pending.add(relativePath);
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => this.flush(), this.options.debounceMs);
+    });
+
+    this.watcher.on('error', error => {
+      this.options.logger.warn({ path: this.basePath, error }, 'Practice watcher failed');
+    });
+
+    this.options.logger.info({ path: this.basePath }, 'Watching practices for changes');
+  }
+
+  close(): void {
+    clearTimeout(this.timer);
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.pending.clear();
+  }
+
+  private flush(): void {
+    const files = [...this.pending];
+    this.pending.clear();
+
+    // Reloads run one at a time so a slow parse cannot race a newer one
+    this.flushing = this.flushing.then(async () => {
+      try {
+        await this.options.onChange(files);
+      } catch (error) {
+        this.options.logger.warn({ path: this.basePath, files, error }, 'Failed to reload changed practices');
+      }
+    });
+  }
+
+  private isIgnored(relativePath: string): boolean {
+    const segments = relativePath.split(path.sep);
+    if (segments.some(segment => IGNORED_DIRECTORIES.includes(segment))) return true;
+
+    // Editor swap and backup files
+    const name = segments[segments.length - 1];
+    return name.startsWith('.#') || name.endsWith('~') || name.endsWith('.swp');
+  }
+}
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { SourceContext } from '@xorng/template-knowledge';
+import { StructuredPracticeSource } from './StructuredPracticeSource.js';
+
+const EXAMPLES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../examples');
+
+const warnings: string[] = [];
+const context = {
+  logger: {
+    info() {},
+    warn(_context: unknown, message: string) {
+      warnings.push(message);
+    },
+    error() {},
+    debug() {},
+  },
+} as unknown as SourceContext;
+
+const SINGLETON = {
+  id: 'singleton',
+  name: 'Singleton',
+  category: 'creational',
+  description: 'One shared instance.',
+  problem: 'Several instances of a shared resource.',
+  solution: 'Expose a single instance.',
+  applicability: ['Shared configuration'],
+  consequences: { benefits: ['One instance'], drawbacks: ['Global state'] },
+};
+
+describe('StructuredPracticeSource patterns', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'structured-patterns-'));
+    await fs.copyFile(path.join(EXAMPLES, 'design-patterns.yaml'), path.join(root, 'design-patterns.yaml'));
+    await fs.writeFile(path.join(root, 'list.yaml'), [
+      '- id: observer',
+      '  name: Observer',
+      '  category: behavioral',
+      '  description: Notify dependents of changes.',
+      '  problem: Objects need to react to state changes.',
+      '  solution: Subscribe them to the subject.',
+      '  applicability: [Event handling]',
+      '  consequences: { benefits: [Loose coupling], drawbacks: [Update order] }',
+      '- id: broken',
+      '  name: Broken',
+      '  category: magical',
+      '  problem: Invalid category.',
+      '  solution: Skip it.',
+    ].join('\n'), 'utf-8');
+    await fs.writeFile(path.join(root, 'singleton.yaml'), JSON.stringify(SINGLETON), 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('turns a pattern catalog into pattern documents and an overview', async () => {
+    const source = new StructuredPracticeSource({
+      name: 'patterns',
+      type: 'local',
+      path: root,
+      format: 'yaml',
+      cacheDir: path.join(root, '.cache'),
+    });
+    const { documents } = await source.fetchDocuments(context);
+    const catalog = documents.filter(d => d.metadata.path === 'design-patterns.yaml');
+
+    expect(catalog.map(d => [d.id, d.type])).toEqual([
+      ['patterns:design-patterns.yaml#repository', 'pattern'],
+      ['patterns:design-patterns.yaml#unit-of-work', 'pattern'],
+      ['patterns:design-patterns.yaml#dependency-injection', 'pattern'],
+      ['patterns:design-patterns.yaml#strategy', 'pattern'],
+      ['patterns:design-patterns.yaml', 'pattern-catalog'],
+    ]);
+
+    const [repository, unitOfWork] = catalog;
+    expect(repository.title).toBe('Repository');
+    expect(repository.metadata).toEqual({
+      source: 'patterns',
+      path: 'design-patterns.yaml',
+      patternId: 'repository',
+      patternCategory: 'architectural',
+      language: 'typescript',
+      hasImplementation: true,
+      relatedPatterns: ['unit-of-work', 'dependency-injection'],
+    });
+    expect(repository.content).toContain('## Problem');
+    expect(repository.content).toContain('## Implementation (typescript)');
+    expect(repository.content).toContain('- https://martinfowler.com/eaaCatalog/repository.html');
+    expect(unitOfWork.metadata).toMatchObject({ language: 'typescript', hasImplementation: false });
+
+    expect(catalog[4]).toMatchObject({
+      title: 'Design Patterns',
+      metadata: {
+        language: 'typescript',
+        version: '1.0',
+        patternCount: 4,
+        patternCategories: ['architectural', 'creational', 'behavioral'],
+      },
+    });
+    expect(catalog[4].content).toContain('- **Strategy** [behavioral]');
+  });
+
+  it('reads lists of patterns and single patterns, skipping invalid ones', async () => {
+    warnings.length = 0;
+    const source = new StructuredPracticeSource({
+      name: 'patterns',
+      type: 'local',
+      path: root,
+      format: 'yaml',
+      language: 'java',
+      cacheDir: path.join(root, '.cache-java'),
+    });
+    const { documents } = await source.fetchDocuments(context);
+    const byId = new Map(documents.map(d => [d.id, d]));
+
+    expect(byId.get('patterns:list.yaml#observer')?.metadata).toMatchObject({
+      patternCategory: 'behavioral',
+      language: 'java',
+      hasImplementation: false,
+    });
+    expect(byId.has('patterns:list.yaml#broken')).toBe(false);
+    expect(byId.get('patterns:singleton.yaml#singleton')?.metadata.patternCategory).toBe('creational');
+    expect(warnings).toContain('Skipping invalid pattern');
+  });
+});
@@ -2,24 +2,41 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
 import * as yaml from 'js-yaml';
+import type { SourceContext, Document } from '@xorng/template-knowledge';
 import {
-  FileSource,
-  type SourceContext,
-  type SourceResult,
-  type Document,
-} from '@xorng/template-knowledge';
-import { PracticeSchema, StyleGuideSchema, type SourceConfig, type Practice, type StyleGuide } from '../types/index.js';
+  PracticeSchema,
+  StyleGuideSchema,
+  PatternSchema,
+  PatternCatalogSchema,
+  PracticeOverridesFileSchema,
+  type SourceConfig,
+  type PracticeOverride,
+  type Practice,
+  type StyleGuide,
+  type Pattern,
+  type PatternCatalog,
+} from '../types/index.js';
+import { resolveCacheDir } from './cache.js';
+import { PRACTICE_FORMAT_VERSION, formatPracticeContent, formatStyleGuideOverview, practiceMetadata } from './formatting.js';
+import { SyncManifest } from './SyncManifest.js';
+import { PracticeFileSource } from './PracticeFileSource.js';
 
 /**
- * Source for loading structured practice definitions from JSON/YAML files
+ * Patterns are told apart from practices by their problem/solution fields
  */
-export class StructuredPracticeSource extends FileSource {
-  private config: SourceConfig;
-  private documentCache: Map<string, Document> = new Map();
+export function isPatternLike(data: unknown): boolean {
+  return !!data && typeof data === 'object' && 'problem' in data && 'solution' in data;
+}
 
+/**
+ * Source for loading structured practice definitions from JSON/YAML files
+ */
+export class StructuredPracticeSource extends PracticeFileSource {
   constructor(config: SourceConfig) {
-    super(config.name, `Structured practices from ${config.path}`, config.path);
-    this.config = config;
+    super(config, `Structured practices from ${config.path}`, new SyncManifest(
+      path.join(resolveCacheDir(config, 'manifest'), `${config.format || 'json'}.json`),
+      { format: PRACTICE_FORMAT_VERSION, path: path.resolve(config.path), language: config.language }
+    ));
   }
 
   async connect(context: SourceContext): Promise<void> {
@@ -30,60 +47,40 @@ export class StructuredPracticeSource extends FileSource {
     } catch {
       throw new Error(`Structured source path not found: ${this.basePath}`);
     }
-  }
 
-  async disconnect(): Promise<void> {
-    this.connected = false;
-    this.documentCache.clear();
+    if (this.config.watch) {
+      this.watch(context);
+    }
   }
 
-  async fetchDocuments(context: SourceContext): Promise<SourceResult> {
-    const documents: Document[] = [];
-    
-    const patterns = this.config.format === 'yaml' 
-      ? ['**/*.yaml', '**/*.yml']
-      : ['**/*.json'];
-
+  protected async findFiles(directory: string): Promise<string[]> {
     const files: string[] = [];
-    for (const pattern of patterns) {
+    for (const pattern of this.extensions().map(ext => `**/*${ext}`)) {
       const found = await glob(pattern, {
-        cwd: this.basePath,
-        absolute: true,
+        cwd: directory,
         ignore: ['**/node_modules/**', '**/dist/**'],
       });
       files.push(...found);
     }
-
-    context.logger.info({ fileCount: files.length }, 'Found structured practice files');
-
-    for (const file of files) {
-      try {
-        const docs = await this.loadStructuredFile(file, context);
-        documents.push(...docs);
-      } catch (error) {
-        context.logger.warn({ file, error }, 'Failed to load structured file');
-      }
-    }
-
-    return { documents };
+    return files;
   }
 
-  async fetchDocument(id: string, context: SourceContext): Promise<Document | null> {
-    return this.documentCache.get(id) || null;
+  protected isPracticeFile(relativePath: string): boolean {
+    return this.extensions().includes(path.extname(relativePath).toLowerCase());
   }
 
-  async getDocumentCount(): Promise<number> {
-    return this.documentCache.size;
+  private extensions(): string[] {
+    return this.config.format === 'yaml' ? ['.yaml', '.yml'] : ['.json'];
   }
 
   /**
    * Load and parse a structured file (JSON or YAML)
    */
-  private async loadStructuredFile(
+  protected async parseFile(
     filePath: string,
+    content: string,
     context: SourceContext
   ): Promise<Document[]> {
-    const content = await fs.readFile(filePath, 'utf-8');
     const relativePath = path.relative(this.basePath, filePath);
     const ext = path.extname(filePath).toLowerCase();
 
@@ -104,26 +101,79 @@ export class StructuredPracticeSource extends FileSource {
     if (styleGuideResult.success) {
       return this.processStyleGuide(styleGuideResult.data, relativePath);
     }
+    if (data && typeof data === 'object' && 'practices' in data) {
+      context.logger.warn({
+        file: filePath,
+        issues: styleGuideResult.error.issues,
+      }, 'Invalid style guide, run validate for details');
+      return [];
+    }
+
+    // Try as a file that only overrides practices of higher layers
+    const overridesResult = PracticeOverridesFileSchema.safeParse(data);
+    if (overridesResult.success) {
+      return this.processOverrides(overridesResult.data.overrides, relativePath);
+    }
+    if (data && typeof data === 'object' && 'overrides' in data) {
+      context.logger.warn({
+        file: filePath,
+        issues: overridesResult.error.issues,
+      }, 'Invalid practice overrides, run validate for details');
+      return [];
+    }
+
+    // Try as pattern catalog
+    const catalogResult = PatternCatalogSchema.safeParse(data);
+    if (catalogResult.success) {
+      return this.processPatternCatalog(catalogResult.data, relativePath);
+    }
+    if (data && typeof data === 'object' && 'patterns' in data) {
+      context.logger.warn({
+        file: filePath,
+        issues: catalogResult.error.issues,
+      }, 'Invalid pattern catalog, run validate for details');
+      return [];
+    }
 
-    // Try as array of practices
+    // Try as array of practices and/or patterns
     if (Array.isArray(data)) {
       const practices: Practice[] = [];
+      const patterns: Pattern[] = [];
       for (const item of data) {
-        const result = PracticeSchema.safeParse(item);
+        const result = isPatternLike(item)
+          ? PatternSchema.safeParse(item)
+          : PracticeSchema.safeParse(item);
         if (result.success) {
-          practices.push(result.data);
+          if (isPatternLike(item)) {
+            patterns.push(result.data as Pattern);
+          } else {
+            practices.push(result.data as Practice);
+          }
+        } else {
+          context.logger.warn({
+            file: filePath,
+            id: (item as { id?: unknown })?.id,
+            issues: result.error.issues,
+          }, isPatternLike(item) ? 'Skipping invalid pattern' : 'Skipping invalid practice');
         }
       }
-      if (practices.length > 0) {
-        return this.processPractices(practices, relativePath, {});
+      if (practices.length > 0 || patterns.length > 0) {
+        return [
+          ...this.processPractices(practices, relativePath, {}),
+          ...this.processPatterns(patterns, relativePath, {}),
+        ];
       }
     }
 
-    // Try as single practice
+    // Try as single practice or pattern
     const practiceResult = PracticeSchema.safeParse(data);
     if (practiceResult.success) {
       return this.processPractices([practiceResult.data], relativePath, {});
     }
+    const patternResult = PatternSchema.safeParse(data);
+    if (patternResult.success) {
+      return this.processPatterns([patternResult.data], relativePath, {});
+    }
 
     context.logger.warn({ file: filePath }, 'Unknown file format');
     return [];
@@ -139,16 +189,18 @@ export class StructuredPracticeSource extends FileSource {
     const practiceDefaults = {
       language: guide.language,
       framework: guide.framework,
+      appliesTo: guide.appliesTo,
     };
 
     const practiceDocs = this.processPractices(guide.practices, relativePath, practiceDefaults);
     documents.push(...practiceDocs);
+    documents.push(...this.processOverrides(guide.overrides || [], relativePath));
 
     // Create overview document
     const overview: Document = {
       id: `${this.name}:${relativePath}`,
       type: 'style-guide',
-      content: this.formatStyleGuideOverview(guide),
+      content: formatStyleGuideOverview(guide),
       title: guide.name,
       metadata: {
         source: this.name,
@@ -173,7 +225,7 @@ export class StructuredPracticeSource extends FileSource {
   private processPractices(
     practices: Practice[],
     relativePath: string,
-    defaults: { language?: string; framework?: string }
+    defaults: { language?: string; framework?: string; appliesTo?: string[] }
   ): Document[] {
     const documents: Document[] = [];
 
@@ -181,21 +233,39 @@ export class StructuredPracticeSource extends FileSource {
       const doc: Document = {
         id: `${this.name}:${relativePath}#${practice.id}`,
         type: 'practice',
-        content: this.formatPracticeContent(practice),
+        content: formatPracticeContent(practice),
         title: practice.title,
+        metadata: practiceMetadata(practice, { source: this.name, path: relativePath }, defaults),
+      };
+
+      documents.push(doc);
+      this.documentCache.set(doc.id, doc);
+    }
+
+    return documents;
+  }
+
+  /**
+   * Process overrides of practices defined by higher layers
+   */
+  private processOverrides(overrides: PracticeOverride[], relativePath: string): Document[] {
+    const documents: Document[] = [];
+
+    for (const override of overrides) {
+      const doc: Document = {
+        id: `${this.name}:${relativePath}#override:${override.id}`,
+        type: 'practice-override',
+        content: this.formatOverrideContent(override),
+        title: `Override: ${override.id}`,
         metadata: {
           source: this.name,
           path: relativePath,
-          practiceId: practice.id,
-          category: practice.category,
-          severity: practice.severity,
-          language: practice.language || defaults.language || 'general',
-          framework: practice.framework || defaults.framework,
-          tags: practice.tags || [],
-          hasGoodExample: !!practice.goodExample,
-          hasBadExample: !!practice.badExample,
-          lintRules: practice.lintRules || [],
-          relatedPractices: practice.relatedPractices || [],
+          practiceId: override.id,
+          override: true,
+          severity: override.severity,
+          exceptions: override.exceptions || [],
+          disabled: override.disabled,
+          reason: override.reason,
         },
       };
 
@@ -207,85 +277,154 @@ export class StructuredPracticeSource extends FileSource {
   }
 
   /**
-   * Format practice into searchable content
+   * Process a pattern catalog document
    */
-  private formatPracticeContent(practice: Practice): string {
-    const parts: string[] = [
-      `# ${practice.title}`,
-      '',
-      `**Category:** ${practice.category}`,
-      `**Severity:** ${practice.severity}`,
-      `**Language:** ${practice.language}`,
-      '',
-      practice.description,
-    ];
+  private processPatternCatalog(catalog: PatternCatalog, relativePath: string): Document[] {
+    const documents = this.processPatterns(catalog.patterns, relativePath, {
+      language: catalog.language,
+    });
 
-    if (practice.rationale) {
-      parts.push('', '## Rationale', practice.rationale);
-    }
+    const overview: Document = {
+      id: `${this.name}:${relativePath}`,
+      type: 'pattern-catalog',
+      content: this.formatPatternCatalogOverview(catalog),
+      title: catalog.name,
+      metadata: {
+        source: this.name,
+        path: relativePath,
+        language: catalog.language || this.config.language || 'general',
+        version: catalog.version,
+        patternCount: catalog.patterns.length,
+        patternCategories: [...new Set(catalog.patterns.map(p => p.category))],
+      },
+    };
 
-    if (practice.goodExample) {
-      parts.push('', '## Good Example', '```', practice.goodExample, '```');
-    }
+    documents.push(overview);
+    this.documentCache.set(overview.id, overview);
 
-    if (practice.badExample) {
-      parts.push('', '## Bad Example (Avoid)', '```', practice.badExample, '```');
-    }
+    return documents;
+  }
 
-    if (practice.exceptions && practice.exceptions.length > 0) {
-      parts.push('', '## Exceptions', practice.exceptions.map(e => `- ${e}`).join('\n'));
-    }
+  /**
+   * Process array of patterns
+   */
+  private processPatterns(
+    patterns: Pattern[],
+    relativePath: string,
+    defaults: { language?: string }
+  ): Document[] {
+    const documents: Document[] = [];
+
+    for (const pattern of patterns) {
+      const doc: Document = {
+        id: `${this.name}:${relativePath}#${pattern.id}`,
+        type: 'pattern',
+        content: this.formatPatternContent(pattern),
+        title: pattern.name,
+        metadata: {
+          source: this.name,
+          path: relativePath,
+          patternId: pattern.id,
+          patternCategory: pattern.category,
+          language: pattern.implementation?.language || defaults.language || this.config.language || 'general',
+          hasImplementation: !!pattern.implementation,
+          relatedPatterns: pattern.relatedPatterns || [],
+        },
+      };
 
-    if (practice.lintRules && practice.lintRules.length > 0) {
-      parts.push('', '## Related Lint Rules', practice.lintRules.map(r => `- ${r}`).join('\n'));
+      documents.push(doc);
+      this.documentCache.set(doc.id, doc);
     }
 
-    if (practice.references && practice.references.length > 0) {
-      parts.push('', '## References', practice.references.map(r => `- ${r}`).join('\n'));
+    return documents;
+  }
+
+  /**
+   * Format an override as a short description of what it changes
+   */
+  private formatOverrideContent(override: PracticeOverride): string {
+    const parts: string[] = [`# Override: ${override.id}`, ''];
+
+    if (override.disabled) {
+      parts.push('**Disabled**');
+    }
+    if (override.severity) {
+      parts.push(`**Severity:** ${override.severity}`);
+    }
+    if (override.reason) {
+      parts.push('', override.reason);
+    }
+    if (override.exceptions && override.exceptions.length > 0) {
+      parts.push('', '## Exceptions', override.exceptions.map(e => `- ${e}`).join('\n'));
     }
 
     return parts.join('\n');
   }
 
   /**
-   * Format style guide overview
+   * Format pattern into searchable content
    */
-  private formatStyleGuideOverview(guide: StyleGuide): string {
+  private formatPatternContent(pattern: Pattern): string {
     const parts: string[] = [
-      `# ${guide.name}`,
+      `# ${pattern.name}`,
+      '',
+      `**Category:** ${pattern.category}`,
+      '',
+      pattern.description,
       '',
-      `**Language:** ${guide.language}`,
+      '## Problem',
+      pattern.problem,
+      '',
+      '## Solution',
+      pattern.solution,
     ];
 
-    if (guide.framework) {
-      parts.push(`**Framework:** ${guide.framework}`);
+    if (pattern.applicability.length > 0) {
+      parts.push('', '## Applicability', pattern.applicability.map(a => `- ${a}`).join('\n'));
     }
-    if (guide.version) {
-      parts.push(`**Version:** ${guide.version}`);
+
+    if (pattern.consequences.benefits.length > 0) {
+      parts.push('', '## Benefits', pattern.consequences.benefits.map(b => `- ${b}`).join('\n'));
     }
 
-    if (guide.description) {
-      parts.push('', guide.description);
+    if (pattern.consequences.drawbacks.length > 0) {
+      parts.push('', '## Drawbacks', pattern.consequences.drawbacks.map(d => `- ${d}`).join('\n'));
     }
 
-    parts.push('', '## Practices', '');
+    if (pattern.implementation) {
+      parts.push(
+        '',
+        `## Implementation (${pattern.implementation.language})`,
+        '```' + pattern.implementation.language,
+        pattern.implementation.code,
+        '```'
+      );
+    }
 
-    // Group by category
-    const byCategory = new Map<string, Practice[]>();
-    for (const practice of guide.practices) {
-      const cat = practice.category;
-      if (!byCategory.has(cat)) {
-        byCategory.set(cat, []);
-      }
-      byCategory.get(cat)!.push(practice);
+    if (pattern.relatedPatterns && pattern.relatedPatterns.length > 0) {
+      parts.push('', '## Related Patterns', pattern.relatedPatterns.map(p => `- ${p}`).join('\n'));
     }
 
-    for (const [category, practices] of byCategory) {
-      parts.push(`### ${category}`, '');
-      for (const p of practices) {
-        parts.push(`- **${p.title}** [${p.severity}]: ${p.description.slice(0, 100)}...`);
-      }
-      parts.push('');
+    if (pattern.references && pattern.references.length > 0) {
+      parts.push('', '## References', pattern.references.map(r => `- ${r}`).join('\n'));
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Format pattern catalog overview
+   */
+  private formatPatternCatalogOverview(catalog: PatternCatalog): string {
+    const parts: string[] = [`# ${catalog.name}`];
+
+    if (catalog.description) {
+      parts.push('', catalog.description);
+    }
+
+    parts.push('', '## Patterns', '');
+    for (const p of catalog.patterns) {
+      parts.push(`- **${p.name}** [${p.category}]: ${p.description.slice(0, 100)}...`);
     }
 
     return parts.join('\n');
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { practiceDoc } from './testing.js';
+import { SyncManifest, hashContent } from './SyncManifest.js';
+
+describe('SyncManifest', () => {
+  let dir: string;
+  let manifestPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-manifest-'));
+    manifestPath = path.join(dir, 'manifest', 'markdown.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const open = async (fingerprint: unknown = { parser: 1 }) => {
+    const manifest = new SyncManifest(manifestPath, fingerprint);
+    await manifest.load();
+    manifest.begin();
+    return manifest;
+  };
+
+  it('counts added, updated, removed and unchanged documents', async () => {
+    const first = await open();
+    first.record('a.md', hashContent('a1'), [
+      practiceDoc({ id: 'one' }, { path: 'a.md' }),
+      practiceDoc({ id: 'two' }, { path: 'a.md' }),
+    ]);
+    first.record('b.md', hashContent('b1'), [practiceDoc({ id: 'three' }, { path: 'b.md' })]);
+    expect(first.finish()).toMatchObject({ added: 3, updated: 0, removed: 0, parsedFiles: 2 });
+    await first.save();
+
+    const second = await open();
+    expect(second.reuse('a.md', hashContent('a2'))).toBeUndefined();
+    second.record('a.md', hashContent('a2'), [
+      practiceDoc({ id: 'one' }, { path: 'a.md' }),
+      practiceDoc({ id: 'four' }, { path: 'a.md' }),
+    ]);
+    const stats = second.finish();
+
+    expect(stats).toMatchObject({ added: 1, updated: 1, removed: 2, unchanged: 0, parsedFiles: 1, reusedFiles: 0 });
+    expect(stats.removedIds.sort()).toEqual(['org:a.md#two', 'org:b.md#three']);
+  });
+
+  it('reuses the stored documents of unchanged files after a restart', async () => {
+    const first = await open();
+    const documents = [practiceDoc({ id: 'one' }, { path: 'a.md' })];
+    first.record('a.md', hashContent('a1'), documents);
+    first.finish();
+    await first.save();
+
+    const second = await open();
+
+    expect(second.reuse('a.md', hashContent('a1'))).toEqual(documents);
+    expect(second.finish()).toMatchObject({ unchanged: 1, reusedFiles: 1, parsedFiles: 0, removed: 0 });
+  });
+
+  it('discards stored documents when the fingerprint changes', async () => {
+    const first = await open({ parser: 1 });
+    first.record('a.md', hashContent('a1'), [practiceDoc({ id: 'one' }, { path: 'a.md' })]);
+    first.finish();
+    await first.save();
+
+    const second = await open({ parser: 2 });
+
+    expect(second.reuse('a.md', hashContent('a1'))).toBeUndefined();
+  });
+
+  it('starts empty when the manifest file is unreadable', async () => {
+    await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+    await fs.writeFile(manifestPath, '{ not json', 'utf-8');
+
+    const manifest = await open();
+
+    expect(manifest.reuse('a.md', hashContent('a1'))).toBeUndefined();
+    expect(manifest.finish().vanishedIds).toEqual([]);
+  });
+
+  it('reports practice IDs that vanished without being listed as an alias', async () => {
+    const first = await open({ parser: 1 });
+    first.record('a.md', hashContent('a1'), [
+      practiceDoc({ id: 'one' }, { path: 'a.md' }),
+      practiceDoc({ id: 'two' }, { path: 'a.md' }),
+    ]);
+    first.record('b.md', hashContent('b1'), [practiceDoc({ id: 'three' }, { path: 'b.md' })]);
+    first.finish();
+    await first.save();
+
+    // Prior IDs survive a fingerprint change
+    const second = await open({ parser: 2 });
+    second.record('a.md', hashContent('a2'), [
+      practiceDoc({ id: 'one-renamed', aliases: ['one'] }, { path: 'a.md' }),
+    ]);
+    second.record('b.md', hashContent('b1'), [practiceDoc({ id: 'three' }, { path: 'b.md' })]);
+
+    expect(second.finish().vanishedIds).toEqual(['two']);
+  });
+});
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Document } from '@xorng/template-knowledge';
+import { PracticeSchema, type SourceSyncStats } from '../types/index.js';
+
+/**
+ * Bump when the manifest file layout changes. Parser and formatter changes
+ * are picked up through the versions sources put in their fingerprint
+ */
+const MANIFEST_VERSION = 4;
+
+interface ManifestEntry {
+  hash: string;
+  documentIds: string[];
+  documents: Document[];
+}
+
+interface ManifestFile {
+  version: number;
+  fingerprint: string;
+  files: Record<string, ManifestEntry>;
+  /** Practice IDs produced by the last full sync */
+  practiceIds?: string[];
+}
+
+/**
+ * Hash of a file's content
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * On-disk record of which documents each file produced, keyed by content hash.
+ *
+ * A sync starts with `begin()`, asks `reuse()` for every file it finds and
+ * `record()`s the files it had to parse. `finish()` drops files that were not
+ * seen and returns the added/updated/removed/unchanged document counts.
+ * Documents are stored with their entries so unchanged files are not parsed
+ * again after a restart. The practice IDs of each full sync are kept so IDs
+ * that vanish without being listed in `aliases` can be reported.
+ */
+export class SyncManifest {
+  private filePath: string;
+  private fingerprint: string;
+  private files: Map<string, ManifestEntry> = new Map();
+  private practiceIds?: Set<string>;
+  private seen: Set<string> = new Set();
+  private stats: SourceSyncStats = SyncManifest.emptyStats();
+  private loaded = false;
+
+  /**
+   * @param fingerprint Settings and parser/formatter versions that change the
+   * documents produced; a different fingerprint, or a change to the practice
+   * schema's fields, invalidates the manifest
+   */
+  constructor(filePath: string, fingerprint: unknown) {
+    this.filePath = filePath;
+    this.fingerprint = hashContent(JSON.stringify({
+      version: MANIFEST_VERSION,
+      practiceFields: Object.keys(PracticeSchema.shape),
+      fingerprint,
+    }));
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as ManifestFile;
+      if (data.version === MANIFEST_VERSION && data.fingerprint === this.fingerprint) {
+        this.files = new Map(Object.entries(data.files));
+      }
+      // IDs stay meaningful when parsing changes, so they survive a new fingerprint
+      if (Array.isArray(data.practiceIds)) {
+        this.practiceIds = new Set(data.practiceIds);
+      }
+    } catch {
+      // No manifest yet, or unreadable: everything is parsed again
+    }
+  }
+
+  async save(): Promise<void> {
+    const data: ManifestFile = {
+      version: MANIFEST_VERSION,
+      fingerprint: this.fingerprint,
+      files: Object.fromEntries(this.files),
+      practiceIds: this.practiceIds ? [...this.practiceIds] : undefined,
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data), 'utf-8');
+    await fs.rename(temp, this.filePath);
+  }
+
+  begin(): void {
+    this.seen.clear();
+    this.stats = SyncManifest.emptyStats();
+  }
+
+  /**
+   * Documents from the last parse of a file, if its content is unchanged
+   */
+  reuse(relativePath: string, hash: string): Document[] | undefined {
+    const entry = this.files.get(relativePath);
+    if (!entry || entry.hash !== hash) return undefined;
+
+    this.seen.add(relativePath);
+    this.stats.reusedFiles++;
+    this.stats.unchanged += entry.documentIds.length;
+    return entry.documents;
+  }
+
+  /**
+   * Store the documents parsed from a file
+   */
+  record(relativePath: string, hash: string, documents: Document[]): void {
+    const previous = new Set(this.files.get(relativePath)?.documentIds || []);
+    const current = documents.map(d => d.id);
+
+    for (const id of current) {
+      if (previous.has(id)) {
+        this.stats.updated++;
+        previous.delete(id);
+      } else {
+        this.stats.added++;
+      }
+    }
+    this.addRemoved([...previous]);
+
+    this.files.set(relativePath, { hash, documentIds: current, documents });
+    this.seen.add(relativePath);
+    this.stats.parsedFiles++;
+  }
+
+  /**
+   * Forget a file that no longer exists
+   */
+  remove(relativePath: string): void {
+    const entry = this.files.get(relativePath);
+    if (!entry) return;
+    this.files.delete(relativePath);
+    this.addRemoved(entry.documentIds);
+  }
+
+  /**
+   * Drop files not seen since `begin()` and return the sync counts
+   */
+  finish(): SourceSyncStats {
+    for (const relativePath of [...this.files.keys()]) {
+      if (!this.seen.has(relativePath)) this.remove(relativePath);
+    }
+
+    const current = new Set<string>();
+    const aliases = new Set<string>();
+    for (const entry of this.files.values()) {
+      for (const doc of entry.documents) {
+        if (doc.type !== 'practice') continue;
+        current.add(doc.metadata.practiceId as string);
+        for (const alias of (doc.metadata.aliases as string[]) || []) aliases.add(alias);
+      }
+    }
+
+    this.stats.vanishedIds = [...(this.practiceIds || [])]
+      .filter(id => !current.has(id) && !aliases.has(id));
+    this.practiceIds = current;
+
+    return { ...this.stats, removedIds: [...this.stats.removedIds] };
+  }
+
+  private addRemoved(ids: string[]): void {
+    this.stats.removed += ids.length;
+    this.stats.removedIds.push(...ids);
+  }
+
+  private static emptyStats(): SourceSyncStats {
+    return {
+      added: 0,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+      parsedFiles: 0,
+      reusedFiles: 0,
+      removedIds: [],
+      vanishedIds: [],
+    };
+  }
+}
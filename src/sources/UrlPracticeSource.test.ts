@@ -0,0 +1,171 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceContext } from '@xorng/template-knowledge';
+import type { SourceConfig } from '../types/index.js';
+import { UrlPracticeSource } from './UrlPracticeSource.js';
+
+const context = {
+  logger: { info() {}, warn() {}, error() {}, debug() {} },
+} as unknown as SourceContext;
+
+const MARKDOWN_GUIDE = `# Remote guide
+
+## Use strict equality
+
+Compare with === so values are not coerced.
+`;
+
+const YAML_GUIDE = `name: Remote security
+language: general
+practices:
+  - id: validate-input
+    title: Validate all input
+    description: Never trust input from outside the process.
+    category: security
+    severity: error
+`;
+
+const LAST_MODIFIED = 'Wed, 01 Jan 2025 00:00:00 GMT';
+
+/**
+ * Stub server: ETag on /guide.md, Last-Modified on the index and its guides
+ */
+function createStubServer(requests: http.IncomingHttpHeaders[], state: { offline: boolean }): http.Server {
+  return http.createServer((req, res) => {
+    requests.push({ ...req.headers, path: req.url });
+    if (state.offline) {
+      res.writeHead(503).end();
+      return;
+    }
+
+    switch (req.url) {
+      case '/guide.md':
+        if (req.headers['if-none-match'] === '"v1"') {
+          res.writeHead(304).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/markdown', ETag: '"v1"' }).end(MARKDOWN_GUIDE);
+        return;
+      case '/index.json':
+      case '/security.yaml': {
+        if (req.headers['if-modified-since'] === LAST_MODIFIED) {
+          res.writeHead(304).end();
+          return;
+        }
+        const body = req.url === '/index.json'
+          ? JSON.stringify({ guides: ['guide.md', { url: 'security.yaml', format: 'yaml' }] })
+          : YAML_GUIDE;
+        res.writeHead(200, { 'Last-Modified': LAST_MODIFIED }).end(body);
+        return;
+      }
+      default:
+        res.writeHead(404).end();
+    }
+  });
+}
+
+describe('UrlPracticeSource', () => {
+  const requests: http.IncomingHttpHeaders[] = [];
+  const state = { offline: false };
+  let server: http.Server;
+  let baseUrl: string;
+  let cacheDir: string;
+
+  const config = (url: string): SourceConfig => ({
+    name: 'remote',
+    type: 'url',
+    path: `${baseUrl}${url}`,
+    format: 'markdown',
+    cacheDir,
+  });
+
+  const sync = async (url: string) => {
+    const source = new UrlPracticeSource(config(url));
+    await source.connect(context);
+    const { documents } = await source.fetchDocuments(context);
+    await source.disconnect();
+    return documents;
+  };
+
+  beforeAll(async () => {
+    server = createStubServer(requests, state);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'url-source-'));
+    requests.length = 0;
+    state.offline = false;
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('downloads a guide and records its ETag in cache.json', async () => {
+    const documents = await sync('/guide.md');
+
+    const practice = documents.find(doc => doc.type === 'practice')!;
+    expect(practice.title).toBe('Use strict equality');
+    expect(practice.metadata.url).toBe(`${baseUrl}/guide.md`);
+    expect(practice.metadata.stale).toBe(false);
+
+    const manifest = JSON.parse(await fs.readFile(path.join(cacheDir, 'url', 'remote', 'cache.json'), 'utf-8'));
+    expect(manifest.entries[`${baseUrl}/guide.md`]).toMatchObject({ etag: '"v1"', format: 'markdown', kind: 'guide' });
+  });
+
+  it('revalidates with If-None-Match and reuses the cached body on 304', async () => {
+    await sync('/guide.md');
+    requests.length = 0;
+
+    const documents = await sync('/guide.md');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]['if-none-match']).toBe('"v1"');
+    expect(documents.find(doc => doc.type === 'practice')).toMatchObject({
+      title: 'Use strict equality',
+      metadata: { stale: false },
+    });
+  });
+
+  it('follows guide indexes and revalidates them with If-Modified-Since', async () => {
+    const first = await sync('/index.json');
+    expect(first.filter(doc => doc.type === 'practice').map(doc => doc.title).sort()).toEqual([
+      'Use strict equality',
+      'Validate all input',
+    ]);
+
+    requests.length = 0;
+    const second = await sync('/index.json');
+
+    const conditional = requests.filter(req => req['if-modified-since'] === LAST_MODIFIED).map(req => req.path);
+    expect(conditional.sort()).toEqual(['/index.json', '/security.yaml']);
+    expect(second.filter(doc => doc.type === 'practice')).toHaveLength(2);
+  });
+
+  it('serves the last good copy marked stale when the server is unreachable', async () => {
+    await sync('/guide.md');
+    state.offline = true;
+
+    const documents = await sync('/guide.md');
+
+    const practice = documents.find(doc => doc.type === 'practice')!;
+    expect(practice.title).toBe('Use strict equality');
+    expect(practice.metadata.stale).toBe(true);
+  });
+
+  it('fails when the server is unreachable and nothing is cached', async () => {
+    state.offline = true;
+
+    await expect(sync('/guide.md')).rejects.toThrow(/Failed to fetch/);
+  });
+});
@@ -0,0 +1,360 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import * as yaml from 'js-yaml';
+import {
+  FileSource,
+  type SourceContext,
+  type SourceResult,
+  type Document,
+} from '@xorng/template-knowledge';
+import { GuideIndexSchema, type SourceConfig, type SourceSyncStats } from '../types/index.js';
+import { MarkdownPracticeSource } from './MarkdownPracticeSource.js';
+import { StructuredPracticeSource } from './StructuredPracticeSource.js';
+import { resolveCacheDir } from './cache.js';
+
+type GuideFormat = SourceConfig['format'];
+
+/**
+ * Cached state of a single downloaded URL
+ */
+interface CacheEntry {
+  file: string;
+  format: GuideFormat;
+  kind: 'guide' | 'index';
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+}
+
+interface CacheManifest {
+  entries: Record<string, CacheEntry>;
+}
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+const FORMAT_EXTENSIONS: Record<GuideFormat, string> = {
+  markdown: '.md',
+  yaml: '.yaml',
+  json: '.json',
+};
+
+/**
+ * Source for loading a style guide, or an index of style guides, over HTTP(S).
+ *
+ * Downloads are kept in an on-disk cache and revalidated with ETag /
+ * Last-Modified conditional requests. When a URL cannot be fetched the last
+ * good copy is served and its documents are marked as stale.
+ */
+export class UrlPracticeSource extends FileSource {
+  private config: SourceConfig;
+  private cacheDir: string;
+  private inner: Map<GuideFormat, MarkdownPracticeSource | StructuredPracticeSource> = new Map();
+  private files: Map<string, { url: string; entry: CacheEntry; stale: boolean }> = new Map();
+  private freshDownload = false;
+
+  constructor(config: SourceConfig) {
+    const cacheDir = resolveCacheDir(config, 'url');
+    super(config.name, `Practices from ${config.path}`, path.join(cacheDir, 'files'));
+    this.config = config;
+    this.cacheDir = cacheDir;
+  }
+
+  async connect(context: SourceContext): Promise<void> {
+    await this.download(context.logger);
+    this.freshDownload = true;
+    await this.connectInnerSources(context);
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    for (const source of this.inner.values()) {
+      await source.disconnect();
+    }
+    this.inner.clear();
+  }
+
+  async fetchDocuments(context: SourceContext): Promise<SourceResult> {
+    if (!this.freshDownload) {
+      await this.download(context.logger);
+      await this.connectInnerSources(context);
+    }
+    this.freshDownload = false;
+
+    const documents: Document[] = [];
+    for (const source of this.inner.values()) {
+      const result = await source.fetchDocuments(context);
+      for (const doc of result.documents) {
+        this.annotate(doc);
+      }
+      documents.push(...result.documents);
+    }
+
+    return { documents };
+  }
+
+  async fetchDocument(id: string, context: SourceContext): Promise<Document | null> {
+    for (const source of this.inner.values()) {
+      const doc = await source.fetchDocument(id, context);
+      if (doc) return doc;
+    }
+    return null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    let count = 0;
+    for (const source of this.inner.values()) {
+      count += await source.getDocumentCount();
+    }
+    return count;
+  }
+
+  /**
+   * Document counts from the last full sync, summed over the downloaded guides
+   */
+  getLastSync(): SourceSyncStats | undefined {
+    const stats = [...this.inner.values()]
+      .map(source => source.getLastSync())
+      .filter((s): s is SourceSyncStats => !!s);
+    if (stats.length === 0) return undefined;
+
+    return {
+      added: stats.reduce((sum, s) => sum + s.added, 0),
+      updated: stats.reduce((sum, s) => sum + s.updated, 0),
+      removed: stats.reduce((sum, s) => sum + s.removed, 0),
+      unchanged: stats.reduce((sum, s) => sum + s.unchanged, 0),
+      parsedFiles: stats.reduce((sum, s) => sum + s.parsedFiles, 0),
+      reusedFiles: stats.reduce((sum, s) => sum + s.reusedFiles, 0),
+      removedIds: stats.flatMap(s => s.removedIds),
+      vanishedIds: stats.flatMap(s => s.vanishedIds),
+    };
+  }
+
+  /**
+   * Download the configured URL (and the guides it indexes) into the cache.
+   * Returns the directory holding the downloaded guides.
+   */
+  async download(logger: SourceContext['logger']): Promise<string> {
+    const manifest = await this.loadManifest();
+    const next: CacheManifest = { entries: {} };
+    this.files.clear();
+
+    const root = await this.fetchUrl(this.config.path, manifest.entries[this.config.path], logger);
+    const guideUrls = this.parseIndex(root.body, root.entry.format, this.config.path);
+
+    if (guideUrls) {
+      root.entry.kind = 'index';
+      next.entries[this.config.path] = root.entry;
+
+      for (const guide of guideUrls) {
+        try {
+          const result = await this.fetchUrl(guide.url, manifest.entries[guide.url], logger, guide.format);
+          next.entries[guide.url] = result.entry;
+          this.files.set(result.entry.file, { url: guide.url, entry: result.entry, stale: result.stale });
+        } catch (error) {
+          logger.warn({ url: guide.url, error }, 'Failed to download style guide');
+        }
+      }
+    } else {
+      next.entries[this.config.path] = root.entry;
+      this.files.set(root.entry.file, { url: this.config.path, entry: root.entry, stale: root.stale });
+    }
+
+    await this.pruneFiles(next);
+    await this.saveManifest(next);
+
+    return this.basePath;
+  }
+
+  /**
+   * Fetch a URL with a conditional request, falling back to the cached copy
+   */
+  private async fetchUrl(
+    url: string,
+    cached: CacheEntry | undefined,
+    logger: SourceContext['logger'],
+    formatHint?: GuideFormat
+  ): Promise<{ entry: CacheEntry; body: string; stale: boolean }> {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (response.status === 304 && cached) {
+        const body = await fs.readFile(this.cachedPath(cached), 'utf-8');
+        return {
+          entry: { ...cached, fetchedAt: new Date().toISOString() },
+          body,
+          stale: false,
+        };
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const body = await response.text();
+      const format = formatHint || this.detectFormat(url, response.headers.get('content-type'));
+      const entry: CacheEntry = {
+        file: this.fileNameFor(url, format),
+        format,
+        kind: 'guide',
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined,
+        fetchedAt: new Date().toISOString(),
+      };
+
+      await fs.mkdir(path.dirname(this.cachedPath(entry)), { recursive: true });
+      await fs.writeFile(this.cachedPath(entry), body, 'utf-8');
+
+      return { entry, body, stale: false };
+    } catch (error) {
+      if (!cached) {
+        throw new Error(`Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      try {
+        const body = await fs.readFile(this.cachedPath(cached), 'utf-8');
+        logger.warn({ url, fetchedAt: cached.fetchedAt, error }, 'Serving cached copy of style guide');
+        return { entry: cached, body, stale: true };
+      } catch {
+        throw new Error(`Failed to fetch ${url} and no cached copy is available`);
+      }
+    }
+  }
+
+  /**
+   * Return the guide URLs if the body is a guide index
+   */
+  private parseIndex(
+    body: string,
+    format: GuideFormat,
+    baseUrl: string
+  ): Array<{ url: string; format?: GuideFormat }> | null {
+    if (format === 'markdown') return null;
+
+    let data: unknown;
+    try {
+      data = format === 'json' ? JSON.parse(body) : yaml.load(body);
+    } catch {
+      return null;
+    }
+
+    const result = GuideIndexSchema.safeParse(data);
+    if (!result.success) return null;
+
+    return result.data.guides.map(guide => {
+      const entry = typeof guide === 'string' ? { url: guide } : guide;
+      return { ...entry, url: new URL(entry.url, baseUrl).toString() };
+    });
+  }
+
+  /**
+   * Create and connect one inner source per downloaded format
+   */
+  private async connectInnerSources(context: SourceContext): Promise<void> {
+    const formats = new Set([...this.files.values()].map(f => f.entry.format));
+
+    for (const format of formats) {
+      if (this.inner.has(format)) continue;
+
+      const innerConfig: SourceConfig = { ...this.config, type: 'local', path: this.basePath, format, watch: false };
+      const source = format === 'markdown'
+        ? new MarkdownPracticeSource(innerConfig)
+        : new StructuredPracticeSource(innerConfig);
+
+      await source.connect(context);
+      this.inner.set(format, source);
+    }
+  }
+
+  private annotate(doc: Document): void {
+    const file = this.files.get(doc.metadata.path as string);
+    if (!file) return;
+
+    doc.metadata.url = file.url;
+    doc.metadata.fetchedAt = file.entry.fetchedAt;
+    doc.metadata.stale = file.stale;
+  }
+
+  private detectFormat(url: string, contentType: string | null): GuideFormat {
+    const ext = path.extname(new URL(url).pathname).toLowerCase();
+    if (ext === '.md' || ext === '.markdown') return 'markdown';
+    if (ext === '.yaml' || ext === '.yml') return 'yaml';
+    if (ext === '.json') return 'json';
+
+    const type = (contentType || '').toLowerCase();
+    if (type.includes('markdown')) return 'markdown';
+    if (type.includes('yaml')) return 'yaml';
+    if (type.includes('json')) return 'json';
+
+    return this.config.format;
+  }
+
+  /**
+   * Stable, readable cache file name for a URL
+   */
+  private fileNameFor(url: string, format: GuideFormat): string {
+    const pathname = new URL(url).pathname;
+    const base = path.basename(pathname, path.extname(pathname)).replace(/[^a-zA-Z0-9._-]+/g, '_') || 'guide';
+    const hash = createHash('sha256').update(url).digest('hex').slice(0, 8);
+    return `${base}-${hash}${FORMAT_EXTENSIONS[format]}`;
+  }
+
+  private cachedPath(entry: CacheEntry): string {
+    return entry.kind === 'index'
+      ? path.join(this.cacheDir, entry.file)
+      : path.join(this.basePath, entry.file);
+  }
+
+  /**
+   * Remove downloads that are no longer referenced and move the index
+   * out of the guides directory so it is not parsed as a guide
+   */
+  private async pruneFiles(manifest: CacheManifest): Promise<void> {
+    await fs.mkdir(this.basePath, { recursive: true });
+
+    for (const entry of Object.values(manifest.entries)) {
+      if (entry.kind !== 'index') continue;
+      const guidePath = path.join(this.basePath, entry.file);
+      try {
+        await fs.rename(guidePath, this.cachedPath(entry));
+      } catch {
+        // Already moved on a previous download
+      }
+    }
+
+    const keep = new Set(
+      Object.values(manifest.entries).filter(e => e.kind === 'guide').map(e => e.file)
+    );
+    for (const file of await fs.readdir(this.basePath)) {
+      if (!keep.has(file)) {
+        await fs.rm(path.join(this.basePath, file), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async loadManifest(): Promise<CacheManifest> {
+    try {
+      const content = await fs.readFile(path.join(this.cacheDir, 'cache.json'), 'utf-8');
+      return JSON.parse(content) as CacheManifest;
+    } catch {
+      return { entries: {} };
+    }
+  }
+
+  private async saveManifest(manifest: CacheManifest): Promise<void> {
+    await fs.mkdir(this.cacheDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.cacheDir, 'cache.json'),
+      JSON.stringify(manifest, null, 2),
+      'utf-8'
+    );
+  }
+}
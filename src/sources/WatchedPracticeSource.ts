@@ -0,0 +1,96 @@
+import {
+  FileSource,
+  type SourceContext,
+  type Document,
+} from '@xorng/template-knowledge';
+import type { SourceConfig, SourceSyncStats } from '../types/index.js';
+import type { SyncManifest } from './SyncManifest.js';
+import {
+  PracticeWatcher,
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  type SourceChange,
+  type SourceChangeListener,
+} from './PracticeWatcher.js';
+
+/**
+ * Base for local sources that sync through a manifest and can watch their
+ * directory for changes.
+ *
+ * Subclasses decide what a change means in `reload`: re-parse the changed
+ * files, or re-read the whole source.
+ */
+export abstract class WatchedPracticeSource extends FileSource {
+  protected config: SourceConfig;
+  protected documentCache: Map<string, Document> = new Map();
+  protected manifest: SyncManifest;
+  protected lastSync?: SourceSyncStats;
+  private changeListeners: SourceChangeListener[] = [];
+  private watcher?: PracticeWatcher;
+
+  constructor(config: SourceConfig, description: string, manifest: SyncManifest) {
+    super(config.name, description, config.path);
+    this.config = config;
+    this.manifest = manifest;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.documentCache.clear();
+  }
+
+  /**
+   * Subscribe to documents changed by the file watcher
+   */
+  onChange(listener: SourceChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Watch `basePath` and reload the source when files change
+   */
+  watch(context: SourceContext): void {
+    this.watcher ??= new PracticeWatcher(this.basePath, {
+      debounceMs: this.config.watchDebounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS,
+      logger: context.logger,
+      onChange: async files => {
+        const change = await this.reload(files, context);
+        if (change.documents.length === 0 && change.removed.length === 0) return;
+        for (const listener of this.changeListeners) {
+          listener(change);
+        }
+      },
+    });
+    this.watcher.start();
+  }
+
+  /**
+   * Document counts from the last full sync
+   */
+  getLastSync(): SourceSyncStats | undefined {
+    return this.lastSync;
+  }
+
+  async fetchDocument(id: string, context: SourceContext): Promise<Document | null> {
+    return this.documentCache.get(id) || null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return this.documentCache.size;
+  }
+
+  /**
+   * Documents produced and removed by the changed paths (relative to
+   * `basePath`)
+   */
+  protected abstract reload(files: string[], context: SourceContext): Promise<SourceChange>;
+
+  protected async saveManifest(context: SourceContext): Promise<void> {
+    try {
+      await this.manifest.save();
+    } catch (error) {
+      context.logger.warn({ source: this.name, error }, 'Failed to save sync manifest');
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceConfig } from '../types/index.js';
+
+/**
+ * Resolve the cache directory for a source: checkouts, downloads and sync manifests.
+ * Uses the source's `cacheDir`, then `XORNG_PRACTICES_CACHE`, then the OS temp dir.
+ */
+export function resolveCacheDir(config: SourceConfig, kind: string): string {
+  const root = config.cacheDir
+    || process.env.XORNG_PRACTICES_CACHE
+    || path.join(os.tmpdir(), 'xorng-practices');
+
+  return path.resolve(root, kind, toSafeName(config.name));
+}
+
+/**
+ * Make a string safe for use as a single path segment
+ */
+export function toSafeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]+/g, '_');
+}
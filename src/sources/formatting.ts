@@ -0,0 +1,135 @@
+import type { Document } from '@xorng/template-knowledge';
+import type { Practice, StyleGuide } from '../types/index.js';
+
+/**
+ * Version of practice documents; bump when the output of
+ * formatPracticeContent or the practice metadata changes so cached
+ * documents are built again
+ */
+export const PRACTICE_FORMAT_VERSION = 2;
+
+/**
+ * Format practice into searchable content
+ */
+export function formatPracticeContent(practice: Practice): string {
+  const parts: string[] = [
+    `# ${practice.title}`,
+    '',
+    `**Category:** ${practice.category}`,
+    `**Severity:** ${practice.severity}`,
+    `**Language:** ${practice.language}`,
+    '',
+    practice.description,
+  ];
+
+  if (practice.rationale) {
+    parts.push('', '## Rationale', practice.rationale);
+  }
+
+  if (practice.goodExample) {
+    parts.push('', '## Good Example', '```', practice.goodExample, '```');
+  }
+
+  if (practice.badExample) {
+    parts.push('', '## Bad Example (Avoid)', '```', practice.badExample, '```');
+  }
+
+  if (practice.exceptions && practice.exceptions.length > 0) {
+    parts.push('', '## Exceptions', practice.exceptions.map(e => `- ${e}`).join('\n'));
+  }
+
+  if (practice.lintRules && practice.lintRules.length > 0) {
+    parts.push('', '## Related Lint Rules', practice.lintRules.map(r => `- ${r}`).join('\n'));
+  }
+
+  if (practice.mappings && Object.keys(practice.mappings).length > 0) {
+    parts.push('', '## Mappings', Object.entries(practice.mappings).map(([framework, ids]) => `- ${framework}: ${ids.join(', ')}`).join('\n'));
+  }
+
+  if (practice.references && practice.references.length > 0) {
+    parts.push('', '## References', practice.references.map(r => `- ${r}`).join('\n'));
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Metadata of a practice document. The declared practice is kept in
+ * `practice`; `defaults` (from the guide or source) fill the fields the
+ * practice leaves unset.
+ */
+export function practiceMetadata(
+  practice: Practice,
+  location: { source: string; path: string },
+  defaults: { language?: string; framework?: string; appliesTo?: string[] } = {}
+): Document['metadata'] {
+  return {
+    source: location.source,
+    path: location.path,
+    practiceId: practice.id,
+    category: practice.category,
+    severity: practice.severity,
+    language: practice.language || defaults.language || 'general',
+    framework: practice.framework || defaults.framework,
+    tags: practice.tags || [],
+    hasGoodExample: !!practice.goodExample,
+    hasBadExample: !!practice.badExample,
+    lintRules: practice.lintRules || [],
+    aliases: practice.aliases || [],
+    relatedPractices: practice.relatedPractices || [],
+    relatedPatterns: practice.relatedPatterns || [],
+    supersedes: practice.supersedes || [],
+    conflictsWith: practice.conflictsWith || [],
+    appliesTo: practice.appliesTo || defaults.appliesTo || [],
+    status: practice.status || 'active',
+    deprecatedIn: practice.deprecatedIn,
+    replacedBy: practice.replacedBy,
+    effectiveDate: practice.effectiveDate,
+    mappings: practice.mappings || {},
+    practice,
+  };
+}
+
+/**
+ * Format style guide overview
+ */
+export function formatStyleGuideOverview(guide: StyleGuide): string {
+  const parts: string[] = [
+    `# ${guide.name}`,
+    '',
+    `**Language:** ${guide.language}`,
+  ];
+
+  if (guide.framework) {
+    parts.push(`**Framework:** ${guide.framework}`);
+  }
+  if (guide.version) {
+    parts.push(`**Version:** ${guide.version}`);
+  }
+
+  if (guide.description) {
+    parts.push('', guide.description);
+  }
+
+  parts.push('', '## Practices', '');
+
+  // Group by category
+  const byCategory = new Map<string, Practice[]>();
+  for (const practice of guide.practices) {
+    const cat = practice.category;
+    if (!byCategory.has(cat)) {
+      byCategory.set(cat, []);
+    }
+    byCategory.get(cat)!.push(practice);
+  }
+
+  for (const [category, practices] of byCategory) {
+    parts.push(`### ${category}`, '');
+    for (const p of practices) {
+      parts.push(`- **${p.title}** [${p.severity}]: ${p.description.slice(0, 100)}...`);
+    }
+    parts.push('');
+  }
+
+  return parts.join('\n');
+}
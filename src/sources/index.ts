@@ -1,2 +1,6 @@
 export { MarkdownPracticeSource } from './MarkdownPracticeSource.js';
 export { StructuredPracticeSource } from './StructuredPracticeSource.js';
+export { GitPracticeSource } from './GitPracticeSource.js';
+export { UrlPracticeSource } from './UrlPracticeSource.js';
+export { ImportedPracticeSource } from './ImportedPracticeSource.js';
+export { formatPracticeContent, formatStyleGuideOverview } from './formatting.js';
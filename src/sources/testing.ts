@@ -0,0 +1,29 @@
+import type { Document } from '@xorng/template-knowledge';
+import { PracticeSchema, type Practice } from '../types/index.js';
+import { formatPracticeContent, practiceMetadata } from './formatting.js';
+
+/**
+ * Practice document as a source produces it, for specs. Fields left out get
+ * the schema defaults; `metadata` adds what layering or the provider sets on
+ * top, such as `layer` or `disabled`.
+ */
+export function practiceDoc(
+  fields: Partial<Practice> & Pick<Practice, 'id'>,
+  options: { source?: string; path?: string; metadata?: Document['metadata'] } = {}
+): Document {
+  const { source = 'org', path = 'guide.yaml', metadata } = options;
+  const practice = PracticeSchema.parse({
+    title: fields.id,
+    description: fields.title || fields.id,
+    category: 'general',
+    ...fields,
+  });
+
+  return {
+    id: `${source}:${path}#${practice.id}`,
+    type: 'practice',
+    title: practice.title,
+    content: formatPracticeContent(practice),
+    metadata: { ...practiceMetadata(practice, { source, path }), ...metadata },
+  };
+}
@@ -25,6 +25,26 @@ export type PracticeSeverity =
   | 'suggestion' // Could follow
   | 'info';      // For context only
 
+/**
+ * Severities ordered from least (0) to most severe
+ */
+export const SEVERITY_RANK: Record<PracticeSeverity, number> = {
+  info: 0,
+  suggestion: 1,
+  warning: 2,
+  error: 3,
+};
+
+/**
+ * Lifecycle of a practice; draft and retired practices are hidden unless
+ * requested
+ */
+export type PracticeStatus =
+  | 'draft'      // Proposed, not yet in force
+  | 'active'
+  | 'deprecated' // Still in force, replaced by another practice
+  | 'retired';   // No longer in force
+
 /**
  * Programming language identifiers
  */
@@ -62,13 +82,63 @@ export const PracticeSchema = z.object({
   rationale: z.string().optional(),
   exceptions: z.array(z.string()).optional(),
   relatedPractices: z.array(z.string()).optional(),
+  relatedPatterns: z.array(z.string()).optional(),
+  supersedes: z.array(z.string()).optional(), // Practices this one replaces
+  conflictsWith: z.array(z.string()).optional(), // Practices that cannot both be followed
   lintRules: z.array(z.string()).optional(),
   references: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
+  aliases: z.array(z.string()).optional(), // Former IDs that still resolve to this practice
+  appliesTo: z.array(z.string()).optional(), // Project tooling the practice needs, e.g. github, docker
+  status: z.enum(['draft', 'active', 'deprecated', 'retired']).optional(), // Defaults to active
+  deprecatedIn: z.string().optional(), // Guide version that deprecated the practice
+  replacedBy: z.string().optional(),   // Practice to follow instead
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(), // Enforced from this date
+  // Controls the practice implements, by framework, e.g. { cwe: [CWE-89], owasp-top10: [A03:2021] }
+  mappings: z.record(z.string(), z.array(z.string())).optional(),
 });
 
 export type Practice = z.infer<typeof PracticeSchema>;
 
+/**
+ * Metadata declared inline for a single markdown practice
+ */
+export const PracticeAnnotationSchema = PracticeSchema.pick({
+  id: true,
+  category: true,
+  severity: true,
+  language: true,
+  framework: true,
+  lintRules: true,
+  tags: true,
+  aliases: true,
+  relatedPractices: true,
+  relatedPatterns: true,
+  supersedes: true,
+  conflictsWith: true,
+  appliesTo: true,
+  status: true,
+  deprecatedIn: true,
+  replacedBy: true,
+  effectiveDate: true,
+  mappings: true,
+}).partial().strict();
+
+export type PracticeAnnotation = z.infer<typeof PracticeAnnotationSchema>;
+
+/**
+ * Schema for overriding a practice defined by a higher layer
+ */
+export const PracticeOverrideSchema = z.object({
+  id: z.string(),
+  severity: z.enum(['error', 'warning', 'suggestion', 'info']).optional(),
+  exceptions: z.array(z.string()).optional(),
+  disabled: z.boolean().optional(),
+  reason: z.string().optional(),
+});
+
+export type PracticeOverride = z.infer<typeof PracticeOverrideSchema>;
+
 /**
  * Schema for a style guide document
  */
@@ -79,11 +149,23 @@ export const StyleGuideSchema = z.object({
   framework: z.string().optional(),
   description: z.string().optional(),
   practices: z.array(PracticeSchema),
+  appliesTo: z.array(z.string()).optional(), // Default for practices that do not set it
+  overrides: z.array(PracticeOverrideSchema).optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
 export type StyleGuide = z.infer<typeof StyleGuideSchema>;
 
+/**
+ * Schema for a file that only overrides practices from higher layers
+ */
+export const PracticeOverridesFileSchema = z.object({
+  name: z.string().optional(),
+  overrides: z.array(PracticeOverrideSchema),
+});
+
+export type PracticeOverridesFile = z.infer<typeof PracticeOverridesFileSchema>;
+
 /**
  * Pattern schema for design patterns and architectural patterns
  */
@@ -109,6 +191,28 @@ export const PatternSchema = z.object({
 
 export type Pattern = z.infer<typeof PatternSchema>;
 
+export type PatternCategory = Pattern['category'];
+
+/**
+ * Schema for a catalog of patterns
+ */
+export const PatternCatalogSchema = z.object({
+  name: z.string(),
+  version: z.string().optional(),
+  language: z.string().optional(),
+  description: z.string().optional(),
+  patterns: z.array(PatternSchema),
+});
+
+export type PatternCatalog = z.infer<typeof PatternCatalogSchema>;
+
+/**
+ * External rule catalogs a source can import as practices
+ */
+export const ImporterSchema = z.enum(['eslint-plugin', 'semgrep', 'cheatsheet']);
+
+export type ImporterKind = z.infer<typeof ImporterSchema>;
+
 /**
  * Source configuration for best practices
  */
@@ -119,10 +223,56 @@ export const SourceConfigSchema = z.object({
   format: z.enum(['markdown', 'json', 'yaml']).default('markdown'),
   language: z.string().optional(),
   framework: z.string().optional(),
+  ref: z.string().optional(),      // Branch, tag or commit for git sources
+  cacheDir: z.string().optional(), // Where remote sources are checked out/downloaded
+  layer: z.enum(['org', 'team', 'project']).optional(), // Defaults to 'org'
+  priority: z.number().optional(), // Orders sources within a layer; higher wins
+  watch: z.boolean().optional(),   // Reload local sources when files change
+  watchDebounceMs: z.number().optional(),
+  headingDepth: z.number().int().min(1).max(6).optional(), // Markdown heading level of a practice (default 2)
+  importer: ImporterSchema.optional(), // Read an external rule catalog instead of guides
+  rulePrefix: z.string().optional(),   // ESLint plugin rule prefix, e.g. react (defaults from the package name)
 });
 
 export type SourceConfig = z.infer<typeof SourceConfigSchema>;
 
+/**
+ * Index of style guides served by a `url` source
+ */
+export const GuideIndexSchema = z.object({
+  guides: z.array(z.union([
+    z.string(),
+    z.object({
+      url: z.string(),
+      format: z.enum(['markdown', 'json', 'yaml']).optional(),
+    }),
+  ])),
+});
+
+export type GuideIndex = z.infer<typeof GuideIndexSchema>;
+
+/**
+ * Hybrid search ranking configuration
+ */
+export const RankingConfigSchema = z.object({
+  // Embedding backend for semantic similarity; `none` ranks lexically only
+  embedder: z.enum(['none', 'hashing', 'transformers']).default('hashing'),
+  model: z.string().optional(),      // Model for the `transformers` embedder
+  dimensions: z.number().int().positive().optional(), // Vector size for the `hashing` embedder
+  lexicalWeight: z.number().min(0).default(0.7),
+  semanticWeight: z.number().min(0).default(0.3),
+  severityBoost: z.number().min(0).default(0), // 0.2 ranks an `error` practice 20% higher
+  minScore: z.number().min(0).max(1).default(0.05),
+  fieldWeights: z.object({
+    title: z.number().min(0).optional(),
+    description: z.number().min(0).optional(),
+    tags: z.number().min(0).optional(),
+    lintRules: z.number().min(0).optional(),
+  }).optional(),
+});
+
+export type RankingConfig = z.infer<typeof RankingConfigSchema>;
+
 /**
  * Provider configuration
  */
@@ -133,24 +283,547 @@ export const ProviderConfigSchema = z.object({
   maxResults: z.number().default(10),
   minScore: z.number().default(0.3),
   syncOnStart: z.boolean().default(true),
+  ranking: RankingConfigSchema.partial().optional(),
+  frameworks: z.array(z.string()).optional(), // Control framework catalog files or directories
+  exportRoot: z.string().optional(), // Directory the export-practices tool may write under
 });
 
 export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
 
+const PracticeCategorySchema = PracticeSchema.shape.category;
+const PracticeSeveritySchema = z.enum(['error', 'warning', 'suggestion', 'info']);
+const PracticeStatusSchema = PracticeSchema.shape.status.unwrap();
+
 /**
- * Query for best practices
+ * Query for best practices; list-valued filters match any of their values
  */
 export const PracticeQuerySchema = z.object({
   query: z.string(),
-  category: z.enum([
-    'naming', 'formatting', 'architecture', 'testing', 'security',
-    'performance', 'documentation', 'error-handling', 'logging',
-    'dependency-management', 'general'
-  ]).optional(),
-  language: z.string().optional(),
-  framework: z.string().optional(),
-  severity: z.enum(['error', 'warning', 'suggestion', 'info']).optional(),
+  category: z.union([PracticeCategorySchema, z.array(PracticeCategorySchema)]).optional(),
+  language: z.union([z.string(), z.array(z.string())]).optional(),
+  framework: z.union([z.string(), z.array(z.string())]).optional(),
+  severity: z.union([PracticeSeveritySchema, z.array(PracticeSeveritySchema)]).optional(),
+  minSeverity: PracticeSeveritySchema.optional(), // `warning` matches warning and error
+  maxSeverity: PracticeSeveritySchema.optional(), // `warning` matches warning, suggestion and info
+  tags: z.array(z.string()).optional(),        // Practice must have every tag
+  excludeTags: z.array(z.string()).optional(), // Practice must have none of these tags
+  excludeLanguages: z.array(z.string()).optional(),
+  excludeFrameworks: z.array(z.string()).optional(),
+  lintRules: z.array(z.string()).optional(),        // Globs; practice must list a rule matching one
+  excludeLintRules: z.array(z.string()).optional(), // Globs; practice must list no matching rule
+  phrases: z.array(z.string()).optional(),        // Practice text must contain every phrase
+  excludePhrases: z.array(z.string()).optional(), // Practice text must contain none of these
+  status: z.union([PracticeStatusSchema, z.array(PracticeStatusSchema)]).optional(), // Defaults to active and deprecated
   limit: z.number().optional(),
+  cursor: z.string().optional(), // `nextCursor` of the previous page
 });
 
 export type PracticeQuery = z.infer<typeof PracticeQuerySchema>;
+
+/**
+ * Document counts from syncing one source against its manifest
+ */
+export interface SourceSyncStats {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  parsedFiles: number;
+  reusedFiles: number;
+  removedIds: string[];
+  /** Practice IDs seen by the previous sync that are gone and not listed as an alias */
+  vanishedIds: string[];
+}
+
+/**
+ * Result of syncing all (or one) configured sources
+ */
+export interface SyncReport {
+  sources: Array<{ source: string; error?: string } & Partial<SourceSyncStats>>;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * Practices added, updated or removed after files of a watched source changed
+ */
+export interface PracticeChangeEvent {
+  sequence: number;
+  source: string;
+  files: string[];
+  added: string[];
+  updated: string[];
+  removed: string[];
+  timestamp: string;
+}
+
+/**
+ * Rule set layer; lower layers (project) override higher ones (org)
+ */
+export type PracticeLayer = NonNullable<SourceConfig['layer']>;
+
+/**
+ * One step in how a practice's effective definition was produced
+ */
+export interface PracticeProvenance {
+  source: string;
+  layer: PracticeLayer;
+  documentId: string;
+  action: 'defined' | 'redefined' | 'overridden';
+  changes?: {
+    severity?: { from: PracticeSeverity; to: PracticeSeverity };
+    exceptionsAdded?: string[];
+    disabled?: boolean;
+    reason?: string;
+  };
+}
+
+/**
+ * A practice after merging all layers
+ */
+export interface EffectivePractice {
+  practiceId: string;
+  documentId: string;
+  severity: PracticeSeverity;
+  exceptions: string[];
+  disabled: boolean;
+  disabledReason?: string;
+  /** Severity enforced from `effectiveDate`; until then `severity` is one level lower */
+  pendingSeverity?: PracticeSeverity;
+  provenance: PracticeProvenance[];
+}
+
+/**
+ * Relationship declared between practices or patterns
+ */
+export type PracticeEdgeType = 'related' | 'supersedes' | 'conflicts-with';
+
+/**
+ * Direction-aware relationship as seen from one node; `superseded-by` is the
+ * reverse of `supersedes`
+ */
+export type PracticeRelation = PracticeEdgeType | 'superseded-by';
+
+/**
+ * Practice or pattern in the relationship graph
+ */
+export interface PracticeGraphNode {
+  /** `practice:<practiceId>` or `pattern:<patternId>` */
+  key: string;
+  kind: 'practice' | 'pattern';
+  id: string;
+  documentId: string;
+  title: string;
+  source: string;
+  category?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Edge between two graph nodes; `related` and `conflicts-with` are undirected
+ */
+export interface PracticeGraphEdge {
+  from: string;
+  to: string;
+  type: PracticeEdgeType;
+  /** Document that declared the relationship */
+  declaredBy: string;
+}
+
+/**
+ * Node reached while walking the graph
+ */
+export interface RelatedPractice {
+  node: PracticeGraphNode;
+  distance: number;
+  relation: PracticeRelation;
+  /** Node the walk came from */
+  via: string;
+}
+
+/**
+ * Issue found while validating practice sources
+ */
+export interface ValidationIssue {
+  level: 'error' | 'warning' | 'info';
+  code:
+    | 'source-not-found'
+    | 'parse-error'
+    | 'schema'
+    | 'unknown-format'
+    | 'duplicate-id'
+    | 'dangling-reference'
+    | 'missing-example'
+    | 'lifecycle'
+    | 'inferred-metadata';
+  message: string;
+  source: string;
+  file?: string;
+  line?: number;
+  practiceId?: string;
+}
+
+/**
+ * Result of validating practice sources
+ */
+export interface ValidationReport {
+  valid: boolean;
+  fileCount: number;
+  practiceCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Likely violation of a practice found by the code reviewer
+ */
+export interface ReviewFinding {
+  practiceId: string;
+  documentId: string;
+  title: string;
+  severity: PracticeSeverity;
+  file?: string;
+  lines: Array<{ start: number; end: number }>;
+  confidence: number;
+  reasons: string[];
+  lintRules: string[];
+  goodExample?: string;
+}
+
+/**
+ * ESLint rule level after normalisation
+ */
+export type LintRuleLevel = 'off' | 'warn' | 'error';
+
+/**
+ * A rule resolved from an ESLint configuration
+ */
+export interface ResolvedLintRule {
+  rule: string;
+  level: LintRuleLevel;
+  partial: boolean; // Only enabled for some files (overrides / `files` globs)
+}
+
+/**
+ * Comparison of an ESLint configuration with the loaded practices
+ */
+export interface LintConfigReport {
+  format: 'eslintrc' | 'flat';
+  enabledRules: ResolvedLintRule[];
+  enforced: Array<{
+    practiceId: string;
+    documentId: string;
+    title: string;
+    severity: PracticeSeverity;
+    rules: ResolvedLintRule[];
+  }>;
+  unenforcedErrors: Array<{
+    practiceId: string;
+    documentId: string;
+    title: string;
+    lintRules: string[];
+    reason: 'no-lint-rules' | 'rules-disabled';
+  }>;
+  undocumentedRules: ResolvedLintRule[];
+  unresolvedExtends: string[];
+}
+
+/**
+ * A single lint finding normalised from ESLint JSON or SARIF
+ */
+export interface LintFinding {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: string;
+  file: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+}
+
+/**
+ * Lint findings for one file, explained with the matching practices
+ */
+export interface LintFileExplanation {
+  file: string;
+  findings: Array<LintFinding & {
+    practices: Array<{
+      practiceId: string;
+      documentId: string;
+      title: string;
+      severity: PracticeSeverity;
+      rationale?: string;
+      goodExample?: string;
+    }>;
+  }>;
+}
+
+/**
+ * Lint results grouped by rule and joined against practices
+ */
+export interface LintResultsReport {
+  format: 'eslint' | 'sarif';
+  totalFindings: number;
+  rules: Array<{
+    ruleId: string;
+    count: number;
+    files: string[];
+    practiceIds: string[];
+    documentIds: string[];
+  }>;
+  unmatchedRules: string[];
+  files: LintFileExplanation[];
+}
+
+/**
+ * Practice referenced by an overlap report
+ */
+export interface PracticeSummary {
+  practiceId: string;
+  documentId: string;
+  title: string;
+  source: string;
+  severity: PracticeSeverity;
+}
+
+/**
+ * Near-duplicate practices, conflicting severities and suggested merges
+ */
+export interface PracticeOverlapReport {
+  totalPractices: number;
+  duplicates: Array<{
+    practices: [PracticeSummary, PracticeSummary];
+    similarity: number;
+    reasons: string[];
+    sharedLintRules: string[];
+    sharedTags: string[];
+    severityConflict: boolean;
+  }>;
+  severityConflicts: Array<{
+    kind: 'lint-rule' | 'duplicate';
+    /** Lint rule, or the titles of the duplicate practices */
+    topic: string;
+    practices: PracticeSummary[];
+  }>;
+  suggestedMerges: Array<{
+    keep: PracticeSummary;
+    merge: PracticeSummary[];
+    severity: PracticeSeverity;
+    lintRules: string[];
+    tags: string[];
+    /** IDs to list in the kept practice's `aliases` */
+    aliases: string[];
+  }>;
+}
+
+/**
+ * How a search result's score was computed
+ */
+export interface RankingExplanation {
+  score: number;
+  /** BM25 score normalised to the best lexical match (0-1) */
+  lexical: number;
+  /** Cosine similarity of query and practice embeddings (0-1) */
+  semantic: number;
+  /** Multiplier applied for the practice's severity */
+  severityBoost: number;
+  /** Query terms found in each field */
+  matchedTerms: Partial<Record<'title' | 'description' | 'tags' | 'lintRules', string[]>>;
+  embedder: string;
+}
+
+/**
+ * One page of practice search results
+ */
+export interface PracticeSearchPage {
+  /** Number of practices matching the query and filters, across all pages */
+  totalCount: number;
+  /** Pass as `cursor` to fetch the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Problem found while parsing a practice query expression
+ */
+export interface QuerySyntaxError {
+  code: 'unknown-field' | 'invalid-value' | 'empty-value' | 'unterminated-quote' | 'invalid-operator';
+  message: string;
+  /** Zero-based offset of the problem in the expression */
+  position: number;
+  length: number;
+}
+
+/**
+ * Languages, frameworks and tooling detected from a project's manifests
+ */
+export interface ProjectContext {
+  root: string;
+  languages: string[];
+  frameworks: string[];
+  /** Tooling markers matched against practices' `appliesTo`, e.g. github-actions, docker */
+  tooling: string[];
+  /** What each manifest contributed */
+  evidence: Array<{ file: string; detected: string[] }>;
+}
+
+/**
+ * Practice selected for a project, with why it applies
+ */
+export interface ApplicablePractice {
+  practiceId: string;
+  documentId: string;
+  title: string;
+  category: PracticeCategory;
+  severity: PracticeSeverity;
+  reasons: string[];
+}
+
+/**
+ * Output formats of a generated checklist
+ */
+export type ChecklistFormat = 'markdown' | 'json' | 'github';
+
+/**
+ * One checkable practice
+ */
+export interface ChecklistItem {
+  practiceId: string;
+  documentId: string;
+  title: string;
+  severity: PracticeSeverity;
+  /** First sentence of the practice description */
+  summary?: string;
+  lintRules: string[];
+}
+
+/**
+ * Checklist items of one category, most severe first
+ */
+export interface ChecklistSection {
+  category: PracticeCategory;
+  items: ChecklistItem[];
+}
+
+/**
+ * Checklist built from practices
+ */
+export interface Checklist {
+  title: string;
+  sections: ChecklistSection[];
+  itemCount: number;
+  /** Detected project context when built for a project */
+  context?: ProjectContext;
+}
+
+/**
+ * Formats the practice corpus can be exported to
+ */
+export type ExportFormat = 'html' | 'markdown' | 'json' | 'yaml' | 'csv';
+
+/**
+ * File produced by an export, relative to the output directory
+ */
+export interface ExportedFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Metadata the markdown parser inferred for one practice, with the values
+ * it chose
+ */
+export interface InferredFieldReport {
+  practiceId: string;
+  title: string;
+  /** 1-based line of the practice heading */
+  line: number;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Guide converted between markdown and structured YAML
+ */
+export interface GuideConversion {
+  format: 'yaml' | 'markdown';
+  content: string;
+  practiceCount: number;
+  inferred: InferredFieldReport[];
+  /** Content that could not be carried over, or metadata problems found while parsing */
+  warnings: Array<{ practiceId?: string; line?: number; message: string }>;
+}
+
+/**
+ * Where an imported practice came from
+ */
+export interface PracticeAttribution {
+  importer: ImporterKind;
+  /** Rule ID or section title in the original catalog */
+  origin: string;
+  /** Page documenting the original rule, when known */
+  url?: string;
+}
+
+/**
+ * Practices an importer built from part of an external rule catalog
+ */
+export interface ImportedGuide {
+  /** File the practices were read from, relative to the source root */
+  path: string;
+  guide: StyleGuide;
+  /** Attribution of each practice, by practice ID */
+  attribution: Record<string, PracticeAttribution>;
+}
+
+/**
+ * A control of a compliance or security framework
+ */
+export const ControlSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+});
+
+/**
+ * Catalog of a framework's controls, loaded from a local YAML/JSON file.
+ * Practices refer to controls through `mappings[framework.id]`.
+ */
+export const ControlFrameworkSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  version: z.string().optional(),
+  description: z.string().optional(),
+  url: z.string().optional(),
+  controls: z.array(ControlSchema),
+});
+
+export type Control = z.infer<typeof ControlSchema>;
+export type ControlFramework = z.infer<typeof ControlFrameworkSchema>;
+
+/**
+ * Practices mapped to one control of a framework
+ */
+export interface ControlCoverage {
+  id: string;
+  title: string;
+  practiceIds: string[];
+}
+
+/**
+ * Which controls of a framework have practices mapped to them
+ */
+export interface CoverageReport {
+  framework: string;
+  name: string;
+  version?: string;
+  controlCount: number;
+  coveredCount: number;
+  /** Share of controls with at least one practice, 0-1 */
+  coverage: number;
+  controls: ControlCoverage[];
+  uncovered: Control[];
+  /** Control IDs practices map to that the catalog does not define */
+  unknownControls: Array<{ control: string; practiceIds: string[] }>;
+}
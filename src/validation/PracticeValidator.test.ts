@@ -0,0 +1,329 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SourceConfig, ValidationIssue } from '../types/index.js';
+import { PracticeValidator, type ValidationTarget } from './PracticeValidator.js';
+
+const GUIDE = `name: Lifecycle
+version: "2.0"
+language: typescript
+practices:
+  - id: strict-null
+    title: Enable strict null checks
+    description: Turn on strictNullChecks.
+    category: general
+  - id: null-checks
+    title: Check for null
+    description: Compare against null before use.
+    category: general
+    status: deprecated
+    deprecatedIn: "2.0"
+    replacedBy: strict-null
+  - id: any-casts
+    title: Avoid any casts
+    description: Casts to any hide type errors.
+    category: general
+    status: deprecated
+  - id: explicit-types
+    title: Annotate everything
+    description: Annotate every variable.
+    category: general
+    replacedBy: strict-null
+  - id: old-format
+    title: Old format
+    description: Retired.
+    category: formatting
+    status: retired
+    replacedBy: missing-practice
+`;
+
+describe('PracticeValidator', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'practice-validator-'));
+    await fs.writeFile(path.join(root, 'guide.yaml'), GUIDE, 'utf-8');
+  });
+
+  /**
+   * Write each source's files under its own directory and validate them
+   */
+  const validate = async (
+    sources: Array<{ name: string; format: SourceConfig['format']; layer?: SourceConfig['layer']; files: Record<string, string> }>
+  ) => {
+    const targets: ValidationTarget[] = [];
+    for (const { name, format, layer, files } of sources) {
+      const dir = path.join(root, name);
+      await fs.rm(dir, { recursive: true, force: true });
+      await fs.mkdir(dir, { recursive: true });
+      for (const [file, content] of Object.entries(files)) {
+        await fs.writeFile(path.join(dir, file), content, 'utf-8');
+      }
+      targets.push({ config: { name, type: 'local', path: dir, format, layer }, rootDir: dir, formats: [format] });
+    }
+    return new PracticeValidator().validate(targets);
+  };
+
+  const summarize = (issues: ValidationIssue[], code: string) => issues
+    .filter(issue => issue.code === code)
+    .map(issue => ({ level: issue.level, file: issue.file, line: issue.line, practiceId: issue.practiceId, message: issue.message }));
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('checks lifecycle fields and replacedBy references', async () => {
+    const report = await new PracticeValidator().validate([{
+      config: { name: 'org', type: 'local', path: root, format: 'yaml' },
+      rootDir: root,
+      formats: ['yaml'],
+    }]);
+
+    const issues = report.issues
+      .filter(issue => issue.code === 'lifecycle' || issue.code === 'dangling-reference')
+      .map(issue => [issue.practiceId, issue.code, issue.line]);
+    expect(issues).toEqual([
+      ['old-format', 'dangling-reference', 26],
+      ['any-casts', 'lifecycle', 16],
+      ['explicit-types', 'lifecycle', 21],
+    ]);
+    expect(report.issues.filter(issue => issue.level === 'error')).toHaveLength(1);
+    expect(report.issues.find(issue => issue.practiceId === 'explicit-types')?.message)
+      .toBe("active practice has replacedBy 'strict-null'; set status to deprecated or retired");
+  });
+
+  it('reports schema errors at the line of the offending value', async () => {
+    const report = await validate([{
+      name: 'schema',
+      format: 'yaml',
+      files: {
+        'guide.yaml': [
+          'name: Schema',
+          'language: typescript',
+          'practices:',
+          '  - id: one',
+          '    title: One',
+          '    description: First.',
+          '    category: general',
+          '    severity: high',
+          '  - id: two',
+          '    title: Two',
+          '    description: Second.',
+        ].join('\n'),
+        'broken.yaml': 'name: Broken\npractices:\n  - id: [unclosed\n',
+      },
+    }, {
+      name: 'json',
+      format: 'json',
+      files: {
+        'guide.json': JSON.stringify({
+          name: 'Json',
+          language: 'typescript',
+          practices: [{ id: 'three', title: 'Three', description: 'Third.', category: 'general', tags: 'x' }],
+        }, null, 2),
+      },
+    }]);
+
+    expect(report.valid).toBe(false);
+    expect(summarize(report.issues, 'schema').map(({ file, line, message }) => [file, line, message.split(':')[0]]))
+      .toEqual([
+        ['guide.yaml', 8, 'practices.0.severity'],
+        ['guide.yaml', 9, 'practices.1.category'],
+        ['guide.json', 10, 'practices.0.tags'],
+      ]);
+    expect(summarize(report.issues, 'parse-error')).toMatchObject([{ level: 'error', file: 'broken.yaml', line: 4 }]);
+  });
+
+  it('reports markdown metadata errors at the metadata block', async () => {
+    const report = await validate([{
+      name: 'docs',
+      format: 'markdown',
+      files: {
+        'guide.md': [
+          '# Guide',
+          '',
+          '## Pin versions',
+          '<!-- practice: { id: pin-versions, category: security, severity: critical } -->',
+          '',
+          'Pin dependency versions.',
+        ].join('\n'),
+      },
+    }]);
+
+    expect(summarize(report.issues, 'schema')).toMatchObject([
+      { level: 'error', file: 'guide.md', line: 4, practiceId: 'pin-versions' },
+    ]);
+  });
+
+  it('reports duplicate IDs within a source as errors and across sources of a layer as warnings', async () => {
+    const practice = (id: string) => [
+      `  - id: ${id}`,
+      `    title: ${id}`,
+      '    description: Do it.',
+      '    category: general',
+    ].join('\n');
+    const guide = (...ids: string[]) => ['name: Guide', 'language: general', 'practices:', ...ids.map(practice)].join('\n');
+
+    const report = await validate([
+      { name: 'org', format: 'yaml', files: { 'a.yaml': guide('naming', 'imports'), 'b.yaml': guide('exports', 'naming') } },
+      { name: 'platform', format: 'yaml', files: { 'guide.yaml': guide('imports') } },
+      { name: 'project', format: 'yaml', layer: 'project', files: { 'guide.yaml': guide('exports') } },
+    ]);
+
+    expect(summarize(report.issues, 'duplicate-id')).toEqual([
+      {
+        level: 'error',
+        file: 'b.yaml',
+        line: 8,
+        practiceId: 'naming',
+        message: "Practice ID 'naming' is already defined in org:a.yaml:4",
+      },
+      {
+        level: 'warning',
+        file: 'guide.yaml',
+        line: 4,
+        practiceId: 'imports',
+        message: "Practice ID 'imports' is already defined in org:a.yaml:8",
+      },
+    ]);
+  });
+
+  it('reports references to unknown practices and patterns', async () => {
+    const report = await validate([{
+      name: 'refs',
+      format: 'yaml',
+      files: {
+        'guide.yaml': [
+          'name: Refs',
+          'language: general',
+          'practices:',
+          '  - id: naming',
+          '    title: Naming',
+          '    description: Name things.',
+          '    category: naming',
+          '    aliases: [old-naming]',
+          '  - id: imports',
+          '    title: Imports',
+          '    description: Sort imports.',
+          '    category: formatting',
+          '    relatedPractices: [old-naming, refs:guide.yaml#naming, repository, missing-practice]',
+          '    supersedes: [gone]',
+          '    conflictsWith: [naming]',
+          '    relatedPatterns: [repository, singleton]',
+        ].join('\n'),
+        'patterns.yaml': [
+          'name: Patterns',
+          'patterns:',
+          '  - id: repository',
+          '    name: Repository',
+          '    category: architectural',
+          '    description: Wrap data access.',
+          '    problem: Storage leaks into domain code.',
+          '    solution: Hide it behind a collection-like interface.',
+          '    applicability: [Data access]',
+          '    consequences: { benefits: [Testability], drawbacks: [Indirection] }',
+          '    relatedPatterns: [unit-of-work]',
+        ].join('\n'),
+        'overrides.yaml': 'overrides:\n  - id: naming\n    severity: error\n  - id: unknown\n    disabled: true\n',
+      },
+    }]);
+
+    expect(summarize(report.issues, 'dangling-reference').map(({ level, file, line, practiceId, message }) =>
+      [level, file, line, practiceId, message])).toEqual([
+      ['error', 'guide.yaml', 9, 'imports', "relatedPractices references unknown practice 'missing-practice'"],
+      ['error', 'guide.yaml', 9, 'imports', "supersedes references unknown practice 'gone'"],
+      ['error', 'guide.yaml', 9, 'imports', "relatedPatterns references unknown pattern 'singleton'"],
+      ['error', 'patterns.yaml', 3, 'repository', "relatedPatterns references unknown pattern 'unit-of-work'"],
+      ['warning', 'overrides.yaml', 4, 'unknown', "Override targets unknown practice 'unknown'"],
+    ]);
+  });
+
+  it('warns about error practices without good and bad examples', async () => {
+    const report = await validate([{
+      name: 'examples',
+      format: 'yaml',
+      files: {
+        'guide.yaml': [
+          'name: Examples',
+          'language: general',
+          'practices:',
+          '  - id: complete',
+          '    title: Complete',
+          '    description: Both examples.',
+          '    category: security',
+          '    severity: error',
+          '    goodExample: safe()',
+          '    badExample: unsafe()',
+          '  - id: no-bad',
+          '    title: No bad example',
+          '    description: Only a good one.',
+          '    category: security',
+          '    severity: error',
+          '    goodExample: safe()',
+          '  - id: none',
+          '    title: No examples',
+          '    description: Neither.',
+          '    category: security',
+          '    severity: error',
+          '  - id: warning-only',
+          '    title: Warning',
+          '    description: Examples optional.',
+          '    category: security',
+          '    severity: warning',
+        ].join('\n'),
+      },
+    }]);
+
+    expect(summarize(report.issues, 'missing-example')).toEqual([
+      {
+        level: 'warning',
+        file: 'guide.yaml',
+        line: 11,
+        practiceId: 'no-bad',
+        message: 'error-severity practice is missing badExample',
+      },
+      {
+        level: 'warning',
+        file: 'guide.yaml',
+        line: 17,
+        practiceId: 'none',
+        message: 'error-severity practice is missing goodExample and badExample',
+      },
+    ]);
+    expect(report.valid).toBe(true);
+  });
+
+  it('reports markdown metadata that was inferred rather than declared', async () => {
+    const report = await validate([{
+      name: 'docs',
+      format: 'markdown',
+      files: {
+        'guide.md': [
+          '# Guide',
+          '',
+          '## Never log passwords',
+          '',
+          'Logging credentials is a security risk and must never happen.',
+          '',
+          '## Sort imports',
+          '<!-- practice: { id: sort-imports, category: formatting, severity: suggestion } -->',
+          '',
+          'Keep imports sorted.',
+        ].join('\n'),
+      },
+    }]);
+
+    const inferred = summarize(report.issues, 'inferred-metadata');
+    expect(inferred.map(({ level, line, practiceId, message }) => [level, line, practiceId, message.split(' ')[0]])).toEqual([
+      ['info', 3, 'never-log-passwords', 'category'],
+      ['info', 3, 'never-log-passwords', 'severity'],
+      ['info', 3, 'never-log-passwords', 'id'],
+    ]);
+    expect(inferred[0].message).toBe(
+      "category 'security' was inferred from the content, declare it in a practice metadata block"
+    );
+    expect(inferred[1].message).toMatch(/^severity 'error' was inferred/);
+    expect(report).toMatchObject({ valid: true, fileCount: 1, practiceCount: 2, errorCount: 0 });
+  });
+});
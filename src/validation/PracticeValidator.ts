@@ -0,0 +1,558 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { glob } from 'glob';
+import * as yaml from 'js-yaml';
+import type { ZodIssue } from 'zod';
+import {
+  PracticeSchema,
+  StyleGuideSchema,
+  PatternSchema,
+  PatternCatalogSchema,
+  PracticeOverrideSchema,
+  type Practice,
+  type PracticeLayer,
+  type Pattern,
+  type SourceConfig,
+  type ValidationIssue,
+  type ValidationReport,
+} from '../types/index.js';
+import { MarkdownPracticeSource } from '../sources/MarkdownPracticeSource.js';
+import { isPatternLike } from '../sources/StructuredPracticeSource.js';
+import { LineLocator, lineAt } from './lineLocator.js';
+
+type GuideFormat = SourceConfig['format'];
+
+/**
+ * A directory of practice files to validate
+ */
+export interface ValidationTarget {
+  config: SourceConfig;
+  rootDir: string;
+  formats: GuideFormat[];
+}
+
+/**
+ * Practice found while walking the sources, kept for cross-file checks
+ */
+interface PracticeLocation {
+  practice: Practice;
+  source: string;
+  file: string;
+  line: number;
+}
+
+interface OverrideLocation {
+  practiceId: string;
+  source: string;
+  file: string;
+  line: number;
+}
+
+interface PatternLocation {
+  pattern: Pattern;
+  source: string;
+  file: string;
+  line: number;
+}
+
+const FORMAT_PATTERNS: Record<GuideFormat, string[]> = {
+  markdown: ['**/*.md'],
+  yaml: ['**/*.yaml', '**/*.yml'],
+  json: ['**/*.json'],
+};
+
+/**
+ * Validates practice sources for style guide authors.
+ *
+ * Reports schema errors with line numbers, duplicate practice IDs, dangling
+ * references between practices and patterns, `error` practices without examples and
+ * markdown practices whose category or severity was inferred.
+ */
+export class PracticeValidator {
+  private issues: ValidationIssue[] = [];
+  private practices: PracticeLocation[] = [];
+  private patterns: PatternLocation[] = [];
+  private overrides: OverrideLocation[] = [];
+  private layers: Map<string, PracticeLayer> = new Map();
+  private fileCount = 0;
+
+  async validate(targets: ValidationTarget[]): Promise<ValidationReport> {
+    this.issues = [];
+    this.practices = [];
+    this.patterns = [];
+    this.overrides = [];
+    this.layers = new Map(targets.map(t => [t.config.name, t.config.layer || 'org']));
+    this.fileCount = 0;
+
+    for (const target of targets) {
+      await this.validateTarget(target);
+    }
+
+    this.checkDuplicateIds();
+    this.checkRelatedPractices();
+    this.checkRelatedPatterns();
+    this.checkOverrides();
+    this.checkExamples();
+    this.checkLifecycle();
+
+    const errorCount = this.issues.filter(i => i.level === 'error').length;
+    const warningCount = this.issues.filter(i => i.level === 'warning').length;
+
+    return {
+      valid: errorCount === 0,
+      fileCount: this.fileCount,
+      practiceCount: this.practices.length,
+      errorCount,
+      warningCount,
+      issues: this.issues,
+    };
+  }
+
+  /**
+   * Validate every file of a source
+   */
+  private async validateTarget(target: ValidationTarget): Promise<void> {
+    const source = target.config.name;
+
+    try {
+      await fs.access(target.rootDir);
+    } catch {
+      this.issues.push({
+        level: 'error',
+        code: 'source-not-found',
+        message: `Source path not found: ${target.rootDir}`,
+        source,
+      });
+      return;
+    }
+
+    for (const format of target.formats) {
+      for (const pattern of FORMAT_PATTERNS[format]) {
+        const files = await glob(pattern, {
+          cwd: target.rootDir,
+          absolute: true,
+          ignore: ['**/node_modules/**', '**/dist/**'],
+        });
+
+        for (const file of files.sort()) {
+          this.fileCount++;
+          const content = await fs.readFile(file, 'utf-8');
+          const relativePath = path.relative(target.rootDir, file);
+
+          if (format === 'markdown') {
+            this.validateMarkdown(content, relativePath, target.config);
+          } else {
+            this.validateStructured(content, relativePath, format, source);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Collect markdown practices and report inferred metadata
+   */
+  private validateMarkdown(content: string, file: string, config: SourceConfig): void {
+    const parser = new MarkdownPracticeSource({ ...config, type: 'local', format: 'markdown' });
+    const { practices } = parser.parse(content);
+
+    for (const { practice, inferred, lines, issues } of practices) {
+      const line = lines.start;
+
+      this.practices.push({ practice, source: config.name, file, line });
+
+      for (const issue of issues) {
+        this.issues.push({
+          level: 'error',
+          code: 'schema',
+          message: issue.message,
+          source: config.name,
+          file,
+          line: issue.line,
+          practiceId: practice.id,
+        });
+      }
+
+      for (const field of inferred) {
+        this.issues.push({
+          level: 'info',
+          code: 'inferred-metadata',
+          message: `${field} '${[practice[field] ?? ''].flat().join(', ')}' was inferred from the content, declare it in a practice metadata block`,
+          source: config.name,
+          file,
+          line,
+          practiceId: practice.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Parse a JSON/YAML file and check it against the practice schemas
+   */
+  private validateStructured(
+    content: string,
+    file: string,
+    format: GuideFormat,
+    source: string
+  ): void {
+    let data: unknown;
+    let locator: LineLocator;
+
+    try {
+      if (format === 'yaml') {
+        data = yaml.load(content);
+        locator = LineLocator.forYaml(content);
+      } else {
+        data = JSON.parse(content);
+        locator = LineLocator.forJson(content);
+      }
+    } catch (error) {
+      this.issues.push({
+        level: 'error',
+        code: 'parse-error',
+        message: error instanceof Error ? error.message.split('\n')[0] : String(error),
+        source,
+        file,
+        line: this.parseErrorLine(error, content),
+      });
+      return;
+    }
+
+    const report = (issues: ZodIssue[], basePath: Array<string | number>): void => {
+      for (const issue of issues) {
+        const issuePath = [...basePath, ...issue.path];
+        this.issues.push({
+          level: 'error',
+          code: 'schema',
+          message: `${issuePath.join('.') || '(root)'}: ${issue.message}`,
+          source,
+          file,
+          line: locator.locate(issuePath),
+        });
+      }
+    };
+
+    const collectOne = (item: unknown, itemPath: Array<string | number>, line: number): void => {
+      if (isPatternLike(item)) {
+        const result = PatternSchema.safeParse(item);
+        if (result.success) {
+          this.patterns.push({ pattern: result.data, source, file, line });
+        } else {
+          report(result.error.issues, itemPath);
+        }
+        return;
+      }
+
+      const result = PracticeSchema.safeParse(item);
+      if (result.success) {
+        this.practices.push({ practice: result.data, source, file, line });
+      } else {
+        report(result.error.issues, itemPath);
+      }
+    };
+
+    const collect = (items: unknown[], basePath: Array<string | number>): void => {
+      items.forEach((item, index) => {
+        const itemPath = [...basePath, index];
+        collectOne(item, itemPath, locator.locate(itemPath));
+      });
+    };
+
+    // Overrides are validated by the style guide schema; only their targets are collected
+    const collectOverrides = (overrides: unknown): void => {
+      if (!Array.isArray(overrides)) {
+        this.issues.push({
+          level: 'error',
+          code: 'schema',
+          message: 'overrides: Expected an array of overrides',
+          source,
+          file,
+          line: locator.locate(['overrides']),
+        });
+        return;
+      }
+      overrides.forEach((item, index) => {
+        const itemPath = ['overrides', index];
+        const result = PracticeOverrideSchema.safeParse(item);
+        if (result.success) {
+          this.overrides.push({ practiceId: result.data.id, source, file, line: locator.locate(itemPath) });
+        } else {
+          report(result.error.issues, itemPath);
+        }
+      });
+    };
+
+    if (Array.isArray(data)) {
+      collect(data, []);
+      return;
+    }
+
+    if (data && typeof data === 'object' && 'practices' in data) {
+      const guide = data as { practices: unknown; overrides?: unknown };
+      const result = StyleGuideSchema.omit({ practices: true, overrides: true }).safeParse(data);
+      if (!result.success) {
+        report(result.error.issues, []);
+      }
+      if (guide.overrides !== undefined) {
+        collectOverrides(guide.overrides);
+      }
+      if (Array.isArray(guide.practices)) {
+        collect(guide.practices, ['practices']);
+      } else {
+        this.issues.push({
+          level: 'error',
+          code: 'schema',
+          message: 'practices: Expected an array of practices',
+          source,
+          file,
+          line: locator.locate(['practices']),
+        });
+      }
+      return;
+    }
+
+    if (data && typeof data === 'object' && 'overrides' in data) {
+      collectOverrides((data as { overrides: unknown }).overrides);
+      return;
+    }
+
+    if (data && typeof data === 'object' && 'patterns' in data) {
+      const catalog = data as { patterns: unknown };
+      const result = PatternCatalogSchema.omit({ patterns: true }).safeParse(data);
+      if (!result.success) {
+        report(result.error.issues, []);
+      }
+      if (Array.isArray(catalog.patterns)) {
+        collect(catalog.patterns, ['patterns']);
+      } else {
+        this.issues.push({
+          level: 'error',
+          code: 'schema',
+          message: 'patterns: Expected an array of patterns',
+          source,
+          file,
+          line: locator.locate(['patterns']),
+        });
+      }
+      return;
+    }
+
+    if (data && typeof data === 'object' && 'id' in data) {
+      collectOne(data, [], 1);
+      return;
+    }
+
+    this.issues.push({
+      level: 'error',
+      code: 'unknown-format',
+      message: 'File is not a style guide, pattern catalog, overrides file, list of practices/patterns or single practice/pattern',
+      source,
+      file,
+      line: 1,
+    });
+  }
+
+  /**
+   * Practice IDs must be unique within a source; clashes across sources of
+   * the same layer are reported as warnings. Lower layers may redefine
+   * practices of higher ones.
+   */
+  private checkDuplicateIds(): void {
+    const byId = new Map<string, PracticeLocation[]>();
+    for (const location of this.practices) {
+      const list = byId.get(location.practice.id) || [];
+      list.push(location);
+      byId.set(location.practice.id, list);
+    }
+
+    for (const [id, locations] of byId) {
+      if (locations.length < 2) continue;
+
+      const [first, ...rest] = locations;
+      for (const duplicate of rest) {
+        const sameSource = duplicate.source === first.source;
+        if (this.layers.get(duplicate.source) !== this.layers.get(first.source)) continue;
+        this.issues.push({
+          level: sameSource ? 'error' : 'warning',
+          code: 'duplicate-id',
+          message: `Practice ID '${id}' is already defined in ${first.source}:${first.file}:${first.line}`,
+          source: duplicate.source,
+          file: duplicate.file,
+          line: duplicate.line,
+          practiceId: id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Every `relatedPractices`, `supersedes`, `conflictsWith` and `replacedBy`
+   * entry must name a known practice, and every `relatedPatterns` entry a
+   * known pattern
+   */
+  private checkRelatedPractices(): void {
+    const known = new Set<string>();
+    for (const { practice, source, file } of this.practices) {
+      known.add(practice.id);
+      known.add(`${source}:${file}#${practice.id}`);
+      for (const alias of practice.aliases || []) known.add(alias);
+    }
+    const knownPatterns = new Set<string>();
+    for (const { pattern, source, file } of this.patterns) {
+      knownPatterns.add(pattern.id);
+      knownPatterns.add(`${source}:${file}#${pattern.id}`);
+    }
+
+    for (const location of this.practices) {
+      const { practice } = location;
+      const references: Array<[string, string[] | undefined, (ref: string) => boolean]> = [
+        // relatedPractices may also point at a pattern
+        ['relatedPractices', practice.relatedPractices, ref => known.has(ref) || knownPatterns.has(ref)],
+        ['supersedes', practice.supersedes, ref => known.has(ref)],
+        ['conflictsWith', practice.conflictsWith, ref => known.has(ref)],
+        ['relatedPatterns', practice.relatedPatterns, ref => knownPatterns.has(ref)],
+        ['replacedBy', practice.replacedBy ? [practice.replacedBy] : undefined, ref => known.has(ref)],
+      ];
+
+      for (const [field, refs, isKnown] of references) {
+        for (const related of refs || []) {
+          if (isKnown(related)) continue;
+          this.issues.push({
+            level: 'error',
+            code: 'dangling-reference',
+            message: `${field} references unknown ${field === 'relatedPatterns' ? 'pattern' : 'practice'} '${related}'`,
+            source: location.source,
+            file: location.file,
+            line: location.line,
+            practiceId: practice.id,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Every `relatedPatterns` entry must name a known pattern
+   */
+  private checkRelatedPatterns(): void {
+    const known = new Set<string>();
+    for (const { pattern, source, file } of this.patterns) {
+      known.add(pattern.id);
+      known.add(`${source}:${file}#${pattern.id}`);
+    }
+
+    for (const location of this.patterns) {
+      for (const related of location.pattern.relatedPatterns || []) {
+        if (known.has(related)) continue;
+        this.issues.push({
+          level: 'error',
+          code: 'dangling-reference',
+          message: `relatedPatterns references unknown pattern '${related}'`,
+          source: location.source,
+          file: location.file,
+          line: location.line,
+          practiceId: location.pattern.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Overrides should target a practice defined by some source
+   */
+  private checkOverrides(): void {
+    const known = new Set(this.practices.map(p => p.practice.id));
+
+    for (const location of this.overrides) {
+      if (known.has(location.practiceId)) continue;
+      this.issues.push({
+        level: 'warning',
+        code: 'dangling-reference',
+        message: `Override targets unknown practice '${location.practiceId}'`,
+        source: location.source,
+        file: location.file,
+        line: location.line,
+        practiceId: location.practiceId,
+      });
+    }
+  }
+
+  /**
+   * `error` practices should show both what to do and what to avoid
+   */
+  private checkExamples(): void {
+    for (const location of this.practices) {
+      const { practice } = location;
+      if (practice.severity !== 'error') continue;
+
+      const missing = [
+        !practice.goodExample && 'goodExample',
+        !practice.badExample && 'badExample',
+      ].filter(Boolean);
+
+      if (missing.length > 0) {
+        this.issues.push({
+          level: 'warning',
+          code: 'missing-example',
+          message: `error-severity practice is missing ${missing.join(' and ')}`,
+          source: location.source,
+          file: location.file,
+          line: location.line,
+          practiceId: practice.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Deprecated practices should name their replacement, and only deprecated
+   * or retired practices have one
+   */
+  private checkLifecycle(): void {
+    for (const location of this.practices) {
+      const { practice } = location;
+      const status = practice.status || 'active';
+      let message: string | undefined;
+
+      if (status === 'deprecated' && !practice.replacedBy) {
+        message = 'deprecated practice does not name a replacedBy practice';
+      } else if (practice.replacedBy && status !== 'deprecated' && status !== 'retired') {
+        message = `${status} practice has replacedBy '${practice.replacedBy}'; set status to deprecated or retired`;
+      } else if (practice.deprecatedIn && status !== 'deprecated' && status !== 'retired') {
+        message = `${status} practice has deprecatedIn '${practice.deprecatedIn}'`;
+      }
+
+      if (message) {
+        this.issues.push({
+          level: 'warning',
+          code: 'lifecycle',
+          message,
+          source: location.source,
+          file: location.file,
+          line: location.line,
+          practiceId: practice.id,
+        });
+      }
+    }
+  }
+
+  private parseErrorLine(error: unknown, content: string): number {
+    if (error instanceof yaml.YAMLException) {
+      return error.mark.line + 1;
+    }
+
+    const match = error instanceof Error ? error.message.match(/position (\d+)/) : null;
+    return match ? lineAt(content, Number(match[1])) : 1;
+  }
+}
+
+/**
+ * File formats to validate for a source
+ */
+export function formatsForSource(config: SourceConfig): GuideFormat[] {
+  // Imported catalogs are not guides; the importer checks what it converts
+  if (config.importer && config.type !== 'url') return [];
+  // URL sources may download a mix of formats
+  return config.type === 'url' ? ['markdown', 'yaml', 'json'] : [config.format];
+}
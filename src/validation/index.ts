@@ -0,0 +1,2 @@
+export { PracticeValidator, formatsForSource, type ValidationTarget } from './PracticeValidator.js';
+export { LineLocator } from './lineLocator.js';
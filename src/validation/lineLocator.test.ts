@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { LineLocator, lineAt } from './lineLocator.js';
+
+describe('LineLocator', () => {
+  it('locates keys and sequence items in block YAML', () => {
+    const locator = LineLocator.forYaml([
+      '# Guide',
+      'name: Guide',
+      'practices:',
+      '  - id: one',
+      '    description: |',
+      '      tags: not a key',
+      '    tags:',
+      '      - a',
+      '      - b',
+      '  -',
+      '    id: two',
+      '    severity: high',
+    ].join('\n'));
+
+    expect(locator.locate(['name'])).toBe(2);
+    expect(locator.locate(['practices'])).toBe(3);
+    expect(locator.locate(['practices', 0])).toBe(4);
+    expect(locator.locate(['practices', 0, 'id'])).toBe(4);
+    expect(locator.locate(['practices', 0, 'tags'])).toBe(7);
+    expect(locator.locate(['practices', 0, 'tags', 1])).toBe(9);
+    expect(locator.locate(['practices', 1])).toBe(10);
+    expect(locator.locate(['practices', 1, 'severity'])).toBe(12);
+  });
+
+  it('falls back to the closest located ancestor', () => {
+    const locator = LineLocator.forYaml('practices:\n  - id: one\n    title: One\n');
+
+    expect(locator.locate(['practices', 0, 'category'])).toBe(2);
+    expect(locator.locate(['practices', 3, 'id'])).toBe(1);
+    expect(locator.locate(['missing'])).toBe(1);
+    expect(locator.locate([])).toBe(1);
+  });
+
+  it('locates keys and array items in JSON', () => {
+    const locator = LineLocator.forJson(JSON.stringify({
+      name: 'Guide',
+      practices: [
+        { id: 'one', tags: ['a', 'b'] },
+        { id: 'two', 'odd "key"': true },
+      ],
+    }, null, 2));
+
+    expect(locator.locate(['name'])).toBe(2);
+    expect(locator.locate(['practices'])).toBe(3);
+    expect(locator.locate(['practices', 0])).toBe(4);
+    expect(locator.locate(['practices', 0, 'tags', 1])).toBe(8);
+    expect(locator.locate(['practices', 1, 'id'])).toBe(12);
+    expect(locator.locate(['practices', 1, 'odd "key"'])).toBe(13);
+  });
+});
+
+describe('lineAt', () => {
+  it('counts the lines before an offset', () => {
+    expect(lineAt('a\nb\nc', 0)).toBe(1);
+    expect(lineAt('a\nb\nc', 2)).toBe(2);
+    expect(lineAt('a\nb\nc', 100)).toBe(3);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Maps object paths (as reported by zod) to 1-based line numbers in the
+ * original YAML or JSON text. Only block-style YAML and ordinary JSON are
+ * understood; anything else falls back to the nearest located ancestor.
+ */
+export type ValuePath = Array<string | number>;
+
+export class LineLocator {
+  private lines: Map<string, number>;
+
+  private constructor(lines: Map<string, number>) {
+    this.lines = lines;
+  }
+
+  static forYaml(content: string): LineLocator {
+    return new LineLocator(indexYaml(content));
+  }
+
+  static forJson(content: string): LineLocator {
+    return new LineLocator(indexJson(content));
+  }
+
+  /**
+   * Line of the value at `path`, or of its closest known ancestor
+   */
+  locate(path: ValuePath): number {
+    for (let length = path.length; length > 0; length--) {
+      const line = this.lines.get(pathKey(path.slice(0, length)));
+      if (line !== undefined) return line;
+    }
+    return 1;
+  }
+}
+
+/**
+ * Line number for a character offset
+ */
+export function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+function pathKey(path: ValuePath): string {
+  return JSON.stringify(path);
+}
+
+interface YamlFrame {
+  indent: number;
+  kind: 'map' | 'seq';
+  path: ValuePath;
+  index: number;
+}
+
+function indexYaml(content: string): Map<string, number> {
+  const result = new Map<string, number>();
+  const stack: YamlFrame[] = [{ indent: 0, kind: 'map', path: [], index: -1 }];
+  let lastPath: ValuePath = [];
+  let blockScalarIndent: number | null = null;
+
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed === '---') continue;
+
+    let indent = raw.length - raw.trimStart().length;
+
+    // Skip the body of `|` and `>` block scalars
+    if (blockScalarIndent !== null) {
+      if (indent > blockScalarIndent) continue;
+      blockScalarIndent = null;
+    }
+
+    let text = trimmed;
+
+    while (stack.length > 1 && stack[stack.length - 1].indent > indent) {
+      stack.pop();
+    }
+
+    if (text === '-' || text.startsWith('- ')) {
+      let top = stack[stack.length - 1];
+      if (top.kind !== 'seq' || top.indent !== indent) {
+        top = { indent, kind: 'seq', path: lastPath, index: -1 };
+        stack.push(top);
+      }
+      top.index++;
+      lastPath = [...top.path, top.index];
+      result.set(pathKey(lastPath), i + 1);
+
+      // `- key: value` starts a mapping inside the item
+      const rest = text.slice(1).trimStart();
+      if (!rest) continue;
+      indent += text.length - rest.length;
+      text = rest;
+      stack.push({ indent, kind: 'map', path: lastPath, index: -1 });
+    }
+
+    const keyMatch = text.match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^:#{[\]]+?):(?:\s+(.*))?$/);
+    if (!keyMatch) continue;
+
+    let top = stack[stack.length - 1];
+    if (top.kind === 'seq' && top.indent === indent) {
+      stack.pop();
+      top = stack[stack.length - 1];
+    }
+    if (top.indent !== indent || top.kind !== 'map') {
+      top = { indent, kind: 'map', path: lastPath, index: -1 };
+      stack.push(top);
+    }
+
+    const key = keyMatch[1].replace(/^["']|["']$/g, '');
+    lastPath = [...top.path, key];
+    result.set(pathKey(lastPath), i + 1);
+
+    const value = (keyMatch[2] || '').trim();
+    if (/^[|>][-+0-9]*$/.test(value)) {
+      blockScalarIndent = indent;
+    }
+  }
+
+  return result;
+}
+
+function indexJson(content: string): Map<string, number> {
+  const result = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = (): void => {
+    while (pos < content.length && /\s/.test(content[pos])) {
+      if (content[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < content.length && content[pos] !== '"') {
+      if (content[pos] === '\\') pos++;
+      pos++;
+    }
+    pos++;
+    try {
+      return JSON.parse(content.slice(start, pos)) as string;
+    } catch {
+      return content.slice(start + 1, pos - 1);
+    }
+  };
+
+  const readValue = (path: ValuePath): void => {
+    skipWhitespace();
+    result.set(pathKey(path), line);
+    const ch = content[pos];
+
+    if (ch === '{') {
+      pos++;
+      skipWhitespace();
+      while (pos < content.length && content[pos] !== '}') {
+        if (content[pos] !== '"') break;
+        const keyLine = line;
+        const key = readString();
+        skipWhitespace();
+        pos++; // ':'
+        readValue([...path, key]);
+        result.set(pathKey([...path, key]), keyLine);
+        skipWhitespace();
+        if (content[pos] === ',') {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+    } else if (ch === '[') {
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (pos < content.length && content[pos] !== ']') {
+        readValue([...path, index++]);
+        skipWhitespace();
+        if (content[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (ch === '"') {
+      readString();
+    } else {
+      while (pos < content.length && !/[\s,\]}]/.test(content[pos])) pos++;
+    }
+  };
+
+  readValue([]);
+  return result;
+}